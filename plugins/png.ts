@@ -0,0 +1,163 @@
+import { deflateSync, inflateSync } from 'node:zlib';
+
+// Just enough PNG support for packing block textures at build time: any
+// non-interlaced PNG is decoded to 8-bit RGBA, and RGBA images are encoded.
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const crcTable = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const channelCounts: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+export function decodePng(file: Uint8Array): RgbaImage {
+  const buffer = Buffer.from(file.buffer, file.byteOffset, file.byteLength);
+  if (!buffer.subarray(0, 8).equals(SIGNATURE)) throw new Error('Not a PNG file');
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset < buffer.length; ) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) throw new Error('Interlaced PNGs are not supported');
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = channelCounts[colorType];
+  if (!channels) throw new Error(`Unsupported PNG color type ${colorType}`);
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = inflateSync(Buffer.concat(idat));
+  const pixels = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = y * stride;
+    for (let i = 0; i < stride; i++) {
+      const left = i >= bytesPerPixel ? pixels[row + i - bytesPerPixel] : 0;
+      const up = y > 0 ? pixels[row - stride + i] : 0;
+      const upLeft = y > 0 && i >= bytesPerPixel ? pixels[row - stride + i - bytesPerPixel] : 0;
+      const predictor =
+        filter === 1 ? left
+        : filter === 2 ? up
+        : filter === 3 ? (left + up) >> 1
+        : filter === 4 ? paeth(left, up, upLeft)
+        : 0;
+      pixels[row + i] = (line[i] + predictor) & 0xff;
+    }
+  }
+
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  const sample = (y: number, index: number): number => {
+    if (bitDepth === 16) return pixels[y * stride + index * 2];
+    if (bitDepth === 8) return pixels[y * stride + index];
+    const bit = index * bitDepth;
+    return (pixels[y * stride + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const scale = (value: number) => Math.round((value * 255) / maxSample);
+  const transparentSample = (channel: number) =>
+    transparency && colorType !== 3 ? transparency.readUInt16BE(channel * 2) >> (bitDepth === 16 ? 8 : 0) : -1;
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const base = x * channels;
+      if (colorType === 3) {
+        const index = sample(y, base);
+        data.set(palette ? palette.subarray(index * 3, index * 3 + 3) : [0, 0, 0], out);
+        data[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = sample(y, base);
+        data.fill(scale(gray), out, out + 3);
+        data[out + 3] = colorType === 4 ? scale(sample(y, base + 1)) : gray === transparentSample(0) ? 0 : 255;
+      } else {
+        const [r, g, b] = [sample(y, base), sample(y, base + 1), sample(y, base + 2)];
+        data.set([r, g, b], out);
+        const keyed = r === transparentSample(0) && g === transparentSample(1) && b === transparentSample(2);
+        data[out + 3] = colorType === 6 ? sample(y, base + 3) : keyed ? 0 : 255;
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+function chunk(type: string, data: Uint8Array): Buffer {
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+export function encodePng({ width, height, data }: RgbaImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = 6;
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ]);
+}
@@ -0,0 +1,169 @@
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+import { decodePng, encodePng, type RgbaImage } from './png';
+
+const VIRTUAL_ID = 'virtual:block-atlas';
+const RESOLVED_ID = `\0${VIRTUAL_ID}`;
+
+const TILE_SIZE = 16;
+
+export interface TextureAtlasOptions {
+  // Texture key (block id) to file name inside sourceDir.
+  textures: Record<string, string>;
+  // A copy of assets/minecraft/textures/block from the Minecraft client.
+  sourceDir: string;
+}
+
+// Pixel positions of the frames of a texture in the atlas and the contents
+// of its .mcmeta file, which the editor parses.
+interface AtlasTexture {
+  frames: [number, number][];
+  mcmeta?: unknown;
+}
+
+interface PackedAtlas {
+  fileName: string;
+  png: Buffer;
+  textures: Record<string, AtlasTexture>;
+}
+
+interface SourceTexture {
+  image: RgbaImage;
+  mcmeta?: unknown;
+}
+
+// Strips of frames are only animated when described by `<file>.mcmeta`, as
+// in the game; otherwise the first frame is used.
+function readTexture(filePath: string, file: string, warn: (message: string) => void): SourceTexture | null {
+  const image = decodePng(readFileSync(filePath));
+  if (image.width !== TILE_SIZE || image.height < TILE_SIZE) {
+    warn(`${file} is ${image.width}×${image.height}, expected ${TILE_SIZE}×${TILE_SIZE}; skipped`);
+    return null;
+  }
+  if (image.height === TILE_SIZE || !existsSync(`${filePath}.mcmeta`)) {
+    return { image: { ...image, height: TILE_SIZE } };
+  }
+  try {
+    return { image, mcmeta: JSON.parse(readFileSync(`${filePath}.mcmeta`, 'utf8')) };
+  } catch (error) {
+    warn(`${file}.mcmeta could not be read: ${(error as Error).message}; the texture is not animated`);
+    return { image: { ...image, height: TILE_SIZE } };
+  }
+}
+
+// Packs every texture that exists in sourceDir into one square-ish sheet of
+// 16×16 tiles, one tile per animation frame. Keys that point at the same file
+// share their tiles.
+function packAtlas({ textures, sourceDir }: TextureAtlasOptions, warn: (message: string) => void): PackedAtlas | null {
+  if (!existsSync(sourceDir)) {
+    warn(`${sourceDir} does not exist; blocks are drawn with their flat colors (see README)`);
+    return null;
+  }
+
+  const files = [...new Set(Object.values(textures))];
+  const sources = new Map<string, SourceTexture>();
+  const missing: string[] = [];
+
+  for (const file of files) {
+    const filePath = path.join(sourceDir, file);
+    if (!existsSync(filePath)) {
+      missing.push(file);
+      continue;
+    }
+    try {
+      const source = readTexture(filePath, file, warn);
+      if (source) sources.set(file, source);
+    } catch (error) {
+      warn(`${file} could not be read: ${(error as Error).message}`);
+    }
+  }
+
+  if (missing.length > 0) {
+    warn(
+      `${missing.length} of ${files.length} block textures are missing in ${sourceDir}; ` +
+      'those blocks are drawn with flat colors'
+    );
+  }
+  if (sources.size === 0) return null;
+
+  const tileCount = [...sources.values()].reduce((sum, { image }) => sum + Math.floor(image.height / TILE_SIZE), 0);
+  const columns = Math.ceil(Math.sqrt(tileCount));
+  const rows = Math.ceil(tileCount / columns);
+  const width = columns * TILE_SIZE;
+  const data = new Uint8Array(width * rows * TILE_SIZE * 4);
+  const packed = new Map<string, AtlasTexture>();
+
+  let index = 0;
+  for (const [file, { image, mcmeta }] of sources) {
+    const frames: [number, number][] = [];
+    for (let frame = 0; frame < Math.floor(image.height / TILE_SIZE); frame++, index++) {
+      const x = (index % columns) * TILE_SIZE;
+      const y = Math.floor(index / columns) * TILE_SIZE;
+      for (let row = 0; row < TILE_SIZE; row++) {
+        const offset = (frame * TILE_SIZE + row) * TILE_SIZE * 4;
+        data.set(image.data.subarray(offset, offset + TILE_SIZE * 4), ((y + row) * width + x) * 4);
+      }
+      frames.push([x, y]);
+    }
+    packed.set(file, mcmeta === undefined ? { frames } : { frames, mcmeta });
+  }
+
+  const atlasTextures: Record<string, AtlasTexture> = {};
+  for (const [key, file] of Object.entries(textures)) {
+    const texture = packed.get(file);
+    if (texture) atlasTextures[key] = texture;
+  }
+
+  const png = encodePng({ width, height: rows * TILE_SIZE, data });
+  const hash = createHash('sha256').update(png).digest('hex').slice(0, 8);
+  return { fileName: `assets/block-atlas-${hash}.png`, png, textures: atlasTextures };
+}
+
+// Builds the block texture atlas when the dev server or a build starts and
+// exposes it as `virtual:block-atlas` in the shape of TextureAtlas from
+// src/lib/textures.ts, or null when no textures were found.
+export function textureAtlas(options: TextureAtlasOptions): Plugin {
+  let base = '/';
+  let atlas: PackedAtlas | null = null;
+
+  return {
+    name: 'block-texture-atlas',
+
+    configResolved(config) {
+      base = config.base;
+    },
+
+    buildStart() {
+      atlas = packAtlas(options, message => this.warn(message));
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_ID) return null;
+      const manifest = atlas && {
+        url: `${base}${atlas.fileName}`,
+        tileSize: TILE_SIZE,
+        textures: atlas.textures,
+      };
+      return `export default ${JSON.stringify(manifest)};`;
+    },
+
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        if (!atlas || req.url !== `${base}${atlas.fileName}`) return next();
+        res.setHeader('Content-Type', 'image/png');
+        res.end(atlas.png);
+      });
+    },
+
+    generateBundle() {
+      if (!atlas) return;
+      this.emitFile({ type: 'asset', fileName: atlas.fileName, source: atlas.png });
+    },
+  };
+}
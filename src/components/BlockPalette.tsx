@@ -0,0 +1,107 @@
+import { minecraftBlocks, blockCategories, type MinecraftBlock } from '@/data/minecraftBlocks';
+import type { BlockStates } from '@/lib/blockState';
+import type { BlockTextures } from '@/lib/textures';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import BlockStatePicker from '@/components/BlockStatePicker';
+import { BLOCK_DRAG_TYPE } from '@/components/Hotbar';
+
+interface BlockPaletteProps {
+  selectedBlock: MinecraftBlock;
+  // The state the selected block is placed with, if it has one.
+  state: BlockStates | undefined;
+  textures: BlockTextures;
+  onSelect: (block: MinecraftBlock) => void;
+  onStateChange: (key: string, value: string) => void;
+  onRotate: () => void;
+  onFlip: () => void;
+}
+
+// Blocks by category; they can be dragged onto the hotbar.
+export default function BlockPalette({
+  selectedBlock,
+  state,
+  textures,
+  onSelect,
+  onStateChange,
+  onRotate,
+  onFlip,
+}: BlockPaletteProps) {
+  return (
+    <ScrollArea className="flex-1 p-3">
+      <div className="space-y-1">
+        <p className="text-xs font-medium text-muted-foreground mb-2">Выбранный блок:</p>
+        <div className="p-2 bg-background rounded border border-border flex items-center gap-2 mb-3">
+          {textures.has(selectedBlock.id) ? (
+            <img
+              src={textures.get(selectedBlock.id)?.src}
+              alt={selectedBlock.name}
+              className="w-8 h-8 rounded border border-border pixel-canvas"
+            />
+          ) : (
+            <div
+              className="w-8 h-8 rounded border border-border"
+              style={{ backgroundColor: selectedBlock.color }}
+            />
+          )}
+          <span className="text-sm">{selectedBlock.name}</span>
+        </div>
+        {selectedBlock.states && state && (
+          <BlockStatePicker
+            definition={selectedBlock.states}
+            state={state}
+            onChange={onStateChange}
+            onRotate={onRotate}
+            onFlip={onFlip}
+          />
+        )}
+
+        <Tabs defaultValue={blockCategories[0]}>
+          <TabsList className="w-full grid grid-cols-2 h-auto gap-1">
+            {blockCategories.slice(0, 8).map(cat => (
+              <TabsTrigger key={cat} value={cat} className="text-xs px-1 py-1">
+                {cat}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          {blockCategories.map(category => (
+            <TabsContent key={category} value={category} className="mt-2">
+              <div className="grid grid-cols-4 gap-1">
+                {minecraftBlocks
+                  .filter(block => block.category === category)
+                  .map(block => {
+                    const texture = textures.get(block.id);
+
+                    return (
+                      <button
+                        key={block.id}
+                        draggable
+                        onDragStart={e => e.dataTransfer.setData(BLOCK_DRAG_TYPE, block.id)}
+                        onClick={() => onSelect(block)}
+                        className={`w-full aspect-square rounded border-2 transition-all hover:scale-110 overflow-hidden ${
+                          selectedBlock.id === block.id
+                            ? 'border-primary ring-2 ring-primary'
+                            : 'border-border'
+                        }`}
+                        style={!texture ? { backgroundColor: block.color } : {}}
+                        title={block.name}
+                      >
+                        {texture && (
+                          <img
+                            src={texture.src}
+                            alt={block.name}
+                            className="w-full h-full object-cover pixel-canvas"
+                          />
+                        )}
+                      </button>
+                    );
+                  })}
+              </div>
+            </TabsContent>
+          ))}
+        </Tabs>
+      </div>
+    </ScrollArea>
+  );
+}
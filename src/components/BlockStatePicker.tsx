@@ -0,0 +1,84 @@
+import type { BlockStateDefinition } from '@/data/minecraftBlocks';
+import type { BlockStates } from '@/lib/blockState';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import Icon from '@/components/ui/icon';
+
+const propertyLabels: Record<string, string> = {
+  facing: 'Направление',
+  axis: 'Ось',
+  half: 'Половина',
+  shape: 'Форма',
+  type: 'Тип',
+};
+
+const valueLabels: Record<string, string> = {
+  north: 'Север (от зрителя)',
+  east: 'Восток (вправо)',
+  south: 'Юг (к зрителю)',
+  west: 'Запад (влево)',
+  x: 'X (вдоль стены)',
+  y: 'Y (вертикально)',
+  z: 'Z (вглубь)',
+  bottom: 'Нижняя',
+  top: 'Верхняя',
+  double: 'Двойная',
+  lower: 'Нижняя',
+  upper: 'Верхняя',
+  straight: 'Прямая',
+  inner_left: 'Внутренний угол слева',
+  inner_right: 'Внутренний угол справа',
+  outer_left: 'Внешний угол слева',
+  outer_right: 'Внешний угол справа',
+};
+
+interface BlockStatePickerProps {
+  definition: BlockStateDefinition;
+  state: BlockStates;
+  onChange: (key: string, value: string) => void;
+  onRotate: () => void;
+  onFlip: () => void;
+}
+
+export default function BlockStatePicker({ definition, state, onChange, onRotate, onFlip }: BlockStatePickerProps) {
+  const canFlip = 'half' in definition || 'type' in definition;
+
+  return (
+    <div className="space-y-2 mb-3">
+      <div className="flex items-center gap-1">
+        <p className="text-xs font-medium text-muted-foreground flex-1">Состояние блока</p>
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Повернуть (R)" onClick={onRotate}>
+          <Icon name="RotateCw" size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Перевернуть (F)"
+          disabled={!canFlip}
+          onClick={onFlip}
+        >
+          <Icon name="FlipVertical" size={14} />
+        </Button>
+      </div>
+      {Object.entries(definition).map(([key, values]) => (
+        <div key={key} className="flex items-center gap-2">
+          <Label className="text-xs w-24 shrink-0">{propertyLabels[key] ?? key}</Label>
+          <Select value={state[key]} onValueChange={value => onChange(key, value)}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {values.map(value => (
+                <SelectItem key={value} value={value} className="text-xs">
+                  {valueLabels[value] ?? value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
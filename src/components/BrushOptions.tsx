@@ -0,0 +1,180 @@
+import type { MinecraftBlock } from '@/data/minecraftBlocks';
+import { getBlock } from '@/lib/blockState';
+import type { BlockTextures } from '@/lib/textures';
+import { MAX_BRUSH_SIZE, MIN_BRUSH_SIZE, type Brush, type BrushShape } from '@/core/brush';
+import { createSeed } from '@/core/random';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import Icon from '@/components/ui/icon';
+
+// The blocks of the mix brush; weights are relative, so 6/3/1 and 60/30/10
+// paint the same.
+export interface BlockMix {
+  enabled: boolean;
+  entries: { blockId: string; weight: number }[];
+  seed: number;
+}
+
+export const MAX_MIX_WEIGHT = 100;
+
+const brushShapes: { shape: BrushShape; icon: string; label: string }[] = [
+  { shape: 'square', icon: 'Square', label: 'Квадрат' },
+  { shape: 'circle', icon: 'Circle', label: 'Круг' },
+  { shape: 'diamond', icon: 'Diamond', label: 'Ромб' },
+];
+
+interface BrushOptionsProps {
+  brush: Brush;
+  // Shown for the brush only, the eraser has no blocks to mix.
+  mix: BlockMix | null;
+  selectedBlock: MinecraftBlock;
+  textures: BlockTextures;
+  onBrushChange: (brush: Brush) => void;
+  onMixChange: (mix: BlockMix) => void;
+}
+
+export default function BrushOptions({
+  brush,
+  mix,
+  selectedBlock,
+  textures,
+  onBrushChange,
+  onMixChange,
+}: BrushOptionsProps) {
+  const totalWeight = mix?.entries.reduce((sum, entry) => sum + entry.weight, 0) ?? 0;
+  const canAdd = !!mix && selectedBlock.id !== 'air' && !mix.entries.some(entry => entry.blockId === selectedBlock.id);
+
+  const updateWeight = (blockId: string, weight: number) => {
+    if (!mix) return;
+    const clamped = Math.max(0, Math.min(MAX_MIX_WEIGHT, Math.round(weight) || 0));
+    onMixChange({
+      ...mix,
+      entries: mix.entries.map(entry => (entry.blockId === blockId ? { ...entry, weight: clamped } : entry)),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Размер кисти: {brush.size}</Label>
+        <Slider
+          min={MIN_BRUSH_SIZE}
+          max={MAX_BRUSH_SIZE}
+          step={1}
+          value={[brush.size]}
+          onValueChange={([size]) => onBrushChange({ ...brush, size })}
+        />
+      </div>
+      <div className="flex gap-2">
+        {brushShapes.map(({ shape, icon, label }) => (
+          <Button
+            key={shape}
+            variant={brush.shape === shape ? 'secondary' : 'ghost'}
+            size="sm"
+            className="flex-1"
+            title={label}
+            disabled={brush.size === 1}
+            onClick={() => onBrushChange({ ...brush, shape })}
+          >
+            <Icon name={icon} size={16} />
+          </Button>
+        ))}
+      </div>
+
+      {mix && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="brush-mix"
+              checked={mix.enabled}
+              onCheckedChange={checked => onMixChange({ ...mix, enabled: checked === true })}
+            />
+            <Label htmlFor="brush-mix" className="text-sm">Смесь блоков</Label>
+          </div>
+
+          {mix.enabled && (
+            <>
+              {mix.entries.map(entry => {
+                const texture = textures.get(entry.blockId);
+                const block = getBlock(entry.blockId);
+                return (
+                  <div key={entry.blockId} className="flex items-center gap-1">
+                    {texture ? (
+                      <img src={texture.src} alt="" className="w-5 h-5 pixel-canvas shrink-0" />
+                    ) : (
+                      <div className="w-5 h-5 rounded-sm shrink-0" style={{ backgroundColor: block?.color }} />
+                    )}
+                    <span className="text-xs truncate flex-1" title={block?.name}>{block?.name ?? entry.blockId}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={MAX_MIX_WEIGHT}
+                      value={entry.weight}
+                      onChange={e => updateWeight(entry.blockId, Number(e.target.value))}
+                      className="h-7 w-14 px-1 text-xs"
+                    />
+                    <span className="text-xs text-muted-foreground w-9 text-right">
+                      {totalWeight > 0 ? Math.round((entry.weight / totalWeight) * 100) : 0}%
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      title="Убрать из смеси"
+                      onClick={() => onMixChange({
+                        ...mix,
+                        entries: mix.entries.filter(e => e.blockId !== entry.blockId),
+                      })}
+                    >
+                      <Icon name="X" size={12} />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                disabled={!canAdd}
+                onClick={() => onMixChange({
+                  ...mix,
+                  entries: [...mix.entries, { blockId: selectedBlock.id, weight: 10 }],
+                })}
+              >
+                <Icon name="Plus" size={16} />
+                <span className="ml-2 truncate">{selectedBlock.name}</span>
+              </Button>
+              <div className="flex items-center gap-1">
+                <Label htmlFor="brush-seed" className="text-xs text-muted-foreground">Зерно</Label>
+                <Input
+                  id="brush-seed"
+                  type="number"
+                  value={mix.seed}
+                  onChange={e => onMixChange({ ...mix, seed: Math.trunc(Number(e.target.value)) >>> 0 })}
+                  className="h-7 flex-1 px-1 text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Новое зерно"
+                  onClick={() => onMixChange({ ...mix, seed: createSeed() })}
+                >
+                  <Icon name="Dices" size={14} />
+                </Button>
+              </div>
+              {totalWeight === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Добавьте блоки в смесь; пока она пуста, кисть рисует выбранным блоком
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
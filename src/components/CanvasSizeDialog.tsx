@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import {
+  anchors,
+  clampCanvasSize,
+  MAX_CANVAS_SIZE,
+  MIN_CANVAS_SIZE,
+  type Anchor,
+} from '@/lib/grid';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import Icon from '@/components/ui/icon';
+
+const presets = [
+  { width: 16, height: 16 },
+  { width: 32, height: 32 },
+  { width: 64, height: 48 },
+  { width: 128, height: 64 },
+  { width: 256, height: 128 },
+];
+
+const anchorIcons: Record<Anchor, string> = {
+  'top-left': 'ArrowUpLeft',
+  'top': 'ArrowUp',
+  'top-right': 'ArrowUpRight',
+  'left': 'ArrowLeft',
+  'center': 'Dot',
+  'right': 'ArrowRight',
+  'bottom-left': 'ArrowDownLeft',
+  'bottom': 'ArrowDown',
+  'bottom-right': 'ArrowDownRight',
+};
+
+interface CanvasSizeDialogProps {
+  mode: 'new' | 'resize' | null;
+  width: number;
+  height: number;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (width: number, height: number, anchor: Anchor) => void;
+}
+
+export default function CanvasSizeDialog({ mode, width, height, onOpenChange, onSubmit }: CanvasSizeDialogProps) {
+  const [newWidth, setNewWidth] = useState(String(width));
+  const [newHeight, setNewHeight] = useState(String(height));
+  const [anchor, setAnchor] = useState<Anchor>('center');
+
+  useEffect(() => {
+    if (mode) {
+      setNewWidth(String(width));
+      setNewHeight(String(height));
+      setAnchor('center');
+    }
+  }, [mode, width, height]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(clampCanvasSize(Number(newWidth)), clampCanvasSize(Number(newHeight)), anchor);
+  };
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{mode === 'new' ? 'Новый холст' : 'Размер холста'}</DialogTitle>
+            <DialogDescription>
+              {mode === 'new'
+                ? 'Текущая постройка будет заменена пустым холстом'
+                : 'Блоки сохранятся относительно выбранной точки привязки'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="canvas-width">Ширина</Label>
+              <Input
+                id="canvas-width"
+                type="number"
+                min={MIN_CANVAS_SIZE}
+                max={MAX_CANVAS_SIZE}
+                value={newWidth}
+                onChange={e => setNewWidth(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="canvas-height">Высота</Label>
+              <Input
+                id="canvas-height"
+                type="number"
+                min={MIN_CANVAS_SIZE}
+                max={MAX_CANVAS_SIZE}
+                value={newHeight}
+                onChange={e => setNewHeight(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {presets.map(preset => (
+              <Button
+                key={`${preset.width}x${preset.height}`}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => { setNewWidth(String(preset.width)); setNewHeight(String(preset.height)); }}
+              >
+                {preset.width}×{preset.height}
+              </Button>
+            ))}
+          </div>
+
+          {mode === 'resize' && (
+            <div className="space-y-1">
+              <Label>Привязка</Label>
+              <div className="grid grid-cols-3 gap-1 w-28">
+                {anchors.map(a => (
+                  <Button
+                    key={a}
+                    type="button"
+                    variant={anchor === a ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    onClick={() => setAnchor(a)}
+                  >
+                    <Icon name={anchorIcons[a]} size={14} />
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="submit">{mode === 'new' ? 'Создать' : 'Применить'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import { minecraftBlocks, type MinecraftBlock } from '@/data/minecraftBlocks';
+import type { BlockTextures } from '@/lib/textures';
+import { getEnglishBlockName, matchSearch } from '@/core/search';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import Icon from '@/components/ui/icon';
+
+// An editor command; `keywords` hold the English words it is found by.
+export interface PaletteAction {
+  id: string;
+  label: string;
+  keywords: string[];
+  icon: string;
+  shortcut?: string;
+  disabled?: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  actions: PaletteAction[];
+  selectedBlockId: string;
+  textures: BlockTextures;
+  onOpenChange: (open: boolean) => void;
+  onSelectBlock: (block: MinecraftBlock) => void;
+}
+
+// Items are matched by their keywords only; the value just tells them apart.
+const filterItem = (value: string, search: string, keywords?: string[]) => matchSearch(search, keywords ?? [value]);
+
+export default function CommandPalette({
+  open,
+  actions,
+  selectedBlockId,
+  textures,
+  onOpenChange,
+  onSelectBlock,
+}: CommandPaletteProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <DialogTitle className="sr-only">Команды и блоки</DialogTitle>
+        <DialogDescription className="sr-only">Поиск блока по названию или id и команды редактора</DialogDescription>
+        <Command
+          filter={filterItem}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]:not([hidden])_~[cmdk-group]]:pt-0 [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2"
+        >
+          <CommandInput placeholder="Блок или команда: «тёмн», dark oak, export png…" />
+          <CommandList>
+            <CommandEmpty>Ничего не найдено</CommandEmpty>
+            <CommandGroup heading="Блоки">
+              {minecraftBlocks.map(block => {
+                const texture = textures.get(block.id);
+                return (
+                  <CommandItem
+                    key={block.id}
+                    value={`block:${block.id}`}
+                    keywords={[block.name, getEnglishBlockName(block.id), block.id]}
+                    onSelect={() => {
+                      onSelectBlock(block);
+                      onOpenChange(false);
+                    }}
+                  >
+                    {texture ? (
+                      <img src={texture.src} alt="" className="w-6 h-6 pixel-canvas shrink-0" />
+                    ) : (
+                      <span className="w-6 h-6 rounded-sm border border-border shrink-0" style={{ backgroundColor: block.color }} />
+                    )}
+                    <span className="ml-2 truncate">{block.name}</span>
+                    <span className="ml-2 text-xs text-muted-foreground truncate">{block.id}</span>
+                    {block.id === selectedBlockId && <Icon name="Check" size={14} className="ml-auto shrink-0" />}
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+            <CommandGroup heading="Команды">
+              {actions.map(action => (
+                <CommandItem
+                  key={action.id}
+                  value={`action:${action.id}`}
+                  keywords={[action.label, ...action.keywords]}
+                  disabled={action.disabled}
+                  onSelect={() => {
+                    onOpenChange(false);
+                    action.run();
+                  }}
+                >
+                  <Icon name={action.icon} size={16} />
+                  <span className="ml-2">{action.label}</span>
+                  {action.shortcut && <CommandShortcut>{action.shortcut}</CommandShortcut>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import { Card } from '@/components/ui/card';
+
+// The help card under the template gallery.
+export default function EditorHelp() {
+  return (
+    <Card className="p-6 mt-8">
+      <h3 className="text-xl font-semibold mb-4">📖 Справка</h3>
+      <div className="space-y-3 text-sm">
+        <div>
+          <p className="font-medium">Инструменты:</p>
+          <ul className="list-disc list-inside text-muted-foreground ml-2 mt-1">
+            <li>Кисть - рисование блоков; размер от 1 до 16 в форме квадрата, круга или ромба. Смесь блоков рисует случайно выбранными блоками по весам (например, 60% камня, 30% андезита, 10% булыжника); одно и то же зерно даёт тот же узор</li>
+            <li>Ластик - удаление блоков</li>
+            <li>Заливка - заполнение области</li>
+            <li>Рука - перемещение по холсту; на сенсорном экране двумя пальцами можно двигать и масштабировать холст любым инструментом</li>
+            <li>Линия, прямоугольник, эллипс - протяните от угла до угла, Shift выравнивает линию и делает квадрат или круг</li>
+            <li>Многоугольник - кликайте по вершинам, двойной клик, клик по первой вершине или Enter завершают фигуру</li>
+            <li>Слои - кнопки над списком добавляют, копируют, переставляют, объединяют и удаляют слои; двойной клик по имени переименовывает. Инструменты рисуют на активном слое, экспорт объединяет видимые слои</li>
+            <li>Симметрия - кисть, ластик, заливка и фигуры рисуют зеркально слева направо, сверху вниз, на четыре части или по кругу вокруг центра; ось двигается за круглые метки у краёв холста и встаёт между блоками или посередине блока</li>
+            <li>Панель быстрого доступа - девять слотов под холстом: перетащите в слот блок из палитры или из недавних, клик по пустому слоту кладёт выбранный блок, правый клик очищает слот; недавние блоки запоминаются сами</li>
+            <li>Пипетка - клик по холсту выбирает блок вместе с его состоянием</li>
+            <li>Замена - меняет один блок на другой на всём слое, в выделении или в связанной области, по которой кликнули; клик по холсту выбирает, что заменить, а состояние (например, направление ступенек) сохраняется</li>
+            <li>Выделение - прямоугольник, лассо или волшебная палочка (область одного блока); выделенное можно перетащить</li>
+            <li>Материалы - список блоков постройки или выделения с количеством в стаках по 64 и шалкерах; сортируется по клику на заголовок и скачивается как CSV или текст</li>
+            <li>Импорт изображения - логотип или спрайт превращается в блоки, похожие по цвету текстуры; можно ограничить категории блоков (например, только шерсть и бетон) и включить дизеринг</li>
+            <li>Ресурспак - импортируйте .zip с текстурами сервера и переключайтесь между ресурспаками в боковой панели</li>
+            <li>Анимация - вода, лава, магма и призмарин двигаются, как в игре; остановите анимацию кнопкой в боковой панели, а экспорт PNG сохранит её как APNG</li>
+            <li>Состояние блока - у брёвен, ступенек, плит, дверей и заборов под выбранным блоком задаются направление, ось и половина</li>
+          </ul>
+        </div>
+        <div>
+          <p className="font-medium">Управление:</p>
+          <ul className="list-disc list-inside text-muted-foreground ml-2 mt-1">
+            <li>Клик - поставить/убрать блок</li>
+            <li>Зажать и тянуть - рисовать линию</li>
+            <li>Колёсико мыши - изменить зум вокруг курсора</li>
+            <li>Пробел + перетаскивание или Shift+ЛКМ - двигать холст; у фигур Shift выравнивает, двигайте пробелом</li>
+            <li>Alt+клик или средняя кнопка - взять блок с холста пипеткой</li>
+            <li>1–9 или Shift+колёсико - переключить слот панели быстрого доступа</li>
+            <li>Ctrl+Z / Ctrl+Shift+Z - отменить/повторить</li>
+            <li>Ctrl+C / Ctrl+X / Ctrl+V - копировать, вырезать и вставить выделение, в том числе между вкладками</li>
+            <li>Ctrl+K - найти блок по русскому или английскому названию или id («тёмн», dark oak, dark_oak_planks) или выполнить команду, например экспорт PNG</li>
+            <li>Ctrl+A - выделить всё, Delete - очистить выделение, Esc - снять выделение</li>
+            <li>R - повернуть блок, F - перевернуть ступеньки, плиты и двери (для блоков с состоянием)</li>
+          </ul>
+        </div>
+        <div>
+          <p className="font-medium">Сохранение:</p>
+          <p className="text-muted-foreground ml-2 mt-1">
+            Постройка автоматически сохраняется в браузере. В разделе "Мои проекты" можно хранить несколько построек под разными именами
+          </p>
+        </div>
+        <div>
+          <p className="font-medium">Файлы:</p>
+          <p className="text-muted-foreground ml-2 mt-1">
+            "Сохранить" скачивает проект в формате .mc2d.json, "Открыть" загружает его обратно. Неизвестные блоки отображаются розово-чёрной заглушкой
+          </p>
+        </div>
+        <div>
+          <p className="font-medium">Экспорт:</p>
+          <p className="text-muted-foreground ml-2 mt-1">
+            Нажмите "Экспорт PNG" для сохранения конструкции в полном размере: весь холст или только постройка, от 1 до 32 пикселей на блок, с прозрачным или цветным фоном
+          </p>
+          <p className="text-muted-foreground ml-2 mt-1">
+            "Minecraft" → экспорт сохраняет стену толщиной в один блок: .nbt загружается структурным блоком (файл кладётся в generated/minecraft/structures мира), .schem вставляется через WorldEdit командами //schem load и //paste. Импорт загружает срез из .schem, .nbt или .litematic
+          </p>
+          <p className="text-muted-foreground ml-2 mt-1">
+            Для серверов без WorldEdit есть экспорт команд: файл .mcfunction или готовый датапак для папки datapacks мира
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import Icon from '@/components/ui/icon';
+
+interface FileMenuProps {
+  onOpenFile: () => void;
+  onSaveFile: () => void;
+  onImportImage: () => void;
+  onExportPng: () => void;
+  onImportStructure: () => void;
+  onExportStructure: (format: 'nbt' | 'schem') => void;
+  onExportMcfunction: () => void;
+  onToggleGallery: () => void;
+  onToggleProjects: () => void;
+}
+
+// The bottom of the sidebar: files, imports, exports and the other views.
+export default function FileMenu({
+  onOpenFile,
+  onSaveFile,
+  onImportImage,
+  onExportPng,
+  onImportStructure,
+  onExportStructure,
+  onExportMcfunction,
+  onToggleGallery,
+  onToggleProjects,
+}: FileMenuProps) {
+  return (
+    <div className="p-3 border-t border-border space-y-2">
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={onOpenFile}>
+          <Icon name="FolderInput" size={16} />
+          <span className="ml-2">Открыть</span>
+        </Button>
+        <Button variant="outline" className="flex-1" onClick={onSaveFile}>
+          <Icon name="Save" size={16} />
+          <span className="ml-2">Сохранить</span>
+        </Button>
+      </div>
+      <Button variant="outline" className="w-full" onClick={onImportImage}>
+        <Icon name="ImagePlus" size={16} />
+        <span className="ml-2">Импорт изображения</span>
+      </Button>
+      <Button className="w-full" onClick={onExportPng}>
+        <Icon name="Download" size={16} />
+        <span className="ml-2">Экспорт PNG</span>
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="w-full">
+            <Icon name="Box" size={16} />
+            <span className="ml-2">Minecraft</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="w-56">
+          <DropdownMenuItem onClick={onImportStructure}>
+            <Icon name="Upload" size={16} />
+            <span className="ml-2">Импорт структуры…</span>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Экспорт стены в плоскости XY</DropdownMenuLabel>
+          <DropdownMenuItem onClick={() => onExportStructure('nbt')}>
+            <Icon name="FileBox" size={16} />
+            <span className="ml-2">Структура (.nbt)</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onExportStructure('schem')}>
+            <Icon name="FileCode" size={16} />
+            <span className="ml-2">WorldEdit (.schem)</span>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={onExportMcfunction}>
+            <Icon name="Terminal" size={16} />
+            <span className="ml-2">Команды (.mcfunction)…</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button variant="outline" className="w-full" onClick={onToggleGallery}>
+        <Icon name="Images" size={16} />
+        <span className="ml-2">Галерея</span>
+      </Button>
+      <Button variant="outline" className="w-full" onClick={onToggleProjects}>
+        <Icon name="FolderOpen" size={16} />
+        <span className="ml-2">Мои проекты</span>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import type React from 'react';
+import { getBlock } from '@/lib/blockState';
+import type { BlockTextures } from '@/lib/textures';
+import type { Hotbar as HotbarState } from '@/core/hotbar';
+
+// Blocks are dragged from the palette and the recent strip by id; slots
+// dragged onto each other swap.
+export const BLOCK_DRAG_TYPE = 'application/x-mc2d-block';
+const SLOT_DRAG_TYPE = 'application/x-mc2d-hotbar-slot';
+
+interface HotbarProps {
+  hotbar: HotbarState;
+  recent: string[];
+  selectedBlockId: string;
+  textures: BlockTextures;
+  className?: string;
+  onSelectSlot: (index: number) => void;
+  onSetSlot: (index: number, blockId: string | null) => void;
+  onSwapSlots: (from: number, to: number) => void;
+  onCycle: (delta: number) => void;
+  onSelectBlock: (blockId: string) => void;
+}
+
+function BlockTile({ blockId, textures }: { blockId: string; textures: BlockTextures }) {
+  const texture = textures.get(blockId);
+  return texture ? (
+    <img src={texture.src} alt="" className="w-full h-full object-cover pixel-canvas pointer-events-none" />
+  ) : (
+    <span className="block w-full h-full" style={{ backgroundColor: getBlock(blockId)?.color }} />
+  );
+}
+
+function startBlockDrag(e: React.DragEvent, blockId: string) {
+  e.dataTransfer.setData(BLOCK_DRAG_TYPE, blockId);
+  e.dataTransfer.effectAllowed = 'copy';
+}
+
+export default function Hotbar({
+  hotbar,
+  recent,
+  selectedBlockId,
+  textures,
+  className,
+  onSelectSlot,
+  onSetSlot,
+  onSwapSlots,
+  onCycle,
+  onSelectBlock,
+}: HotbarProps) {
+  const handleDragOver = (e: React.DragEvent) => {
+    const types = e.dataTransfer.types;
+    if (!types.includes(BLOCK_DRAG_TYPE) && !types.includes(SLOT_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = types.includes(SLOT_DRAG_TYPE) ? 'move' : 'copy';
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    const slot = e.dataTransfer.getData(SLOT_DRAG_TYPE);
+    if (slot) {
+      onSwapSlots(Number(slot), index);
+      return;
+    }
+    const blockId = e.dataTransfer.getData(BLOCK_DRAG_TYPE);
+    if (blockId && getBlock(blockId)) onSetSlot(index, blockId);
+  };
+
+  // An empty slot takes the selected block on a click, which also works on
+  // touch screens where nothing can be dragged.
+  const handleClick = (index: number) => {
+    if (!hotbar.slots[index] && selectedBlockId !== 'air') onSetSlot(index, selectedBlockId);
+    onSelectSlot(index);
+  };
+
+  return (
+    <div className={`flex flex-col items-center gap-1 ${className ?? ''}`}>
+      {recent.length > 0 && (
+        <div className="flex items-center gap-1 max-w-full overflow-x-auto">
+          <span className="text-xs text-muted-foreground mr-1">Недавние</span>
+          {recent.map(blockId => (
+            <button
+              key={blockId}
+              draggable
+              onDragStart={e => startBlockDrag(e, blockId)}
+              onClick={() => onSelectBlock(blockId)}
+              className={`w-6 h-6 shrink-0 rounded-sm border overflow-hidden ${
+                blockId === selectedBlockId ? 'border-primary' : 'border-border'
+              }`}
+              title={getBlock(blockId)?.name ?? blockId}
+            >
+              <BlockTile blockId={blockId} textures={textures} />
+            </button>
+          ))}
+        </div>
+      )}
+      <div
+        className="flex gap-1 p-1 rounded bg-card border border-border"
+        onWheel={e => {
+          const delta = e.deltaY || e.deltaX;
+          if (delta) onCycle(Math.sign(delta));
+        }}
+      >
+        {hotbar.slots.map((blockId, index) => (
+          <button
+            key={index}
+            draggable={!!blockId}
+            onDragStart={e => {
+              e.dataTransfer.setData(SLOT_DRAG_TYPE, String(index));
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onDragOver={handleDragOver}
+            onDrop={e => handleDrop(e, index)}
+            onClick={() => handleClick(index)}
+            onContextMenu={e => {
+              e.preventDefault();
+              onSetSlot(index, null);
+            }}
+            className={`relative w-8 h-8 md:w-10 md:h-10 rounded-sm border-2 overflow-hidden bg-muted ${
+              index === hotbar.active ? 'border-primary ring-2 ring-primary' : 'border-border'
+            }`}
+            title={
+              blockId
+                ? `${index + 1}: ${getBlock(blockId)?.name ?? blockId} (правый клик — очистить)`
+                : `${index + 1}: пусто — перетащите блок или кликните, чтобы положить выбранный`
+            }
+          >
+            {blockId && <BlockTile blockId={blockId} textures={textures} />}
+            <span className="absolute top-0 left-0.5 text-[10px] leading-none text-white drop-shadow-[0_1px_1px_rgba(0,0,0,0.9)]">
+              {index + 1}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { blockCategories } from '@/data/minecraftBlocks';
+import type { Cell } from '@/lib/grid';
+import { getBlockColors, loadImageFile, readImagePixels } from '@/lib/imageImport';
+import { renderThumbnail } from '@/lib/thumbnail';
+import type { BlockTextures } from '@/lib/textures';
+import { convertImageToBlocks, fitImageSize } from '@/core/imageToBlocks';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import Icon from '@/components/ui/icon';
+
+// 'Основное' only holds air.
+const imageCategories = blockCategories.filter(category => category !== 'Основное');
+
+interface ImageImportDialogProps {
+  open: boolean;
+  textures: BlockTextures;
+  // The canvas size, which the image is fitted into.
+  maxWidth: number;
+  maxHeight: number;
+  onOpenChange: (open: boolean) => void;
+  onImport: (grid: Cell[][], fileName: string) => void;
+}
+
+export default function ImageImportDialog({
+  open,
+  textures,
+  maxWidth,
+  maxHeight,
+  onOpenChange,
+  onImport,
+}: ImageImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [width, setWidth] = useState(1);
+  const [dither, setDither] = useState(false);
+  const [categories, setCategories] = useState<string[]>(imageCategories);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setImage(null);
+      setFileName('');
+      setError(null);
+    }
+  }, [open]);
+
+  const maxSize = useMemo(
+    () => image && fitImageSize(
+      { width: image.naturalWidth, height: image.naturalHeight },
+      { width: maxWidth, height: maxHeight }
+    ),
+    [image, maxWidth, maxHeight]
+  );
+  const size = useMemo(
+    () => image && maxSize && fitImageSize(
+      { width: image.naturalWidth, height: image.naturalHeight },
+      { width: Math.min(width, maxSize.width), height: maxHeight }
+    ),
+    [image, maxSize, width, maxHeight]
+  );
+
+  const palette = useMemo(() => getBlockColors(textures, new Set(categories)), [textures, categories]);
+
+  const pixels = useMemo(() => (image && size ? readImagePixels(image, size.width, size.height) : null), [image, size]);
+  const grid = useMemo(
+    () => (pixels ? convertImageToBlocks(pixels, palette, { dither }) : null),
+    [pixels, palette, dither]
+  );
+  const preview = useMemo(() => (grid ? renderThumbnail(grid, textures, 320) : ''), [grid, textures]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const loaded = await loadImageFile(file);
+      setImage(loaded);
+      setFileName(file.name);
+      // Small sprites keep one pixel per block.
+      setWidth(Math.min(loaded.naturalWidth, maxWidth));
+    } catch {
+      setImage(null);
+      setError('Не удалось открыть изображение');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Импорт изображения</DialogTitle>
+          <DialogDescription>
+            Каждый пиксель уменьшенного изображения становится блоком, ближайшим по цвету текстуры
+          </DialogDescription>
+        </DialogHeader>
+
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Icon name="Upload" size={16} />
+          <span className="ml-2">{fileName || 'Выбрать изображение'}</span>
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={handleFile}
+        />
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {image && size && maxSize && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>
+                Размер: {size.width}×{size.height} блоков
+              </Label>
+              <Slider
+                min={1}
+                max={maxSize.width}
+                step={1}
+                value={[size.width]}
+                onValueChange={([value]) => setWidth(value)}
+                disabled={maxSize.width <= 1}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label>Блоки</Label>
+              <ToggleGroup
+                type="multiple"
+                value={categories}
+                onValueChange={setCategories}
+                className="justify-start flex-wrap"
+              >
+                {imageCategories.map(category => (
+                  <ToggleGroupItem key={category} value={category} size="sm">
+                    {category}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="image-dither"
+                checked={dither}
+                onCheckedChange={checked => setDither(checked === true)}
+              />
+              <Label htmlFor="image-dither">Дизеринг (Флойд — Стейнберг)</Label>
+            </div>
+
+            <div className="aspect-video bg-muted rounded flex items-center justify-center overflow-hidden">
+              {preview && <img src={preview} alt="Предпросмотр" className="max-w-full max-h-full pixel-canvas" />}
+            </div>
+
+            {palette.length === 0 && (
+              <p className="text-xs text-destructive">Выберите хотя бы одну категорию блоков</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            disabled={!grid || palette.length === 0}
+            onClick={() => grid && onImport(grid, fileName)}
+          >
+            Добавить слоем
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
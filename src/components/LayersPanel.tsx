@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { MAX_LAYERS, type Layer, type LayerProps } from '@/lib/layers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import Icon from '@/components/ui/icon';
+
+interface LayersPanelProps {
+  layers: Layer[];
+  activeLayerId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onMove: (direction: 'up' | 'down') => void;
+  onMergeDown: () => void;
+  onChange: (id: string, changes: Partial<LayerProps>, label: string) => void;
+  onOpacityChange: (opacity: number) => void;
+  onOpacityCommit: () => void;
+}
+
+export default function LayersPanel({
+  layers,
+  activeLayerId,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onDelete,
+  onMove,
+  onMergeDown,
+  onChange,
+  onOpacityChange,
+  onOpacityCommit,
+}: LayersPanelProps) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+
+  const activeIndex = layers.findIndex(layer => layer.id === activeLayerId);
+  const activeLayer = layers[activeIndex];
+
+  const startRename = (layer: Layer) => {
+    setName(layer.name);
+    setRenamingId(layer.id);
+  };
+
+  const submitRename = () => {
+    const trimmed = name.trim();
+    const layer = layers.find(l => l.id === renamingId);
+    if (layer && trimmed && trimmed !== layer.name) {
+      onChange(layer.id, { name: trimmed }, 'Переименование слоя');
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <p className="text-xs font-medium text-muted-foreground flex-1">Слои</p>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Новый слой"
+          disabled={layers.length >= MAX_LAYERS}
+          onClick={onAdd}
+        >
+          <Icon name="Plus" size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Дублировать слой"
+          disabled={layers.length >= MAX_LAYERS}
+          onClick={onDuplicate}
+        >
+          <Icon name="CopyPlus" size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Выше"
+          disabled={activeIndex === layers.length - 1}
+          onClick={() => onMove('up')}
+        >
+          <Icon name="ArrowUp" size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Ниже"
+          disabled={activeIndex === 0}
+          onClick={() => onMove('down')}
+        >
+          <Icon name="ArrowDown" size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Объединить с нижним"
+          disabled={activeIndex === 0}
+          onClick={onMergeDown}
+        >
+          <Icon name="Merge" size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Удалить слой"
+          disabled={layers.length <= 1}
+          onClick={onDelete}
+        >
+          <Icon name="Trash2" size={14} />
+        </Button>
+      </div>
+
+      <div className="space-y-1 max-h-40 overflow-y-auto">
+        {[...layers].reverse().map(layer => (
+          <div
+            key={layer.id}
+            className={`flex items-center gap-1 rounded border px-1 py-0.5 cursor-pointer ${
+              layer.id === activeLayerId ? 'border-primary bg-primary/10' : 'border-border'
+            }`}
+            onClick={() => onSelect(layer.id)}
+          >
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              title={layer.visible ? 'Скрыть' : 'Показать'}
+              onClick={e => {
+                e.stopPropagation();
+                onChange(layer.id, { visible: !layer.visible }, 'Видимость слоя');
+              }}
+            >
+              <Icon name={layer.visible ? 'Eye' : 'EyeOff'} size={14} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              title={layer.locked ? 'Разблокировать' : 'Заблокировать'}
+              onClick={e => {
+                e.stopPropagation();
+                onChange(layer.id, { locked: !layer.locked }, 'Блокировка слоя');
+              }}
+            >
+              <Icon name={layer.locked ? 'Lock' : 'LockOpen'} size={14} />
+            </Button>
+            {renamingId === layer.id ? (
+              <Input
+                autoFocus
+                value={name}
+                className="h-6 px-1 text-sm"
+                onChange={e => setName(e.target.value)}
+                onBlur={submitRename}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') submitRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+              />
+            ) : (
+              <span
+                className={`text-sm truncate flex-1 ${layer.visible ? '' : 'text-muted-foreground'}`}
+                title="Двойной клик — переименовать"
+                onDoubleClick={() => startRename(layer)}
+              >
+                {layer.name}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {activeLayer && (
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">
+            Непрозрачность: {Math.round(activeLayer.opacity * 100)}%
+          </Label>
+          <Slider
+            min={0}
+            max={100}
+            step={5}
+            value={[Math.round(activeLayer.opacity * 100)]}
+            onValueChange={([value]) => onOpacityChange(value / 100)}
+            onValueCommit={onOpacityCommit}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useMemo, useState } from 'react';
+import type { Cell } from '@/lib/grid';
+import type { Selection } from '@/lib/selection';
+import type { BlockTextures } from '@/lib/textures';
+import {
+  countMaterials,
+  formatStacks,
+  getShulkerBoxCount,
+  getSlotCount,
+  sortMaterials,
+  STACK_SIZE,
+  type Material,
+  type MaterialSortKey,
+} from '@/core/materials';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import Icon from '@/components/ui/icon';
+
+export type MaterialsExportFormat = 'csv' | 'text';
+
+interface MaterialsPanelProps {
+  grid: Cell[][];
+  // Only the selected blocks are counted while there is a selection.
+  selection: Selection | null;
+  textures: BlockTextures;
+  onExport: (format: MaterialsExportFormat, materials: Material[]) => void;
+  onClose: () => void;
+}
+
+export default function MaterialsPanel({ grid, selection, textures, onExport, onClose }: MaterialsPanelProps) {
+  const [sortKey, setSortKey] = useState<MaterialSortKey>('count');
+  const [direction, setDirection] = useState<'asc' | 'desc'>('desc');
+
+  const materials = useMemo(
+    () => sortMaterials(countMaterials(grid, selection), sortKey, direction),
+    [grid, selection, sortKey, direction]
+  );
+  const total = materials.reduce((sum, material) => sum + material.count, 0);
+  const slots = getSlotCount(materials);
+
+  const sortBy = (key: MaterialSortKey) => {
+    if (key === sortKey) {
+      setDirection(direction === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setDirection(key === 'count' ? 'desc' : 'asc');
+    }
+  };
+
+  const sortIcon = (key: MaterialSortKey) =>
+    key !== sortKey ? 'ArrowUpDown' : direction === 'asc' ? 'ArrowUp' : 'ArrowDown';
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b border-border flex items-center gap-1">
+        <div className="flex-1">
+          <p className="text-sm font-medium">Материалы</p>
+          <p className="text-xs text-muted-foreground">{selection ? 'Выделение' : 'Вся постройка'}</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Скачать CSV"
+          disabled={!total}
+          onClick={() => onExport('csv', materials)}
+        >
+          <Icon name="FileSpreadsheet" size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Скачать список"
+          disabled={!total}
+          onClick={() => onExport('text', materials)}
+        >
+          <Icon name="FileText" size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Закрыть"
+          onClick={onClose}
+        >
+          <Icon name="X" size={14} />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {materials.length === 0 ? (
+          <p className="p-3 text-sm text-muted-foreground">Блоков нет</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>
+                  <button className="flex items-center gap-1" onClick={() => sortBy('name')}>
+                    Блок <Icon name={sortIcon('name')} size={12} />
+                  </button>
+                </TableHead>
+                <TableHead className="text-right">
+                  <button className="flex items-center gap-1 ml-auto" onClick={() => sortBy('count')}>
+                    Кол-во <Icon name={sortIcon('count')} size={12} />
+                  </button>
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {materials.map(material => {
+                const texture = textures.get(material.blockId);
+                return (
+                  <TableRow key={material.blockId}>
+                    <TableCell className="py-1.5">
+                      <div className="flex items-center gap-2">
+                        {texture ? (
+                          <img src={texture.src} alt="" className="w-5 h-5 pixel-canvas shrink-0" />
+                        ) : (
+                          <div className="w-5 h-5 rounded-sm border border-border shrink-0" />
+                        )}
+                        <span className="truncate" title={material.blockId}>{material.name}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="py-1.5 text-right whitespace-nowrap">
+                      <div>{material.count}</div>
+                      {material.count >= STACK_SIZE && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatStacks(material.count)} · {getShulkerBoxCount(Math.ceil(material.count / STACK_SIZE))} шалк.
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div className="p-3 border-t border-border text-xs text-muted-foreground space-y-0.5">
+        <p>Всего блоков: {total}</p>
+        <p>Ячеек инвентаря: {slots}, шалкеров: {getShulkerBoxCount(slots)}</p>
+      </div>
+    </div>
+  );
+}
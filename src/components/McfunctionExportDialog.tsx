@@ -0,0 +1,114 @@
+import { useMemo, useState } from 'react';
+import type { Cell } from '@/lib/grid';
+import { generateMcfunction, type McfunctionOptions } from '@/lib/mcfunction';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import Icon from '@/components/ui/icon';
+
+// Default value of the maxCommandChainLength game rule.
+const MAX_COMMAND_CHAIN_LENGTH = 65536;
+
+interface McfunctionExportDialogProps {
+  open: boolean;
+  // Null while the dialog is closed.
+  grid: Cell[][] | null;
+  onOpenChange: (open: boolean) => void;
+  onExport: (options: McfunctionOptions, asDatapack: boolean) => void;
+}
+
+export default function McfunctionExportDialog({ open, grid, onOpenChange, onExport }: McfunctionExportDialogProps) {
+  const [origin, setOrigin] = useState<McfunctionOptions['origin']>('relative');
+  const [coords, setCoords] = useState({ x: '0', y: '64', z: '0' });
+  const [includeAir, setIncludeAir] = useState(false);
+
+  const options: McfunctionOptions = {
+    origin,
+    x: Math.trunc(Number(coords.x)) || 0,
+    y: Math.trunc(Number(coords.y)) || 0,
+    z: Math.trunc(Number(coords.z)) || 0,
+    includeAir,
+  };
+
+  const commandCount = useMemo(
+    () => (open && grid ? generateMcfunction(grid, { origin: 'relative', x: 0, y: 0, z: 0, includeAir }).commandCount : 0),
+    [open, grid, includeAir]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Экспорт команд (.mcfunction)</DialogTitle>
+          <DialogDescription>
+            Одинаковые блоки объединяются в команды /fill, одиночные ставятся через /setblock
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={origin} onValueChange={value => setOrigin(value as McfunctionOptions['origin'])}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="relative" id="origin-relative" />
+              <Label htmlFor="origin-relative">Относительно игрока (~ ~ ~)</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="absolute" id="origin-absolute" />
+              <Label htmlFor="origin-absolute">Абсолютные координаты</Label>
+            </div>
+          </RadioGroup>
+
+          {origin === 'absolute' && (
+            <div className="grid grid-cols-3 gap-2">
+              {(['x', 'y', 'z'] as const).map(axis => (
+                <div key={axis} className="space-y-1">
+                  <Label htmlFor={`origin-${axis}`}>{axis.toUpperCase()}</Label>
+                  <Input
+                    id={`origin-${axis}`}
+                    type="number"
+                    value={coords[axis]}
+                    onChange={e => setCoords(prev => ({ ...prev, [axis]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="include-air"
+              checked={includeAir}
+              onCheckedChange={checked => setIncludeAir(checked === true)}
+            />
+            <Label htmlFor="include-air">Заполнять пустые клетки воздухом</Label>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            Команд: {commandCount}
+            {commandCount > MAX_COMMAND_CHAIN_LENGTH && ' — больше лимита maxCommandChainLength, увеличьте его перед запуском'}
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onExport(options, false)}>
+            <Icon name="FileCode" size={16} />
+            <span className="ml-2">.mcfunction</span>
+          </Button>
+          <Button onClick={() => onExport(options, true)}>
+            <Icon name="Package" size={16} />
+            <span className="ml-2">Датапак (.zip)</span>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
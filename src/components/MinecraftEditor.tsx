@@ -1,53 +1,364 @@
-import { useState, useRef, useEffect } from 'react';
-import { minecraftBlocks, blockCategories, type MinecraftBlock } from '@/data/minecraftBlocks';
-import { blockTextureUrls } from '@/data/minecraftBlockTextures';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { minecraftBlocks, type MinecraftBlock } from '@/data/minecraftBlocks';
 import { Button } from '@/components/ui/button';
-import { ScrollArea } from '@/components/ui/scroll-area';
-import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Card } from '@/components/ui/card';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import Icon from '@/components/ui/icon';
 import { toast } from 'sonner';
 import { useMediaQuery } from '@/hooks/use-media-query';
+import { useGridHistory } from '@/hooks/use-grid-history';
+import { useCanvasRenderer } from '@/hooks/use-canvas-renderer';
+import { useProjectLibrary } from '@/hooks/use-project-library';
+import { useResourcePacks } from '@/hooks/use-resource-packs';
+import { useHotbar } from '@/hooks/use-hotbar';
+import { useUsedBlocks } from '@/hooks/use-used-blocks';
+import { useBlockTextures } from '@/hooks/use-block-textures';
+import { useAutosave } from '@/hooks/use-autosave';
+import {
+  createEmptyGrid,
+  cropGrid,
+  getContentBounds,
+  getGridSize,
+  resizeGrid,
+  type Anchor,
+  type Cell,
+  type Point,
+} from '@/lib/grid';
+import {
+  addLayer,
+  createSingleLayer,
+  deleteLayer,
+  deserializeLayers,
+  duplicateLayer,
+  flattenLayers,
+  getLayersContentBounds,
+  getVisibleCell,
+  mapLayerGrids,
+  mergeLayerDown,
+  moveLayer,
+  updateLayer,
+  MAX_LAYERS,
+} from '@/lib/layers';
+import { createCell, flipState, getBlock, rotateState, type BlockStates } from '@/lib/blockState';
+import type { Project } from '@/lib/storage';
+import { hasAnimatedTextures } from '@/lib/textures';
+import { ResourcePackError, type ResourcePack } from '@/lib/resourcePack';
+import { renderThumbnail } from '@/lib/thumbnail';
+import { canvasToBlob, drawEditorOverlay, renderAnimation, renderGrid } from '@/lib/render';
+import { TICK_DURATION } from '@/lib/animation';
+import { toolCommands, toolLabels } from '@/lib/tools';
+import { generateTemplates } from '@/core/templates';
+import { floodFillSymmetric, paintSymmetricBrushLine } from '@/core/tools';
+import {
+  fitToViewport,
+  getCellAt,
+  getPinchView,
+  zoomAt,
+  type ViewTransform,
+} from '@/core/viewport';
+import { materialsToCsv, materialsToText, type Material } from '@/core/materials';
+import {
+  dragSymmetryCenter,
+  getGridCenter,
+  getSymmetricPoints,
+  getSymmetryHandleAt,
+  getSymmetryTransforms,
+  type Symmetry,
+  type SymmetryHandle,
+} from '@/core/symmetry';
+import { createMixPicker, type Brush } from '@/core/brush';
+import { createSeed } from '@/core/random';
+import { getReplaceClick, getReplaceMask, replaceInArea, type ReplaceArea } from '@/core/replace';
+import { cycleHotbar, getHotbarSlotForKey } from '@/core/hotbar';
+import { isInBounds } from '@/core/grid';
+import {
+  finishSelectionDraft,
+  getPasteTarget,
+  startSelectionDraft,
+  updateMoveDrag,
+  updateSelectionDraft,
+  type MoveDrag,
+} from '@/core/selection';
+import { clickShape, drawShape, getPlacedVertices, moveShapeEnd, type ShapeDraft } from '@/core/shapes';
+import { getPointerAction, isShapeTool, touchPress, type PointerAction, type Tool } from '@/core/pointer';
+import {
+  clearSelection,
+  createWandSelection,
+  extractSelection,
+  isSelected,
+  moveSelection,
+  pasteCells,
+  selectAll,
+  selectionFromCells,
+  translateSelection,
+  type Selection,
+  type SelectionDraft,
+  type SelectionMode,
+} from '@/lib/selection';
+import { getShapePoints, type ShapeKind, type ShapeOptions } from '@/lib/shapes';
+import { downloadBlob, toFileName } from '@/lib/download';
+import {
+  createProjectFile,
+  parseProjectFile,
+  serializeProjectFile,
+  ProjectFileError,
+  PROJECT_FILE_EXTENSION,
+} from '@/lib/projectFile';
+import { exportSpongeSchematic, exportStructureNbt } from '@/lib/structureExport';
+import {
+  createDatapack,
+  generateMcfunction,
+  toFunctionName,
+  DATAPACK_NAMESPACE,
+  type McfunctionOptions,
+} from '@/lib/mcfunction';
+import ProjectLibrary from '@/components/ProjectLibrary';
+import CanvasSizeDialog from '@/components/CanvasSizeDialog';
+import SaveFileDialog from '@/components/SaveFileDialog';
+import StructureImportDialog from '@/components/StructureImportDialog';
+import ImageImportDialog from '@/components/ImageImportDialog';
+import McfunctionExportDialog from '@/components/McfunctionExportDialog';
+import PngExportDialog, { type PngExportOptions } from '@/components/PngExportDialog';
+import LayersPanel from '@/components/LayersPanel';
+import ResourcePackPicker from '@/components/ResourcePackPicker';
+import MaterialsPanel, { type MaterialsExportFormat } from '@/components/MaterialsPanel';
+import BrushOptions, { type BlockMix } from '@/components/BrushOptions';
+import ReplaceOptions, { type ReplaceSettings } from '@/components/ReplaceOptions';
+import Hotbar from '@/components/Hotbar';
+import CommandPalette, { type PaletteAction } from '@/components/CommandPalette';
+import ToolPicker from '@/components/ToolPicker';
+import ShapeToolOptions from '@/components/ShapeToolOptions';
+import SymmetryOptions from '@/components/SymmetryOptions';
+import SelectionOptions from '@/components/SelectionOptions';
+import BlockPalette from '@/components/BlockPalette';
+import FileMenu from '@/components/FileMenu';
+import ViewControls from '@/components/ViewControls';
+import TemplateGallery from '@/components/TemplateGallery';
+import EditorHelp from '@/components/EditorHelp';
 
-const CANVAS_WIDTH = 64;
-const CANVAS_HEIGHT = 48;
+const DEFAULT_CANVAS_WIDTH = 64;
+const DEFAULT_CANVAS_HEIGHT = 48;
 const CELL_SIZE = 16;
+const MARCHING_ANTS_INTERVAL = 100;
+// Space left around the build by "fit to screen", in pixels; it leaves room
+// for the symmetry grips outside the grid.
+const FIT_PADDING = 24;
 
-type Tool = 'brush' | 'eraser' | 'fill';
-
-interface Cell {
-  blockId: string;
-}
+type View = 'editor' | 'gallery' | 'projects';
 
 export default function MinecraftEditor() {
-  const [grid, setGrid] = useState<Cell[][]>(() =>
-    Array(CANVAS_HEIGHT).fill(null).map(() =>
-      Array(CANVAS_WIDTH).fill(null).map(() => ({ blockId: 'air' }))
-    )
-  );
+  const {
+    layers,
+    activeLayer,
+    grid,
+    updateGrid,
+    updateLayers,
+    restoreLayers,
+    setActiveLayerId,
+    beginStroke,
+    endStroke,
+    cancelStroke,
+    undo,
+    redo,
+    undoLabel,
+    redoLabel,
+  } = useGridHistory(() => createSingleLayer(createEmptyGrid(DEFAULT_CANVAS_WIDTH, DEFAULT_CANVAS_HEIGHT)));
+  const { width: canvasWidth, height: canvasHeight } = getGridSize(grid);
   const [selectedBlock, setSelectedBlock] = useState<MinecraftBlock>(minecraftBlocks[7]);
+  // Kept across block changes, so stairs and doors picked one after another
+  // face the same way; properties a block does not declare are ignored.
+  const [blockState, setBlockState] = useState<BlockStates>({});
   const [tool, setTool] = useState<Tool>('brush');
   const [isDrawing, setIsDrawing] = useState(false);
   const [zoom, setZoom] = useState(1);
   const [showGrid, setShowGrid] = useState(true);
-  const [activeTab, setActiveTab] = useState('editor');
+  const [activeTab, setActiveTab] = useState<View>('editor');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [panOffset, setPanOffset] = useState({ x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
+  // Space turns any tool into the hand while it is held.
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [canvasDialog, setCanvasDialog] = useState<'new' | 'resize' | null>(null);
+  const [isSaveFileOpen, setIsSaveFileOpen] = useState(false);
+  const [isStructureImportOpen, setIsStructureImportOpen] = useState(false);
+  const [isImageImportOpen, setIsImageImportOpen] = useState(false);
+  const [isMaterialsOpen, setIsMaterialsOpen] = useState(false);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false);
+  const [symmetry, setSymmetry] = useState<Symmetry>(() => ({
+    mode: 'none',
+    center: getGridCenter(DEFAULT_CANVAS_WIDTH, DEFAULT_CANVAS_HEIGHT),
+    folds: 4,
+  }));
+  const [brush, setBrush] = useState<Brush>({ size: 1, shape: 'square' });
+  const [blockMix, setBlockMix] = useState<BlockMix>(() => ({ enabled: false, entries: [], seed: createSeed() }));
+  const [replaceSettings, setReplaceSettings] = useState<ReplaceSettings>({ sourceId: null, scope: 'all' });
+  // The symmetry grip being dragged.
+  const [symmetryDrag, setSymmetryDrag] = useState<SymmetryHandle | null>(null);
+  const [isMcfunctionOpen, setIsMcfunctionOpen] = useState(false);
+  const [isPngExportOpen, setIsPngExportOpen] = useState(false);
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('rect');
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [selectionDraft, setSelectionDraft] = useState<SelectionDraft | null>(null);
+  const [moveDrag, setMoveDrag] = useState<MoveDrag | null>(null);
+  const [shapeOptions, setShapeOptions] = useState<ShapeOptions>({ filled: false, thickness: 1 });
+  const [shapeDraft, setShapeDraft] = useState<ShapeDraft | null>(null);
+  const [isAnimationPaused, setIsAnimationPaused] = useState(false);
+  // Game ticks on the clock shared by all animated textures.
+  const animationTickRef = useRef(0);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const floatingRef = useRef<HTMLCanvasElement | null>(null);
+  const hoverCellRef = useRef<Point | null>(null);
+  const lastPaintedRef = useRef<Point | null>(null);
+  // The view and finger positions when a two-finger gesture started; it
+  // stays set until every finger is lifted, so nothing is drawn in between.
+  const pinchRef = useRef<{ view: ViewTransform; touches: [Point, Point] } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const textureCache = useRef<Map<string, HTMLImageElement>>(new Map());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const keyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
   const isMobile = useMediaQuery('(max-width: 768px)');
+  const {
+    projects,
+    createProject,
+    updateProject,
+    renameProject,
+    duplicateProject,
+    removeProject,
+  } = useProjectLibrary();
+  const currentProject = projects.find(p => p.id === currentProjectId) ?? null;
+  const { packs, activePack, importPack, removePack, setActivePackId } = useResourcePacks();
+  const textureSet = useBlockTextures(activePack);
+  const { hotbar, recent, selectSlot, setSlot, swapSlots, addRecent } = useHotbar();
+  // A selection made before the canvas was resized no longer matches the grid.
+  const activeSelection =
+    selection && selection.width === canvasWidth && selection.height === canvasHeight ? selection : null;
+  const canvasSize = { width: canvasWidth, height: canvasHeight };
+  // The visible layers stacked into one grid, as exports see them. Stacking
+  // visits every cell, so it is only kept up to date while the materials or
+  // an export dialog show it; one-off exports and saves stack the layers
+  // themselves.
+  const isCompositeShown = isPngExportOpen || isMcfunctionOpen || (activeTab === 'editor' && isMaterialsOpen);
+  const composite = useMemo(() => (isCompositeShown ? flattenLayers(layers) : null), [isCompositeShown, layers]);
+  const usedBlocks = useUsedBlocks(layers);
+
+  const textures = textureSet.textures;
+  const hasAnimatedBlocks = useMemo(
+    () => hasAnimatedTextures(textureSet.animations, usedBlocks),
+    [textureSet, usedBlocks]
+  );
+
+  // What the brush, fill and shape tools place.
+  const paintCell = useMemo(() => createCell(selectedBlock.id, blockState), [selectedBlock, blockState]);
+
+  // Null when the brush paints the selected block.
+  const pickMixCell = useMemo(
+    () => (blockMix.enabled
+      ? createMixPicker(
+        blockMix.entries.map(entry => ({ cell: createCell(entry.blockId, blockState), weight: entry.weight })),
+        blockMix.seed
+      )
+      : null),
+    [blockMix, blockState]
+  );
+
+  // Brush, eraser, fill and shapes paint every copy of what is drawn.
+  const symmetryTransforms = useMemo(() => getSymmetryTransforms(symmetry), [symmetry]);
+
+  const shapePreview = useMemo(
+    () => (shapeDraft && isShapeTool(tool)
+      ? { points: getSymmetricPoints(symmetryTransforms, getShapePoints(tool, shapeDraft, shapeOptions)), cell: paintCell }
+      : null),
+    [shapeDraft, tool, shapeOptions, paintCell, symmetryTransforms]
+  );
 
+  const { redrawAnimated } = useCanvasRenderer(canvasRef, containerRef, {
+    layers,
+    cellSize: CELL_SIZE * zoom,
+    pan: panOffset,
+    showGrid,
+    textureSet,
+    animationTick: animationTickRef,
+    enabled: activeTab === 'editor',
+  });
+
+  // Advances the animation clock while animated blocks are shown; after a
+  // pause it continues where it stopped.
   useEffect(() => {
-    preloadTextures();
-  }, []);
+    if (isAnimationPaused || !hasAnimatedBlocks || activeTab !== 'editor') return;
+    const start = performance.now() - animationTickRef.current * TICK_DURATION;
+    let frame = requestAnimationFrame(function step(now) {
+      const tick = Math.floor((now - start) / TICK_DURATION);
+      if (tick !== animationTickRef.current) {
+        animationTickRef.current = tick;
+        redrawAnimated();
+      }
+      frame = requestAnimationFrame(step);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isAnimationPaused, hasAnimatedBlocks, activeTab, redrawAnimated]);
+
+  useEffect(() => {
+    const canvas = overlayCanvasRef.current;
+    const container = containerRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !container || !ctx) return;
+
+    if (canvas.width !== container.clientWidth || canvas.height !== container.clientHeight) {
+      canvas.width = container.clientWidth;
+      canvas.height = container.clientHeight;
+    }
+
+    const overlay = {
+      cellSize: CELL_SIZE * zoom,
+      pan: panOffset,
+      selection: activeSelection,
+      draft: selectionDraft,
+      moveOffset: moveDrag?.offset ?? null,
+      floating: floatingRef.current,
+      preview: shapePreview,
+      textures: textures,
+      symmetry: symmetry.mode === 'none' ? null : { symmetry, width: canvasWidth, height: canvasHeight },
+    };
+    let antsOffset = 0;
+    drawEditorOverlay(ctx, overlay, antsOffset);
+    if (!activeSelection && !selectionDraft) return;
+
+    const interval = setInterval(() => {
+      antsOffset = (antsOffset + 1) % 8;
+      drawEditorOverlay(ctx, overlay, antsOffset);
+    }, MARCHING_ANTS_INTERVAL);
+    return () => clearInterval(interval);
+  }, [
+    activeSelection,
+    selectionDraft,
+    moveDrag,
+    shapePreview,
+    zoom,
+    panOffset,
+    activeTab,
+    textures,
+    symmetry,
+    canvasWidth,
+    canvasHeight,
+  ]);
 
   useEffect(() => {
-    drawCanvas();
-  }, [grid, zoom, showGrid, panOffset]);
+    setShapeDraft(null);
+  }, [tool]);
+
+  // A new or resized canvas puts the symmetry center back in the middle.
+  useEffect(() => {
+    setSymmetry(prev => ({ ...prev, center: getGridCenter(canvasWidth, canvasHeight) }));
+  }, [canvasWidth, canvasHeight]);
+
+  useAutosave({
+    layers,
+    projectId: currentProjectId,
+    restoreLayers,
+    createProject,
+    onRestoreProject: setCurrentProjectId,
+  });
 
   useEffect(() => {
     if (isMobile) {
@@ -55,169 +366,504 @@ export default function MinecraftEditor() {
     }
   }, [isMobile]);
 
-  const preloadTextures = () => {
-    Object.entries(blockTextureUrls).forEach(([blockId, url]) => {
-      if (url && !textureCache.current.has(blockId)) {
-        const img = new Image();
-        img.crossOrigin = 'anonymous';
-        img.src = url;
-        img.onload = () => {
-          textureCache.current.set(blockId, img);
-          drawCanvas();
-        };
-      }
-    });
-  };
-
-  const drawCanvas = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  useEffect(() => {
+    if (selectedBlock.id !== 'air') addRecent(selectedBlock.id);
+  }, [selectedBlock, addRecent]);
 
-    const container = containerRef.current;
-    if (!container) return;
+  // The listener is added once and always calls the handler of the latest
+  // render, which sees the current tool, selection and block.
+  useEffect(() => {
+    keyDownRef.current = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target)) return;
 
-    canvas.width = container.clientWidth;
-    canvas.height = container.clientHeight;
-
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    ctx.save();
-    ctx.translate(panOffset.x, panOffset.y);
-
-    for (let y = 0; y < CANVAS_HEIGHT; y++) {
-      for (let x = 0; x < CANVAS_WIDTH; x++) {
-        const cell = grid[y][x];
-        const block = minecraftBlocks.find(b => b.id === cell.blockId);
-        
-        if (block && block.color !== 'transparent') {
-          const texture = textureCache.current.get(cell.blockId);
-          if (texture && texture.complete) {
-            ctx.imageSmoothingEnabled = false;
-            ctx.drawImage(
-              texture,
-              x * CELL_SIZE * zoom,
-              y * CELL_SIZE * zoom,
-              CELL_SIZE * zoom,
-              CELL_SIZE * zoom
-            );
-          } else {
-            ctx.fillStyle = block.color;
-            ctx.fillRect(
-              x * CELL_SIZE * zoom,
-              y * CELL_SIZE * zoom,
-              CELL_SIZE * zoom,
-              CELL_SIZE * zoom
-            );
-          }
+      // Space on a focused control activates it rather than the hand.
+      if (e.code === 'Space' && activeTab === 'editor' && !isInteractiveTarget(e.target)) {
+        e.preventDefault();
+        setIsSpaceHeld(true);
+        return;
+      }
+      if (shapeDraft && tool === 'polygon' && e.key === 'Enter') {
+        e.preventDefault();
+        commitShape(tool, getPlacedVertices(shapeDraft));
+        return;
+      }
+      if (e.key === 'Escape' && shapeDraft) {
+        setShapeDraft(null);
+        return;
+      }
+      if (e.key === 'Escape' && activeSelection) {
+        setSelection(null);
+        return;
+      }
+      if ((e.key === 'Delete' || e.key === 'Backspace') && activeSelection) {
+        e.preventDefault();
+        deleteSelection();
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) {
+        // Physical keys, so the hotkeys also work with the Russian layout.
+        if (e.altKey || activeTab !== 'editor') return;
+        const slot = getHotbarSlotForKey(e.code);
+        if (slot !== null) {
+          chooseHotbarSlot(slot);
+          return;
         }
+        if (!selectedBlock.states) return;
+        if (e.code === 'KeyR') rotateBlockState();
+        if (e.code === 'KeyF') flipBlockState();
+        return;
       }
-    }
 
-    if (showGrid) {
-      ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
-      ctx.lineWidth = 1;
-      for (let x = 0; x <= CANVAS_WIDTH; x++) {
-        ctx.beginPath();
-        ctx.moveTo(x * CELL_SIZE * zoom, 0);
-        ctx.lineTo(x * CELL_SIZE * zoom, CANVAS_HEIGHT * CELL_SIZE * zoom);
-        ctx.stroke();
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if (key === 'a' && activeTab === 'editor') {
+        e.preventDefault();
+        setSelection(selectAll(canvasWidth, canvasHeight));
+        setTool('select');
+      } else if (e.code === 'KeyK') {
+        e.preventDefault();
+        setIsCommandPaletteOpen(true);
       }
-      for (let y = 0; y <= CANVAS_HEIGHT; y++) {
-        ctx.beginPath();
-        ctx.moveTo(0, y * CELL_SIZE * zoom);
-        ctx.lineTo(CANVAS_WIDTH * CELL_SIZE * zoom, y * CELL_SIZE * zoom);
-        ctx.stroke();
+    };
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => keyDownRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!isSpaceHeld) return;
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    // The key-up is lost when the window loses focus with Space held.
+    const handleBlur = () => setIsSpaceHeld(false);
+
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [isSpaceHeld]);
+
+  // Blocks travel through the system clipboard as a project file, so they
+  // can be pasted into another tab or kept as a .mc2d.json file.
+  useEffect(() => {
+    const hasTextSelection = () => document.getSelection()?.isCollapsed === false;
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || hasTextSelection() || !activeSelection) return;
+      e.preventDefault();
+      e.clipboardData?.setData('text/plain', getSelectionText(activeSelection));
+      if (e.type === 'cut' && checkActiveLayerEditable()) {
+        updateGrid(prev => clearSelection(prev, activeSelection), 'Вырезание');
       }
-    }
-    
-    ctx.restore();
-  };
+    };
 
-  const getCanvasCoordinates = (clientX: number, clientY: number) => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditableTarget(e.target) || activeTab !== 'editor') return;
+      const text = e.clipboardData?.getData('text/plain');
+      if (text && pasteBlocks(text)) e.preventDefault();
+    };
+
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('cut', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('cut', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  });
+
+  // A point in pixels from the top left corner of the canvas.
+  const getCanvasPoint = (clientX: number, clientY: number): Point | null => {
     const canvas = canvasRef.current;
     if (!canvas) return null;
 
     const rect = canvas.getBoundingClientRect();
-    const x = Math.floor((clientX - rect.left - panOffset.x) / (CELL_SIZE * zoom));
-    const y = Math.floor((clientY - rect.top - panOffset.y) / (CELL_SIZE * zoom));
-    return { x, y };
+    return { x: clientX - rect.left, y: clientY - rect.top };
   };
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    let clientX: number, clientY: number;
+  const getCanvasCoordinates = (clientX: number, clientY: number) => {
+    const point = getCanvasPoint(clientX, clientY);
+    return point && getCellAt(point, panOffset, CELL_SIZE * zoom);
+  };
+
+  const setView = (view: ViewTransform) => {
+    setZoom(view.zoom);
+    setPanOffset(view.pan);
+  };
+
+  // Zooms around the center of the canvas, as the sidebar buttons do.
+  const zoomToCenter = (value: number) => {
+    const container = containerRef.current;
+    const center = container
+      ? { x: container.clientWidth / 2, y: container.clientHeight / 2 }
+      : { x: 0, y: 0 };
+    setView(zoomAt({ zoom, pan: panOffset }, value, center));
+  };
+
+  // Fits the blocks of all layers into the canvas, or the whole grid when
+  // there are none.
+  const fitToScreen = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    const bounds = getLayersContentBounds(layers) ?? { x: 0, y: 0, width: canvasWidth, height: canvasHeight };
+    const size = { width: container.clientWidth, height: container.clientHeight };
+    setView(fitToViewport(bounds, size, CELL_SIZE, FIT_PADDING));
+  };
 
+  const getEventCell = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
     if ('touches' in e) {
-      if (e.touches.length === 0) return;
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
-    } else {
-      clientX = e.clientX;
-      clientY = e.clientY;
+      if (e.touches.length === 0) return null;
+      return getCanvasCoordinates(e.touches[0].clientX, e.touches[0].clientY);
     }
+    return getCanvasCoordinates(e.clientX, e.clientY);
+  };
 
-    const coords = getCanvasCoordinates(clientX, clientY);
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    const coords = getEventCell(e);
     if (!coords) return;
-    const { x, y } = coords;
 
-    if (x < 0 || x >= CANVAS_WIDTH || y < 0 || y >= CANVAS_HEIGHT) return;
+    if (tool === 'brush' || tool === 'eraser') {
+      paintLine(lastPaintedRef.current ?? coords, coords);
+      lastPaintedRef.current = coords;
+      return;
+    }
+
+    if (isInBounds(canvasSize, coords)) floodFill(coords.x, coords.y);
+  };
 
-    if (tool === 'fill') {
-      floodFill(x, y);
-    } else {
-      paintCell(x, y);
+  // Pointer events arrive far apart when the pointer moves fast, so the brush
+  // paints the whole line from the previously painted cell.
+  const paintLine = (from: Point, to: Point) => {
+    const air = createCell('air');
+    const pick = tool === 'eraser' ? () => air : pickMixCell ?? (() => paintCell);
+    updateGrid(prev => paintSymmetricBrushLine(prev, from, to, brush, pick, symmetryTransforms), toolLabels[tool]);
+  };
+
+  const floodFill = (startX: number, startY: number) => {
+    const replacement = tool === 'eraser' ? createCell('air') : paintCell;
+    updateGrid(
+      prev => floodFillSymmetric(prev, { x: startX, y: startY }, replacement, symmetryTransforms),
+      toolLabels.fill
+    );
+  };
+
+  // Switching to a slot selects its block; an empty slot keeps the block.
+  const chooseHotbarSlot = (index: number) => {
+    selectSlot(index);
+    const blockId = hotbar.slots[index];
+    const block = blockId ? getBlock(blockId) : undefined;
+    if (block) setSelectedBlock(block);
+  };
+
+  // Takes the block as it is seen, from the topmost visible layer, together
+  // with its state. Empty cells are skipped, so a miss keeps the block.
+  const pickBlock = ({ x, y }: Point) => {
+    if (x < 0 || x >= canvasWidth || y < 0 || y >= canvasHeight) return;
+    const cell = getVisibleCell(layers, { x, y });
+    if (!cell) return;
+    const block = getBlock(cell.blockId);
+    if (!block) {
+      toast.error(`Блока ${cell.blockId} нет в палитре`);
+      return;
+    }
+    setSelectedBlock(block);
+    if (cell.state) setBlockState(prev => ({ ...prev, ...cell.state }));
+  };
+
+  const replaceArea = (sourceId: string, area: ReplaceArea) => {
+    if (!checkActiveLayerEditable()) return;
+    const { count } = getReplaceMask(grid, sourceId, area, paintCell);
+    if (count === 0) {
+      toast.error('Заменять нечего: эти блоки уже совпадают с выбранным');
+      return;
+    }
+    updateGrid(prev => replaceInArea(prev, sourceId, area, paintCell), toolLabels.replace);
+    toast.success(`Заменено блоков: ${count}`);
+  };
+
+  const replaceAt = (point: Point) => {
+    const click = getReplaceClick(grid, point, replaceSettings.scope);
+    if (!click) return;
+    setReplaceSettings(prev => ({ ...prev, sourceId: click.sourceId }));
+    if (click.area) replaceArea(click.sourceId, click.area);
+  };
+
+  // Explains why the active layer cannot be edited, if it cannot.
+  const checkActiveLayerEditable = () => {
+    if (activeLayer.locked) {
+      toast.error(`Слой «${activeLayer.name}» заблокирован`);
+      return false;
+    }
+    if (!activeLayer.visible) {
+      toast.error(`Слой «${activeLayer.name}» скрыт`);
+      return false;
+    }
+    return true;
+  };
+
+  const startSelection = (point: Point) => {
+    if (activeSelection && isSelected(activeSelection, point.x, point.y)) {
+      if (!checkActiveLayerEditable()) return;
+      floatingRef.current = renderGrid(extractSelection(grid, activeSelection), {
+        scale: CELL_SIZE,
+        textures: textures,
+      });
+      setMoveDrag({ start: point, offset: { x: 0, y: 0 } });
+      return;
+    }
+
+    if (selectionMode === 'wand') {
+      setSelection(isInBounds(canvasSize, point) ? createWandSelection(grid, point.x, point.y) : null);
+      return;
     }
+    setSelectionDraft(startSelectionDraft(selectionMode, canvasSize, point));
+  };
+
+  const updateSelection = (point: Point) => {
+    if (moveDrag) setMoveDrag(updateMoveDrag(moveDrag, point));
+    else if (selectionDraft) setSelectionDraft(updateSelectionDraft(selectionDraft, canvasSize, point));
   };
 
-  const paintCell = (x: number, y: number) => {
-    setGrid(prev => {
-      const newGrid = prev.map(row => [...row]);
-      if (tool === 'brush') {
-        newGrid[y][x] = { blockId: selectedBlock.id };
-      } else if (tool === 'eraser') {
-        newGrid[y][x] = { blockId: 'air' };
+  const finishSelection = () => {
+    if (moveDrag && activeSelection) {
+      const { x: dx, y: dy } = moveDrag.offset;
+      if (dx !== 0 || dy !== 0) {
+        updateGrid(prev => moveSelection(prev, activeSelection, dx, dy), 'Перемещение');
+        setSelection(translateSelection(activeSelection, dx, dy));
       }
-      return newGrid;
+    } else if (selectionDraft) {
+      setSelection(finishSelectionDraft(selectionDraft, canvasSize));
+    }
+    floatingRef.current = null;
+    setMoveDrag(null);
+    setSelectionDraft(null);
+  };
+
+  const getSelectionText = (sel: Selection) => {
+    const now = new Date().toISOString();
+    const file = createProjectFile(createSingleLayer(extractSelection(grid, sel)), {
+      name: 'Выделение',
+      createdAt: now,
+      modifiedAt: now,
     });
+    return serializeProjectFile(file);
   };
 
-  const floodFill = (startX: number, startY: number) => {
-    const targetBlockId = grid[startY][startX].blockId;
-    const replacementBlockId = tool === 'eraser' ? 'air' : selectedBlock.id;
+  const pasteBlocks = (text: string) => {
+    let cells: Cell[][];
+    try {
+      cells = flattenLayers(parseProjectFile(text).layers);
+    } catch (error) {
+      if (error instanceof ProjectFileError) return false;
+      throw error;
+    }
+    if (!checkActiveLayerEditable()) return true;
 
-    if (targetBlockId === replacementBlockId) return;
+    const view = { zoom, pan: panOffset };
+    const { x, y } = getPasteTarget(canvasSize, hoverCellRef.current, activeSelection, view, CELL_SIZE);
+    updateGrid(prev => pasteCells(prev, cells, x, y), 'Вставка');
+    setSelection(selectionFromCells(canvasWidth, canvasHeight, cells, x, y));
+    setTool('select');
+    return true;
+  };
 
-    const newGrid = grid.map(row => [...row]);
-    const stack: [number, number][] = [[startX, startY]];
+  const copySelection = async (cut: boolean) => {
+    if (!activeSelection) return;
+    try {
+      await navigator.clipboard.writeText(getSelectionText(activeSelection));
+    } catch {
+      toast.error('Нет доступа к буферу обмена — используйте Ctrl+C');
+      return;
+    }
+    if (cut && checkActiveLayerEditable()) {
+      updateGrid(prev => clearSelection(prev, activeSelection), 'Вырезание');
+    }
+    toast.success(cut ? 'Выделение вырезано' : 'Выделение скопировано');
+  };
+
+  const pasteFromClipboard = async () => {
+    let text: string;
+    try {
+      text = await navigator.clipboard.readText();
+    } catch {
+      toast.error('Нет доступа к буферу обмена — используйте Ctrl+V');
+      return;
+    }
+    if (!pasteBlocks(text)) {
+      toast.error('В буфере обмена нет блоков');
+    }
+  };
 
-    while (stack.length > 0) {
-      const [x, y] = stack.pop()!;
+  const deleteSelection = () => {
+    if (!activeSelection || !checkActiveLayerEditable()) return;
+    updateGrid(prev => clearSelection(prev, activeSelection), 'Удаление');
+  };
+
+  const startShape = (kind: ShapeKind, point: Point) => {
+    const click = clickShape(kind, shapeDraft, point);
+    if ('vertices' in click) commitShape(kind, click.vertices);
+    else setShapeDraft(click.draft);
+  };
 
-      if (x < 0 || x >= CANVAS_WIDTH || y < 0 || y >= CANVAS_HEIGHT) continue;
-      if (newGrid[y][x].blockId !== targetBlockId) continue;
+  const updateShape = (kind: ShapeKind, point: Point, constrain: boolean) => {
+    if (shapeDraft) setShapeDraft(moveShapeEnd(kind, shapeDraft, point, constrain));
+  };
 
-      newGrid[y][x] = { blockId: replacementBlockId };
+  const commitShape = (kind: ShapeKind, points: Point[]) => {
+    updateGrid(prev => drawShape(prev, kind, points, shapeOptions, symmetryTransforms, paintCell), toolLabels[kind]);
+    setShapeDraft(null);
+  };
 
-      stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+  const rotateBlockState = () => {
+    setBlockState(prev => ({ ...prev, ...rotateState(selectedBlock.id, prev) }));
+  };
+
+  const flipBlockState = () => {
+    setBlockState(prev => ({ ...prev, ...flipState(selectedBlock.id, prev) }));
+  };
+
+  const handleImportResourcePack = async (file: File) => {
+    try {
+      const pack = await importPack(file);
+      toast.success(`Ресурспак «${pack.name}» добавлен: ${Object.keys(pack.textures).length} текстур блоков`);
+    } catch (error) {
+      toast.error(error instanceof ResourcePackError ? error.message : 'Не удалось импортировать ресурспак');
     }
+  };
 
-    setGrid(newGrid);
+  const handleRemoveResourcePack = async (pack: ResourcePack) => {
+    try {
+      await removePack(pack);
+      toast.success(`Ресурспак «${pack.name}» удалён`);
+    } catch {
+      toast.error('Не удалось удалить ресурспак');
+    }
   };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (e.button === 1 || e.shiftKey || tool === 'pan') {
-      setIsPanning(true);
-      setPanStart({ x: e.clientX - panOffset.x, y: e.clientY - panOffset.y });
-      e.preventDefault();
-    } else {
-      setIsDrawing(true);
+  const handleUndo = () => {
+    if (!undoLabel) return;
+    undo();
+    toast(`Отменено: ${undoLabel}`);
+  };
+
+  const handleRedo = () => {
+    if (!redoLabel) return;
+    redo();
+    toast(`Повторено: ${redoLabel}`);
+  };
+
+  // The symmetry grip under the pointer, in pixels relative to the grid.
+  const getSymmetryHandle = (clientX: number, clientY: number) => {
+    const point = getCanvasPoint(clientX, clientY);
+    if (!point) return null;
+    const gridPoint = { x: point.x - panOffset.x, y: point.y - panOffset.y };
+    return getSymmetryHandleAt(symmetry, gridPoint, canvasWidth, canvasHeight, CELL_SIZE * zoom);
+  };
+
+  const dragSymmetry = (handle: SymmetryHandle, clientX: number, clientY: number) => {
+    const point = getCanvasPoint(clientX, clientY);
+    if (!point) return;
+    const gridPoint = { x: point.x - panOffset.x, y: point.y - panOffset.y };
+    setSymmetry(dragSymmetryCenter(symmetry, handle, gridPoint, canvasWidth, canvasHeight, CELL_SIZE * zoom));
+  };
+
+  // Mouse and touch share everything once the action of a press is known.
+  const pressCanvas = (
+    e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>,
+    action: PointerAction,
+    client: Point,
+    handle: SymmetryHandle | null = null,
+  ) => {
+    e.preventDefault();
+    const point = getCanvasCoordinates(client.x, client.y);
+    switch (action) {
+      case 'symmetry':
+        setSymmetryDrag(handle);
+        return;
+      case 'pan':
+        setIsPanning(true);
+        setPanStart({ x: client.x - panOffset.x, y: client.y - panOffset.y });
+        return;
+      case 'pick':
+      case 'eyedropper':
+        if (point) pickBlock(point);
+        return;
+      case 'replace':
+        if (point) replaceAt(point);
+        return;
+      case 'select':
+        setIsDrawing(true);
+        if (point) startSelection(point);
+        return;
+    }
+    if (!checkActiveLayerEditable()) return;
+    setIsDrawing(true);
+    if (isShapeTool(tool)) {
+      if (point) startShape(tool, point);
+      return;
+    }
+    lastPaintedRef.current = null;
+    beginStroke();
+    handleCanvasClick(e);
+  };
+
+  const dragCanvas = (
+    e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>,
+    point: Point | null,
+    constrain: boolean,
+  ) => {
+    if (isShapeTool(tool)) {
+      if (point) updateShape(tool, point, constrain);
+    } else if (tool === 'select') {
+      if (point) updateSelection(point);
+    } else if (tool !== 'fill') {
       handleCanvasClick(e);
     }
   };
 
+  const finishDrawing = () => {
+    setIsDrawing(false);
+    lastPaintedRef.current = null;
+    if (tool === 'select') {
+      finishSelection();
+    } else if (isShapeTool(tool)) {
+      if (tool !== 'polygon' && shapeDraft) commitShape(tool, shapeDraft);
+    } else {
+      endStroke(toolLabels[tool]);
+    }
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const handle = e.button === 0 ? getSymmetryHandle(e.clientX, e.clientY) : null;
+    const action = getPointerAction(tool, {
+      button: e.button,
+      altKey: e.altKey,
+      shiftKey: e.shiftKey,
+      isSpaceHeld,
+      onSymmetryHandle: handle !== null,
+    });
+    pressCanvas(e, action, { x: e.clientX, y: e.clientY }, handle);
+  };
+
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    hoverCellRef.current = getCanvasCoordinates(e.clientX, e.clientY);
+    if (symmetryDrag) {
+      dragSymmetry(symmetryDrag, e.clientX, e.clientY);
+      return;
+    }
     if (isPanning) {
       setPanOffset({
         x: e.clientX - panStart.x,
@@ -225,73 +871,387 @@ export default function MinecraftEditor() {
       });
       return;
     }
-    if (!isDrawing || tool === 'fill') return;
-    handleCanvasClick(e);
+    // A polygon follows the pointer between clicks too.
+    if (isDrawing || tool === 'polygon') dragCanvas(e, hoverCellRef.current, e.shiftKey);
   };
 
   const handleMouseUp = () => {
+    if (symmetryDrag) {
+      setSymmetryDrag(null);
+    } else if (isPanning) {
+      setIsPanning(false);
+    } else if (isDrawing) {
+      finishDrawing();
+    }
+  };
+
+  const handleMouseLeave = () => {
+    hoverCellRef.current = null;
+    handleMouseUp();
+  };
+
+  const getTouchPoints = (e: React.TouchEvent<HTMLCanvasElement>): [Point, Point] | null => {
+    const first = getCanvasPoint(e.touches[0].clientX, e.touches[0].clientY);
+    const second = getCanvasPoint(e.touches[1].clientX, e.touches[1].clientY);
+    return first && second && [first, second];
+  };
+
+  // Throws away what the first finger started before a second one landed.
+  const cancelTouchDrawing = () => {
+    if (!isDrawing) return;
     setIsDrawing(false);
-    setIsPanning(false);
+    lastPaintedRef.current = null;
+    if (tool === 'select') {
+      setSelectionDraft(null);
+      setMoveDrag(null);
+    } else if (isShapeTool(tool)) {
+      setShapeDraft(null);
+    } else {
+      cancelStroke();
+    }
   };
 
   const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    setIsDrawing(true);
-    handleCanvasClick(e);
+    if (e.touches.length >= 2) {
+      e.preventDefault();
+      cancelTouchDrawing();
+      setIsPanning(false);
+      const touches = getTouchPoints(e);
+      pinchRef.current = touches && { view: { zoom, pan: panOffset }, touches };
+      return;
+    }
+    if (pinchRef.current) return;
+    const touch = e.touches[0];
+    pressCanvas(e, getPointerAction(tool, touchPress), { x: touch.clientX, y: touch.clientY });
   };
 
   const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    if (!isDrawing || tool === 'fill') return;
-    handleCanvasClick(e);
+    if (pinchRef.current) {
+      const touches = e.touches.length >= 2 ? getTouchPoints(e) : null;
+      if (touches) setView(getPinchView(pinchRef.current.view, pinchRef.current.touches, touches));
+      return;
+    }
+    if (isPanning) {
+      const touch = e.touches[0];
+      setPanOffset({ x: touch.clientX - panStart.x, y: touch.clientY - panStart.y });
+      return;
+    }
+    if (isDrawing) dragCanvas(e, getEventCell(e), false);
   };
 
-  const handleTouchEnd = () => {
-    setIsDrawing(false);
+  const handleTouchEnd = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    if (pinchRef.current || isPanning) {
+      if (e.touches.length === 0) {
+        pinchRef.current = null;
+        setIsPanning(false);
+      }
+      return;
+    }
+    if (isDrawing) finishDrawing();
   };
 
   const handleWheel = (e: React.WheelEvent<HTMLCanvasElement>) => {
     e.preventDefault();
+    // Shift+wheel switches hotbar slots; some systems turn it into a
+    // horizontal scroll, so either direction counts.
+    if (e.shiftKey) {
+      chooseHotbarSlot(cycleHotbar(hotbar, Math.sign(e.deltaY || e.deltaX)).active);
+      return;
+    }
     const delta = e.deltaY > 0 ? -0.1 : 0.1;
-    setZoom(prev => Math.max(0.25, Math.min(5, prev + delta)));
+    const anchor = getCanvasPoint(e.clientX, e.clientY);
+    if (anchor) setView(zoomAt({ zoom, pan: panOffset }, zoom + delta, anchor));
   };
 
-  const clearCanvas = () => {
-    setGrid(
-      Array(CANVAS_HEIGHT).fill(null).map(() =>
-        Array(CANVAS_WIDTH).fill(null).map(() => ({ blockId: 'air' }))
-      )
-    );
-    toast.success('Холст очищен');
+  const clearLayer = () => {
+    if (!checkActiveLayerEditable()) return;
+    updateGrid(prev => {
+      const { width, height } = getGridSize(prev);
+      return createEmptyGrid(width, height);
+    }, 'Очистка');
+    toast.success(`Слой «${activeLayer.name}» очищен`);
   };
 
-  const exportToPNG = () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    canvas.toBlob(blob => {
-      if (!blob) return;
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `minecraft-build-${Date.now()}.png`;
-      a.click();
-      URL.revokeObjectURL(url);
-      toast.success('Изображение экспортировано');
+  const handleAddLayer = () => {
+    const result = addLayer(layers, activeLayer.id);
+    updateLayers(() => result.layers, 'Новый слой');
+    setActiveLayerId(result.layer.id);
+  };
+
+  const handleDuplicateLayer = () => {
+    const result = duplicateLayer(layers, activeLayer.id);
+    updateLayers(() => result.layers, 'Копия слоя');
+    setActiveLayerId(result.layer.id);
+  };
+
+  const handleDeleteLayer = () => {
+    const index = layers.indexOf(activeLayer);
+    const next = layers[index - 1] ?? layers[index + 1];
+    updateLayers(prev => deleteLayer(prev, activeLayer.id), 'Удаление слоя');
+    if (next) setActiveLayerId(next.id);
+  };
+
+  const handleMergeLayerDown = () => {
+    const lower = layers[layers.indexOf(activeLayer) - 1];
+    if (!lower) return;
+    updateLayers(prev => mergeLayerDown(prev, activeLayer.id), 'Объединение слоёв');
+    setActiveLayerId(lower.id);
+  };
+
+  // Dragging the opacity slider is recorded as a single history entry.
+  const handleLayerOpacityChange = (opacity: number) => {
+    beginStroke();
+    updateLayers(prev => updateLayer(prev, activeLayer.id, { opacity }), 'Непрозрачность слоя');
+  };
+
+  const exportToPNG = async (options: PngExportOptions) => {
+    const composite = flattenLayers(layers);
+    const bounds = options.area === 'content' ? getContentBounds(composite) : null;
+    if (options.area === 'content' && !bounds) {
+      toast.error('Холст пуст');
+      return;
+    }
+
+    const renderOptions = {
+      scale: options.scale,
+      bounds: bounds ?? undefined,
+      background: options.background ?? undefined,
+      showGrid: options.showGrid,
+    };
+    let blob: Blob;
+    try {
+      blob = options.animated
+        ? await renderAnimation(composite, renderOptions, textureSet)
+        : await canvasToBlob(renderGrid(composite, { ...renderOptions, textures: textures }));
+    } catch {
+      // A texture that failed the CORS check taints the canvas; without
+      // textures there is nothing to animate either.
+      try {
+        blob = await canvasToBlob(renderGrid(composite, { ...renderOptions, textures: null }));
+        toast.warning('Текстуры недоступны — использованы цвета блоков');
+      } catch {
+        toast.error('Не удалось создать изображение');
+        return;
+      }
+    }
+
+    downloadBlob(blob, `${toFileName(currentProject?.name ?? 'minecraft-build')}.png`);
+    setIsPngExportOpen(false);
+    toast.success('Изображение экспортировано');
+  };
+
+  const exportStructure = async (format: 'nbt' | 'schem') => {
+    const name = toFileName(currentProject?.name ?? 'minecraft-build');
+    const composite = flattenLayers(layers);
+    try {
+      const data = format === 'nbt' ? await exportStructureNbt(composite) : await exportSpongeSchematic(composite);
+      downloadBlob(new Blob([data], { type: 'application/octet-stream' }), `${name}.${format}`);
+      toast.success(format === 'nbt' ? 'Структура экспортирована' : 'Схематика экспортирована');
+    } catch {
+      toast.error('Не удалось экспортировать постройку');
+    }
+  };
+
+  const exportMcfunction = (options: McfunctionOptions, asDatapack: boolean) => {
+    const name = currentProject?.name ?? 'build';
+    const { text, commandCount } = generateMcfunction(flattenLayers(layers), options);
+    const functionName = toFunctionName(name);
+
+    if (asDatapack) {
+      const zip = createDatapack(functionName, text, `Minecraft 2D: ${name}`);
+      downloadBlob(new Blob([zip], { type: 'application/zip' }), `${toFileName(name)}-datapack.zip`);
+      toast.success(`Датапак экспортирован, запуск: /function ${DATAPACK_NAMESPACE}:${functionName}`);
+    } else {
+      downloadBlob(new Blob([text], { type: 'text/plain' }), `${functionName}.mcfunction`);
+      toast.success(`Экспортировано команд: ${commandCount}`);
+    }
+    setIsMcfunctionOpen(false);
+  };
+
+  const importStructure = (importedGrid: Cell[][], fileName: string) => {
+    updateLayers(() => createSingleLayer(importedGrid), 'Импорт структуры');
+    setCurrentProjectId(null);
+    setPanOffset({ x: 0, y: 0 });
+    setActiveTab('editor');
+    setIsStructureImportOpen(false);
+    toast.success(`Импортирован срез из ${fileName}`);
+  };
+
+  // The image goes onto a new layer above the active one, centered on the
+  // canvas, so it can be traced over or merged down.
+  const importImage = (imageGrid: Cell[][], fileName: string) => {
+    if (layers.length >= MAX_LAYERS) {
+      toast.error('Достигнуто максимальное число слоёв');
+      return;
+    }
+    const { width, height } = getGridSize(imageGrid);
+    const left = Math.floor((canvasWidth - width) / 2);
+    const top = Math.floor((canvasHeight - height) / 2);
+    const result = addLayer(layers, activeLayer.id);
+    const layer = {
+      ...result.layer,
+      name: fileName.replace(/\.[^.]+$/, '') || result.layer.name,
+      grid: pasteCells(result.layer.grid, imageGrid, left, top),
+    };
+    updateLayers(() => result.layers.map(l => (l.id === layer.id ? layer : l)), 'Импорт изображения');
+    setActiveLayerId(layer.id);
+    setActiveTab('editor');
+    setIsImageImportOpen(false);
+    toast.success(`Изображение ${fileName} добавлено новым слоем`);
+  };
+
+  const exportMaterials = (format: MaterialsExportFormat, materials: Material[]) => {
+    const name = `${toFileName(currentProject?.name ?? 'minecraft-build')}-materials`;
+    if (format === 'csv') {
+      // The byte order mark makes Excel read the file as UTF-8.
+      downloadBlob(new Blob(['\uFEFF', materialsToCsv(materials)], { type: 'text/csv' }), `${name}.csv`);
+    } else {
+      downloadBlob(new Blob([materialsToText(materials)], { type: 'text/plain' }), `${name}.txt`);
+    }
+  };
+
+  const saveProjectFile = (name: string, author: string) => {
+    const now = new Date().toISOString();
+    const file = createProjectFile(layers, {
+      name,
+      author: author || undefined,
+      createdAt: currentProject ? new Date(currentProject.createdAt).toISOString() : now,
+      modifiedAt: now,
     });
+    const blob = new Blob([serializeProjectFile(file)], { type: 'application/json' });
+    downloadBlob(blob, `${toFileName(name)}${PROJECT_FILE_EXTENSION}`);
+    setIsSaveFileOpen(false);
+    toast.success('Файл проекта сохранён');
   };
 
-  const templates = [
-    { name: 'Дом', grid: generateHouseTemplate() },
-    { name: 'Дерево', grid: generateTreeTemplate() },
-    { name: 'Меч', grid: generateSwordTemplate() },
-  ];
+  const openProjectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { layers: fileLayers, metadata, unknownBlockIds } = parseProjectFile(await file.text());
+      updateLayers(() => fileLayers, 'Открытие файла');
+      setCurrentProjectId(null);
+      setPanOffset({ x: 0, y: 0 });
+      setActiveTab('editor');
+      toast.success(`Открыт проект «${metadata.name}»${metadata.author ? ` (${metadata.author})` : ''}`);
+      if (unknownBlockIds.length > 0) {
+        toast.warning(`Неизвестные блоки показаны как заглушки: ${unknownBlockIds.join(', ')}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof ProjectFileError ? error.message : 'Не удалось открыть файл');
+    }
+  };
+
+  const handleCanvasSize = (width: number, height: number, anchor: Anchor) => {
+    if (canvasDialog === 'new') {
+      updateLayers(() => createSingleLayer(createEmptyGrid(width, height)), 'Новый холст');
+      setCurrentProjectId(null);
+      setPanOffset({ x: 0, y: 0 });
+      toast.success(`Создан холст ${width}×${height}`);
+    } else {
+      updateLayers(prev => mapLayerGrids(prev, g => resizeGrid(g, width, height, anchor)), 'Размер холста');
+      toast.success(`Размер холста: ${width}×${height}`);
+    }
+    setCanvasDialog(null);
+  };
+
+  const cropToContent = () => {
+    const bounds = getLayersContentBounds(layers);
+    if (!bounds) {
+      toast.error('Холст пуст — нечего обрезать');
+      return;
+    }
+    if (bounds.width === canvasWidth && bounds.height === canvasHeight) {
+      toast('Постройка уже занимает весь холст');
+      return;
+    }
+    updateLayers(prev => mapLayerGrids(prev, g => cropGrid(g, bounds)), 'Обрезка');
+    setPanOffset({ x: 0, y: 0 });
+    toast.success(`Холст обрезан до ${bounds.width}×${bounds.height}`);
+  };
+
+  const templates = useMemo(() => generateTemplates(canvasWidth, canvasHeight), [canvasWidth, canvasHeight]);
 
   const loadTemplate = (templateGrid: Cell[][]) => {
-    setGrid(templateGrid);
+    updateLayers(() => createSingleLayer(templateGrid), 'Шаблон');
     setActiveTab('editor');
     toast.success('Шаблон загружен');
   };
 
-  const SidebarContent = () => (
+  const saveProjectAs = async (name: string) => {
+    try {
+      const project = await createProject(name, layers, renderThumbnail(flattenLayers(layers), textures));
+      setCurrentProjectId(project.id);
+      toast.success(`Проект «${name}» сохранён`);
+    } catch {
+      toast.error('Не удалось сохранить проект');
+    }
+  };
+
+  const saveCurrentProject = async () => {
+    if (!currentProject) return;
+    try {
+      await updateProject(currentProject, layers, renderThumbnail(flattenLayers(layers), textures));
+      toast.success(`Проект «${currentProject.name}» сохранён`);
+    } catch {
+      toast.error('Не удалось сохранить проект');
+    }
+  };
+
+  const openProject = (project: Project) => {
+    updateLayers(() => deserializeLayers(project), 'Открытие проекта');
+    setCurrentProjectId(project.id);
+    setActiveTab('editor');
+    toast.success(`Проект «${project.name}» открыт`);
+  };
+
+  const handleRenameProject = async (project: Project, name: string) => {
+    try {
+      await renameProject(project, name);
+    } catch {
+      toast.error('Не удалось переименовать проект');
+    }
+  };
+
+  const handleDuplicateProject = async (project: Project) => {
+    try {
+      await duplicateProject(project);
+      toast.success(`Создана копия «${project.name}»`);
+    } catch {
+      toast.error('Не удалось скопировать проект');
+    }
+  };
+
+  const handleDeleteProject = async (project: Project) => {
+    try {
+      await removeProject(project);
+      if (project.id === currentProjectId) setCurrentProjectId(null);
+      toast.success(`Проект «${project.name}» удалён`);
+    } catch {
+      toast.error('Не удалось удалить проект');
+    }
+  };
+
+  // Kept as an element rather than a component so sliders and inputs in it are
+  // not remounted on every render.
+  const materialsPanel = composite && (
+    <MaterialsPanel
+      grid={composite}
+      selection={activeSelection}
+      textures={textures}
+      onExport={exportMaterials}
+      onClose={() => setIsMaterialsOpen(false)}
+    />
+  );
+
+  // Picking something in the sheet on phones brings the canvas back.
+  const closeMobileMenu = () => {
+    if (isMobile) setIsMobileMenuOpen(false);
+  };
+
+  const sidebarContent = (
     <>
       <div className="p-4 border-b border-border">
         <h1 className="text-2xl font-bold text-primary flex items-center gap-2">
@@ -301,161 +1261,278 @@ export default function MinecraftEditor() {
       </div>
 
       <div className="p-3 border-b border-border space-y-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full justify-start text-muted-foreground"
+          onClick={() => { setIsCommandPaletteOpen(true); closeMobileMenu(); }}
+        >
+          <Icon name="Search" size={16} />
+          <span className="ml-2 flex-1 text-left">Блоки и команды</span>
+          <span className="text-xs">Ctrl+K</span>
+        </Button>
+        <ToolPicker tool={tool} onToolChange={name => { setTool(name); closeMobileMenu(); }} />
+
+        {(tool === 'brush' || tool === 'eraser') && (
+          <BrushOptions
+            brush={brush}
+            mix={tool === 'brush' ? blockMix : null}
+            selectedBlock={selectedBlock}
+            textures={textures}
+            onBrushChange={setBrush}
+            onMixChange={setBlockMix}
+          />
+        )}
+
+        {tool === 'replace' && (
+          <ReplaceOptions
+            grid={grid}
+            selection={activeSelection}
+            settings={replaceSettings}
+            target={paintCell}
+            textures={textures}
+            onSettingsChange={setReplaceSettings}
+            onTargetChange={setSelectedBlock}
+            onReplace={area => { if (replaceSettings.sourceId) replaceArea(replaceSettings.sourceId, area); }}
+          />
+        )}
+
+        {isShapeTool(tool) && <ShapeToolOptions kind={tool} options={shapeOptions} onChange={setShapeOptions} />}
+
+        <SymmetryOptions symmetry={symmetry} width={canvasWidth} height={canvasHeight} onChange={setSymmetry} />
+
+        {tool === 'select' && (
+          <SelectionOptions
+            mode={selectionMode}
+            hasSelection={!!activeSelection}
+            onModeChange={setSelectionMode}
+            onCopy={() => copySelection(false)}
+            onCut={() => copySelection(true)}
+            onPaste={pasteFromClipboard}
+            onDelete={deleteSelection}
+          />
+        )}
+
         <div className="flex gap-2">
           <Button
-            variant={tool === 'brush' ? 'default' : 'outline'}
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            disabled={!undoLabel}
+            onClick={handleUndo}
+            title="Отменить (Ctrl+Z)"
+          >
+            <Icon name="Undo2" size={16} />
+          </Button>
+          <Button
+            variant="outline"
             size="sm"
             className="flex-1"
-            onClick={() => { setTool('brush'); if (isMobile) setIsMobileMenuOpen(false); }}
+            disabled={!redoLabel}
+            onClick={handleRedo}
+            title="Повторить (Ctrl+Shift+Z)"
           >
-            <Icon name="Brush" size={16} />
+            <Icon name="Redo2" size={16} />
           </Button>
+        </div>
+
+        <ViewControls
+          zoom={zoom}
+          showGrid={showGrid}
+          onZoom={zoomToCenter}
+          onReset={() => { setPanOffset({ x: 0, y: 0 }); setZoom(1); }}
+          onFit={fitToScreen}
+          onShowGridChange={setShowGrid}
+        />
+
+        <Button
+          variant={isMaterialsOpen ? 'default' : 'outline'}
+          size="sm"
+          className="w-full"
+          onClick={() => { setIsMaterialsOpen(!isMaterialsOpen); closeMobileMenu(); }}
+        >
+          <Icon name="ClipboardList" size={16} />
+          <span className="ml-2">Материалы</span>
+        </Button>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={!hasAnimatedBlocks}
+          onClick={() => setIsAnimationPaused(!isAnimationPaused)}
+        >
+          <Icon name={isAnimationPaused ? 'Play' : 'Pause'} size={16} />
+          <span className="ml-2">{isAnimationPaused ? 'Запустить' : 'Остановить'} анимацию</span>
+        </Button>
+
+        <div className="flex gap-2">
           <Button
-            variant={tool === 'eraser' ? 'default' : 'outline'}
+            variant="outline"
             size="sm"
             className="flex-1"
-            onClick={() => { setTool('eraser'); if (isMobile) setIsMobileMenuOpen(false); }}
+            title="Новый холст"
+            onClick={() => setCanvasDialog('new')}
           >
-            <Icon name="Eraser" size={16} />
+            <Icon name="FilePlus" size={16} />
           </Button>
           <Button
-            variant={tool === 'fill' ? 'default' : 'outline'}
+            variant="outline"
             size="sm"
             className="flex-1"
-            onClick={() => { setTool('fill'); if (isMobile) setIsMobileMenuOpen(false); }}
+            title="Размер холста"
+            onClick={() => setCanvasDialog('resize')}
           >
-            <Icon name="PaintBucket" size={16} />
+            <Icon name="Scaling" size={16} />
           </Button>
-        </div>
-
-        <div className="space-y-2">
-          <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setZoom(Math.max(0.25, zoom - 0.25))}
-            >
-              <Icon name="ZoomOut" size={16} />
-            </Button>
-            <span className="text-sm flex-1 text-center">{Math.round(zoom * 100)}%</span>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setZoom(Math.min(5, zoom + 0.25))}
-            >
-              <Icon name="ZoomIn" size={16} />
-            </Button>
-          </div>
           <Button
             variant="outline"
             size="sm"
-            className="w-full"
-            onClick={() => { setPanOffset({ x: 0, y: 0 }); setZoom(1); }}
+            className="flex-1"
+            title="Обрезать по содержимому"
+            onClick={cropToContent}
           >
-            <Icon name="Home" size={16} />
-            <span className="ml-2">Сбросить вид</span>
+            <Icon name="Crop" size={16} />
           </Button>
         </div>
 
-        <Button
-          variant="outline"
-          size="sm"
-          className="w-full"
-          onClick={() => setShowGrid(!showGrid)}
-        >
-          <Icon name="Grid3x3" size={16} />
-          <span className="ml-2">{showGrid ? 'Скрыть' : 'Показать'} сетку</span>
-        </Button>
-
-        <Button variant="destructive" size="sm" className="w-full" onClick={clearCanvas}>
+        <Button variant="destructive" size="sm" className="w-full" onClick={clearLayer}>
           <Icon name="Trash2" size={16} />
-          <span className="ml-2">Очистить</span>
+          <span className="ml-2">Очистить слой</span>
         </Button>
       </div>
 
-      <ScrollArea className="flex-1 p-3">
-        <div className="space-y-1">
-          <p className="text-xs font-medium text-muted-foreground mb-2">Выбранный блок:</p>
-          <div className="p-2 bg-background rounded border border-border flex items-center gap-2 mb-3">
-            {blockTextureUrls[selectedBlock.id] && textureCache.current.get(selectedBlock.id) ? (
-              <img
-                src={blockTextureUrls[selectedBlock.id]}
-                alt={selectedBlock.name}
-                className="w-8 h-8 rounded border border-border pixel-canvas"
-              />
-            ) : (
-              <div
-                className="w-8 h-8 rounded border border-border"
-                style={{ backgroundColor: selectedBlock.color }}
-              />
-            )}
-            <span className="text-sm">{selectedBlock.name}</span>
-          </div>
-
-          <Tabs defaultValue={blockCategories[0]}>
-            <TabsList className="w-full grid grid-cols-2 h-auto gap-1">
-              {blockCategories.slice(0, 8).map(cat => (
-                <TabsTrigger key={cat} value={cat} className="text-xs px-1 py-1">
-                  {cat}
-                </TabsTrigger>
-              ))}
-            </TabsList>
-
-            {blockCategories.map(category => (
-              <TabsContent key={category} value={category} className="mt-2">
-                <div className="grid grid-cols-4 gap-1">
-                  {minecraftBlocks
-                    .filter(block => block.category === category)
-                    .map(block => {
-                      const textureUrl = blockTextureUrls[block.id];
-                      const hasTexture = textureUrl && textureCache.current.get(block.id);
-                      
-                      return (
-                        <button
-                          key={block.id}
-                          onClick={() => { setSelectedBlock(block); if (isMobile) setIsMobileMenuOpen(false); }}
-                          className={`w-full aspect-square rounded border-2 transition-all hover:scale-110 overflow-hidden ${
-                            selectedBlock.id === block.id
-                              ? 'border-primary ring-2 ring-primary'
-                              : 'border-border'
-                          }`}
-                          style={!hasTexture ? { backgroundColor: block.color } : {}}
-                          title={block.name}
-                        >
-                          {hasTexture && (
-                            <img
-                              src={textureUrl}
-                              alt={block.name}
-                              className="w-full h-full object-cover pixel-canvas"
-                            />
-                          )}
-                        </button>
-                      );
-                    })}
-                </div>
-              </TabsContent>
-            ))}
-          </Tabs>
-        </div>
-      </ScrollArea>
+      <div className="p-3 border-b border-border">
+        <LayersPanel
+          layers={layers}
+          activeLayerId={activeLayer.id}
+          onSelect={setActiveLayerId}
+          onAdd={handleAddLayer}
+          onDuplicate={handleDuplicateLayer}
+          onDelete={handleDeleteLayer}
+          onMove={direction => updateLayers(prev => moveLayer(prev, activeLayer.id, direction), 'Порядок слоёв')}
+          onMergeDown={handleMergeLayerDown}
+          onChange={(id, changes, label) => updateLayers(prev => updateLayer(prev, id, changes), label)}
+          onOpacityChange={handleLayerOpacityChange}
+          onOpacityCommit={() => endStroke('Непрозрачность слоя')}
+        />
+      </div>
 
-      <div className="p-3 border-t border-border space-y-2">
-        <Button className="w-full" onClick={exportToPNG}>
-          <Icon name="Download" size={16} />
-          <span className="ml-2">Экспорт PNG</span>
-        </Button>
-        <Button
-          variant="outline"
-          className="w-full"
-          onClick={() => { setActiveTab(activeTab === 'editor' ? 'gallery' : 'editor'); if (isMobile) setIsMobileMenuOpen(false); }}
-        >
-          <Icon name="Images" size={16} />
-          <span className="ml-2">Галерея</span>
-        </Button>
+      <div className="p-3 border-b border-border">
+        <ResourcePackPicker
+          packs={packs}
+          activePack={activePack}
+          onSelect={setActivePackId}
+          onImport={handleImportResourcePack}
+          onRemove={handleRemoveResourcePack}
+        />
       </div>
+
+      <BlockPalette
+        selectedBlock={selectedBlock}
+        state={paintCell.state}
+        textures={textures}
+        onSelect={block => { setSelectedBlock(block); closeMobileMenu(); }}
+        onStateChange={(key, value) => setBlockState(prev => ({ ...prev, [key]: value }))}
+        onRotate={rotateBlockState}
+        onFlip={flipBlockState}
+      />
+
+      <FileMenu
+        onOpenFile={() => fileInputRef.current?.click()}
+        onSaveFile={() => setIsSaveFileOpen(true)}
+        onImportImage={() => setIsImageImportOpen(true)}
+        onExportPng={() => setIsPngExportOpen(true)}
+        onImportStructure={() => setIsStructureImportOpen(true)}
+        onExportStructure={exportStructure}
+        onExportMcfunction={() => setIsMcfunctionOpen(true)}
+        onToggleGallery={() => { setActiveTab(activeTab === 'gallery' ? 'editor' : 'gallery'); closeMobileMenu(); }}
+        onToggleProjects={() => { setActiveTab(activeTab === 'projects' ? 'editor' : 'projects'); closeMobileMenu(); }}
+      />
     </>
   );
 
+  const paletteActions: PaletteAction[] = [
+    ...(Object.keys(toolLabels) as Tool[]).map(name => ({
+      id: `tool-${name}`,
+      label: `Инструмент: ${toolLabels[name]}`,
+      keywords: ['tool', ...toolCommands[name].keywords],
+      icon: toolCommands[name].icon,
+      run: () => { setTool(name); setActiveTab('editor'); },
+    })),
+    { id: 'undo', label: 'Отменить', keywords: ['undo'], icon: 'Undo2', shortcut: 'Ctrl+Z', disabled: !undoLabel, run: handleUndo },
+    { id: 'redo', label: 'Повторить', keywords: ['redo'], icon: 'Redo2', shortcut: 'Ctrl+Shift+Z', disabled: !redoLabel, run: handleRedo },
+    {
+      id: 'select-all',
+      label: 'Выделить всё',
+      keywords: ['select all'],
+      icon: 'SquareDashed',
+      shortcut: 'Ctrl+A',
+      run: () => { setSelection(selectAll(canvasWidth, canvasHeight)); setTool('select'); setActiveTab('editor'); },
+    },
+    {
+      id: 'toggle-grid',
+      label: showGrid ? 'Скрыть сетку' : 'Показать сетку',
+      keywords: ['toggle grid', 'show hide'],
+      icon: 'Grid3x3',
+      run: () => setShowGrid(!showGrid),
+    },
+    { id: 'fit', label: 'По размеру экрана', keywords: ['fit to screen', 'zoom'], icon: 'Maximize', run: fitToScreen },
+    {
+      id: 'reset-view',
+      label: 'Сбросить вид',
+      keywords: ['reset view', 'zoom'],
+      icon: 'Home',
+      run: () => { setPanOffset({ x: 0, y: 0 }); setZoom(1); },
+    },
+    {
+      id: 'materials',
+      label: isMaterialsOpen ? 'Скрыть материалы' : 'Материалы',
+      keywords: ['materials', 'block count'],
+      icon: 'ClipboardList',
+      run: () => setIsMaterialsOpen(!isMaterialsOpen),
+    },
+    { id: 'new-canvas', label: 'Новый холст', keywords: ['new canvas'], icon: 'FilePlus', run: () => setCanvasDialog('new') },
+    { id: 'resize-canvas', label: 'Размер холста', keywords: ['resize canvas'], icon: 'Scaling', run: () => setCanvasDialog('resize') },
+    { id: 'crop', label: 'Обрезать по содержимому', keywords: ['crop to content'], icon: 'Crop', run: cropToContent },
+    { id: 'open-file', label: 'Открыть файл', keywords: ['open file', 'load'], icon: 'FolderInput', run: () => fileInputRef.current?.click() },
+    { id: 'save-file', label: 'Сохранить в файл', keywords: ['save file'], icon: 'Save', run: () => setIsSaveFileOpen(true) },
+    { id: 'import-image', label: 'Импорт изображения', keywords: ['import image', 'picture'], icon: 'ImagePlus', run: () => setIsImageImportOpen(true) },
+    { id: 'import-structure', label: 'Импорт структуры', keywords: ['import structure', 'nbt schem'], icon: 'Upload', run: () => setIsStructureImportOpen(true) },
+    { id: 'export-png', label: 'Экспорт PNG', keywords: ['export png', 'image'], icon: 'Download', run: () => setIsPngExportOpen(true) },
+    { id: 'export-nbt', label: 'Экспорт структуры (.nbt)', keywords: ['export structure nbt'], icon: 'FileBox', run: () => exportStructure('nbt') },
+    { id: 'export-schem', label: 'Экспорт WorldEdit (.schem)', keywords: ['export schematic worldedit'], icon: 'FileCode', run: () => exportStructure('schem') },
+    {
+      id: 'export-mcfunction',
+      label: 'Экспорт команд (.mcfunction)',
+      keywords: ['export commands mcfunction datapack'],
+      icon: 'Terminal',
+      run: () => setIsMcfunctionOpen(true),
+    },
+    { id: 'gallery', label: 'Галерея шаблонов', keywords: ['gallery templates'], icon: 'Images', run: () => setActiveTab('gallery') },
+    { id: 'projects', label: 'Мои проекты', keywords: ['projects library'], icon: 'FolderOpen', run: () => setActiveTab('projects') },
+  ];
+
+  // Under the canvas; on phones below the status line, lifted off the
+  // bottom edge where the thumbs and the system gestures are.
+  const hotbarContent = (
+    <Hotbar
+      hotbar={hotbar}
+      recent={recent}
+      selectedBlockId={selectedBlock.id}
+      textures={textures}
+      className={isMobile ? 'mt-2 mb-[calc(1.5rem+env(safe-area-inset-bottom))]' : 'mt-3'}
+      onSelectSlot={chooseHotbarSlot}
+      onSetSlot={setSlot}
+      onSwapSlots={swapSlots}
+      onCycle={delta => chooseHotbarSlot(cycleHotbar(hotbar, delta).active)}
+      onSelectBlock={blockId => {
+        const block = getBlock(blockId);
+        if (block) setSelectedBlock(block);
+      }}
+    />
+  );
+
   return (
     <div className="min-h-screen bg-background flex flex-col md:flex-row">
       {isMobile ? (
@@ -472,7 +1549,7 @@ export default function MinecraftEditor() {
               </SheetTrigger>
               <SheetContent side="left" className="w-80 p-0">
                 <div className="flex flex-col h-full">
-                  <SidebarContent />
+                  {sidebarContent}
                 </div>
               </SheetContent>
             </Sheet>
@@ -480,7 +1557,7 @@ export default function MinecraftEditor() {
         </>
       ) : (
         <div className="w-64 border-r border-border bg-card flex flex-col">
-          <SidebarContent />
+          {sidebarContent}
         </div>
       )}
 
@@ -491,7 +1568,9 @@ export default function MinecraftEditor() {
             <div 
               ref={containerRef}
               className="w-full h-full border border-border bg-muted rounded overflow-hidden relative"
-              style={{ cursor: isPanning ? 'grabbing' : 'crosshair' }}
+              style={{
+                cursor: isPanning || symmetryDrag ? 'grabbing' : tool === 'pan' || isSpaceHeld ? 'grab' : 'crosshair',
+              }}
             >
               <canvas
                 ref={canvasRef}
@@ -499,126 +1578,137 @@ export default function MinecraftEditor() {
                 onMouseDown={handleMouseDown}
                 onMouseMove={handleMouseMove}
                 onMouseUp={handleMouseUp}
-                onMouseLeave={handleMouseUp}
+                onMouseLeave={handleMouseLeave}
                 onTouchStart={handleTouchStart}
                 onTouchMove={handleTouchMove}
                 onTouchEnd={handleTouchEnd}
                 onWheel={handleWheel}
               />
+              <canvas
+                ref={overlayCanvasRef}
+                className="pixel-canvas absolute inset-0 w-full h-full pointer-events-none"
+              />
             </div>
+            {!isMobile && hotbarContent}
             <div className="mt-4 text-center text-sm text-muted-foreground">
-              <p>Размер: {CANVAS_WIDTH}×{CANVAS_HEIGHT} блоков | Зум: {Math.round(zoom * 100)}% | 🖱️ Shift+ЛКМ или колёсико для навигации</p>
+              <p>{currentProject && <>Проект: {currentProject.name} | </>}Размер: {canvasWidth}×{canvasHeight} блоков | Зум: {Math.round(zoom * 100)}% | 🖱️ Пробел или Shift+ЛКМ (кроме фигур) — перемещение, колёсико — зум</p>
             </div>
+            {isMobile && hotbarContent}
+          </div>
+        ) : activeTab === 'projects' ? (
+          <div className="max-w-4xl mx-auto">
+            <ProjectLibrary
+              projects={projects}
+              currentProjectId={currentProject?.id ?? null}
+              onSave={saveCurrentProject}
+              onSaveAs={saveProjectAs}
+              onOpen={openProject}
+              onRename={handleRenameProject}
+              onDuplicate={handleDuplicateProject}
+              onDelete={handleDeleteProject}
+            />
           </div>
         ) : (
           <div className="max-w-4xl mx-auto">
-            <h2 className="text-2xl md:text-3xl font-bold mb-6">Галерея шаблонов</h2>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {templates.map(template => (
-                <Card
-                  key={template.name}
-                  className="p-4 cursor-pointer hover:border-primary transition-colors"
-                  onClick={() => loadTemplate(template.grid)}
-                >
-                  <h3 className="font-semibold mb-2">{template.name}</h3>
-                  <div className="aspect-square bg-muted rounded flex items-center justify-center">
-                    <Icon name="Image" size={48} className="text-muted-foreground" />
-                  </div>
-                  <Button variant="outline" size="sm" className="w-full mt-3">
-                    Загрузить
-                  </Button>
-                </Card>
-              ))}
-            </div>
-
-            <Card className="p-6 mt-8">
-              <h3 className="text-xl font-semibold mb-4">📖 Справка</h3>
-              <div className="space-y-3 text-sm">
-                <div>
-                  <p className="font-medium">Инструменты:</p>
-                  <ul className="list-disc list-inside text-muted-foreground ml-2 mt-1">
-                    <li>Кисть - рисование блоков</li>
-                    <li>Ластик - удаление блоков</li>
-                    <li>Заливка - заполнение области</li>
-                  </ul>
-                </div>
-                <div>
-                  <p className="font-medium">Управление:</p>
-                  <ul className="list-disc list-inside text-muted-foreground ml-2 mt-1">
-                    <li>Клик - поставить/убрать блок</li>
-                    <li>Зажать и тянуть - рисовать линию</li>
-                    <li>Колёсико мыши - изменить зум</li>
-                  </ul>
-                </div>
-                <div>
-                  <p className="font-medium">Экспорт:</p>
-                  <p className="text-muted-foreground ml-2 mt-1">
-                    Нажмите "Экспорт PNG" для сохранения конструкции в формате PNG с прозрачным фоном
-                  </p>
-                </div>
-              </div>
-            </Card>
+            <TemplateGallery templates={templates} textures={textures} onLoad={loadTemplate} />
+            <EditorHelp />
           </div>
         )}
       </div>
+
+      {activeTab === 'editor' && isMaterialsOpen && (isMobile ? (
+        <Sheet open onOpenChange={setIsMaterialsOpen}>
+          <SheetContent side="right" className="w-80 p-0">
+            {materialsPanel}
+          </SheetContent>
+        </Sheet>
+      ) : (
+        <div className="w-72 border-l border-border bg-card">
+          {materialsPanel}
+        </div>
+      ))}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={openProjectFile}
+      />
+
+      <SaveFileDialog
+        open={isSaveFileOpen}
+        defaultName={currentProject?.name ?? 'Постройка'}
+        onOpenChange={setIsSaveFileOpen}
+        onSubmit={saveProjectFile}
+      />
+
+      <StructureImportDialog
+        open={isStructureImportOpen}
+        textures={textures}
+        onOpenChange={setIsStructureImportOpen}
+        onImport={importStructure}
+      />
+
+      <ImageImportDialog
+        open={isImageImportOpen}
+        textures={textures}
+        maxWidth={canvasWidth}
+        maxHeight={canvasHeight}
+        onOpenChange={setIsImageImportOpen}
+        onImport={importImage}
+      />
+
+      <PngExportDialog
+        open={isPngExportOpen}
+        grid={composite}
+        canAnimate={hasAnimatedBlocks}
+        onOpenChange={setIsPngExportOpen}
+        onExport={exportToPNG}
+      />
+
+      <McfunctionExportDialog
+        open={isMcfunctionOpen}
+        grid={composite}
+        onOpenChange={setIsMcfunctionOpen}
+        onExport={exportMcfunction}
+      />
+
+      <CommandPalette
+        open={isCommandPaletteOpen}
+        actions={paletteActions}
+        selectedBlockId={selectedBlock.id}
+        textures={textures}
+        onOpenChange={setIsCommandPaletteOpen}
+        onSelectBlock={setSelectedBlock}
+      />
+
+      <CanvasSizeDialog
+        mode={canvasDialog}
+        width={canvasWidth}
+        height={canvasHeight}
+        onOpenChange={open => !open && setCanvasDialog(null)}
+        onSubmit={handleCanvasSize}
+      />
     </div>
   );
 }
 
-function generateHouseTemplate(): Cell[][] {
-  const template = Array(CANVAS_HEIGHT).fill(null).map(() =>
-    Array(CANVAS_WIDTH).fill(null).map(() => ({ blockId: 'air' }))
-  );
-  
-  for (let y = 25; y < 35; y++) {
-    for (let x = 20; x < 40; x++) {
-      if (y === 25 || y === 34 || x === 20 || x === 39) {
-        template[y][x] = { blockId: 'oak_planks' };
-      }
-    }
-  }
-  
-  for (let i = 0; i < 10; i++) {
-    template[24 - i][25 + i] = { blockId: 'bricks' };
-    template[24 - i][34 - i] = { blockId: 'bricks' };
-  }
-  
-  return template;
+function isEditableTarget(target: EventTarget | null) {
+  const element = target as HTMLElement | null;
+  if (!element?.tagName) return false;
+  return element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable;
 }
 
-function generateTreeTemplate(): Cell[][] {
-  const template = Array(CANVAS_HEIGHT).fill(null).map(() =>
-    Array(CANVAS_WIDTH).fill(null).map(() => ({ blockId: 'air' }))
-  );
-  
-  for (let y = 30; y < 40; y++) {
-    template[y][32] = { blockId: 'oak_log' };
-  }
-  
-  for (let y = 22; y < 30; y++) {
-    for (let x = 28; x < 37; x++) {
-      if (Math.random() > 0.3) {
-        template[y][x] = { blockId: 'oak_log' };
-      }
-    }
-  }
-  
-  return template;
-}
+const CONTROL_SELECTOR =
+  'button, a[href], select, [role="button"], [role="checkbox"], [role="slider"], [role="tab"], '
+  + '[role="menuitem"], [role="option"]';
 
-function generateSwordTemplate(): Cell[][] {
-  const template = Array(CANVAS_HEIGHT).fill(null).map(() =>
-    Array(CANVAS_WIDTH).fill(null).map(() => ({ blockId: 'air' }))
-  );
-  
-  for (let i = 0; i < 20; i++) {
-    template[15 + i][32] = { blockId: 'iron_block' };
-  }
-  
-  template[35][31] = { blockId: 'brown_wool' };
-  template[35][32] = { blockId: 'brown_wool' };
-  template[35][33] = { blockId: 'brown_wool' };
-  template[36][32] = { blockId: 'brown_wool' };
-  
-  return template;
-}
\ No newline at end of file
+// Space presses a control reached with the keyboard and belongs to dialogs;
+// a button that just keeps focus after a click still lets Space pan.
+function isInteractiveTarget(target: EventTarget | null) {
+  const element = target as HTMLElement | null;
+  if (!element?.closest) return false;
+  if (element.closest('[role="dialog"]')) return true;
+  return !!element.closest(CONTROL_SELECTOR) && element.matches(':focus-visible');
+}
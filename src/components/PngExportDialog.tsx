@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react';
+import { getContentBounds, getGridSize, type Cell } from '@/lib/grid';
+import { MAX_EXPORT_SIZE } from '@/lib/render';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+const scales = [1, 8, 16, 32];
+
+// Below this scale grid lines would cover most of every block.
+const MIN_GRID_SCALE = 4;
+
+export interface PngExportOptions {
+  area: 'canvas' | 'content';
+  scale: number;
+  background: string | null;
+  showGrid: boolean;
+  // Export an APNG with one loop of the animated textures.
+  animated: boolean;
+}
+
+interface PngExportDialogProps {
+  open: boolean;
+  // Null while the dialog is closed.
+  grid: Cell[][] | null;
+  // Whether the build has blocks with animated textures.
+  canAnimate: boolean;
+  onOpenChange: (open: boolean) => void;
+  onExport: (options: PngExportOptions) => void;
+}
+
+export default function PngExportDialog({ open, grid, canAnimate, onOpenChange, onExport }: PngExportDialogProps) {
+  const [area, setArea] = useState<PngExportOptions['area']>('canvas');
+  const [scale, setScale] = useState(16);
+  const [isTransparent, setIsTransparent] = useState(true);
+  const [background, setBackground] = useState('#87CEEB');
+  const [showGrid, setShowGrid] = useState(false);
+  const [animated, setAnimated] = useState(true);
+
+  const size = useMemo(() => {
+    if (!open || !grid) return null;
+    return area === 'content' ? getContentBounds(grid) : getGridSize(grid);
+  }, [open, area, grid]);
+
+  const pixelWidth = (size?.width ?? 0) * scale;
+  const pixelHeight = (size?.height ?? 0) * scale;
+  const isTooLarge = pixelWidth > MAX_EXPORT_SIZE || pixelHeight > MAX_EXPORT_SIZE;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Экспорт PNG</DialogTitle>
+          <DialogDescription>
+            Изображение строится заново в полном размере, независимо от зума и положения холста
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={area} onValueChange={value => setArea(value as PngExportOptions['area'])}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="canvas" id="png-area-canvas" />
+              <Label htmlFor="png-area-canvas">Весь холст</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="content" id="png-area-content" />
+              <Label htmlFor="png-area-content">Только постройка</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="space-y-1">
+            <Label>Пикселей на блок</Label>
+            <ToggleGroup
+              type="single"
+              value={String(scale)}
+              onValueChange={value => value && setScale(Number(value))}
+              className="justify-start"
+            >
+              {scales.map(s => (
+                <ToggleGroupItem key={s} value={String(s)} size="sm">
+                  {s}×
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="png-transparent"
+              checked={isTransparent}
+              onCheckedChange={checked => setIsTransparent(checked === true)}
+            />
+            <Label htmlFor="png-transparent">Прозрачный фон</Label>
+            {!isTransparent && (
+              <Input
+                type="color"
+                value={background}
+                onChange={e => setBackground(e.target.value)}
+                className="h-8 w-14 p-1 ml-auto"
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="png-grid"
+              checked={showGrid && scale >= MIN_GRID_SCALE}
+              disabled={scale < MIN_GRID_SCALE}
+              onCheckedChange={checked => setShowGrid(checked === true)}
+            />
+            <Label htmlFor="png-grid">Сетка</Label>
+          </div>
+
+          {canAnimate && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="png-animated"
+                checked={animated}
+                onCheckedChange={checked => setAnimated(checked === true)}
+              />
+              <Label htmlFor="png-animated">Анимированные текстуры (APNG)</Label>
+            </div>
+          )}
+
+          <p className={`text-sm ${isTooLarge ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {size
+              ? `${pixelWidth}×${pixelHeight} px${isTooLarge ? ' — слишком большое изображение, уменьшите масштаб' : ''}`
+              : 'Холст пуст'}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            disabled={!size || isTooLarge}
+            onClick={() => onExport({
+              area,
+              scale,
+              background: isTransparent ? null : background,
+              showGrid: showGrid && scale >= MIN_GRID_SCALE,
+              animated: canAnimate && animated,
+            })}
+          >
+            Экспортировать
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
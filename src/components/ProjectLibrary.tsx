@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import type { Project } from '@/lib/storage';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import Icon from '@/components/ui/icon';
+
+interface ProjectLibraryProps {
+  projects: Project[];
+  currentProjectId: string | null;
+  onSave: () => void;
+  onSaveAs: (name: string) => void;
+  onOpen: (project: Project) => void;
+  onRename: (project: Project, name: string) => void;
+  onDuplicate: (project: Project) => void;
+  onDelete: (project: Project) => void;
+}
+
+type NameDialogState =
+  | { mode: 'save' }
+  | { mode: 'rename'; project: Project }
+  | null;
+
+export default function ProjectLibrary({
+  projects,
+  currentProjectId,
+  onSave,
+  onSaveAs,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: ProjectLibraryProps) {
+  const [nameDialog, setNameDialog] = useState<NameDialogState>(null);
+  const [name, setName] = useState('');
+  const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
+
+  const openNameDialog = (state: NonNullable<NameDialogState>) => {
+    setName(state.mode === 'rename' ? state.project.name : `Постройка ${projects.length + 1}`);
+    setNameDialog(state);
+  };
+
+  const submitName = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed || !nameDialog) return;
+    if (nameDialog.mode === 'rename') {
+      onRename(nameDialog.project, trimmed);
+    } else {
+      onSaveAs(trimmed);
+    }
+    setNameDialog(null);
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <h2 className="text-2xl md:text-3xl font-bold flex-1">Мои проекты</h2>
+        {currentProjectId && (
+          <Button onClick={onSave}>
+            <Icon name="Save" size={16} />
+            <span className="ml-2">Сохранить</span>
+          </Button>
+        )}
+        <Button variant={currentProjectId ? 'outline' : 'default'} onClick={() => openNameDialog({ mode: 'save' })}>
+          <Icon name="FilePlus" size={16} />
+          <span className="ml-2">{currentProjectId ? 'Сохранить как…' : 'Сохранить постройку'}</span>
+        </Button>
+      </div>
+
+      {projects.length === 0 ? (
+        <Card className="p-6 text-center text-sm text-muted-foreground">
+          Сохранённых построек пока нет
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {projects.map(project => (
+            <Card
+              key={project.id}
+              className={`p-4 transition-colors ${
+                project.id === currentProjectId ? 'border-primary' : 'hover:border-primary'
+              }`}
+            >
+              <h3 className="font-semibold truncate" title={project.name}>{project.name}</h3>
+              <p className="text-xs text-muted-foreground mb-2">
+                {format(project.updatedAt, 'd MMM yyyy, HH:mm', { locale: ru })}
+              </p>
+              <button
+                className="w-full aspect-square bg-muted rounded flex items-center justify-center overflow-hidden"
+                onClick={() => onOpen(project)}
+              >
+                {project.thumbnail ? (
+                  <img src={project.thumbnail} alt={project.name} className="max-w-full max-h-full pixel-canvas" />
+                ) : (
+                  <Icon name="Image" size={48} className="text-muted-foreground" />
+                )}
+              </button>
+              <div className="flex gap-2 mt-3">
+                <Button variant="outline" size="sm" className="flex-1" onClick={() => onOpen(project)}>
+                  Открыть
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  title="Переименовать"
+                  onClick={() => openNameDialog({ mode: 'rename', project })}
+                >
+                  <Icon name="Pencil" size={16} />
+                </Button>
+                <Button variant="outline" size="sm" title="Дублировать" onClick={() => onDuplicate(project)}>
+                  <Icon name="Copy" size={16} />
+                </Button>
+                <Button variant="outline" size="sm" title="Удалить" onClick={() => setProjectToDelete(project)}>
+                  <Icon name="Trash2" size={16} />
+                </Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={nameDialog !== null} onOpenChange={open => !open && setNameDialog(null)}>
+        <DialogContent>
+          <form onSubmit={submitName} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>
+                {nameDialog?.mode === 'rename' ? 'Переименовать проект' : 'Сохранить постройку'}
+              </DialogTitle>
+            </DialogHeader>
+            <Input
+              autoFocus
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Название"
+              maxLength={100}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim()}>
+                {nameDialog?.mode === 'rename' ? 'Переименовать' : 'Сохранить'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={projectToDelete !== null} onOpenChange={open => !open && setProjectToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Удалить проект?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Проект «{projectToDelete?.name}» будет удалён без возможности восстановления.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Отмена</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (projectToDelete) onDelete(projectToDelete);
+                setProjectToDelete(null);
+              }}
+            >
+              Удалить
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,168 @@
+import { useMemo } from 'react';
+import { minecraftBlocks, type MinecraftBlock } from '@/data/minecraftBlocks';
+import { getBlock } from '@/lib/blockState';
+import type { Cell } from '@/lib/grid';
+import type { Selection } from '@/lib/selection';
+import type { BlockTextures } from '@/lib/textures';
+import { getReplaceMask, type ReplaceArea, type ReplaceScope } from '@/core/replace';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import Icon from '@/components/ui/icon';
+
+// The block to replace; the target is the selected block with its state, so
+// the palette, the eyedropper and the picker here all change it.
+export interface ReplaceSettings {
+  sourceId: string | null;
+  scope: ReplaceScope;
+}
+
+const replaceScopes: { scope: ReplaceScope; icon: string; label: string }[] = [
+  { scope: 'all', icon: 'Grid3x3', label: 'Везде' },
+  { scope: 'selection', icon: 'SquareDashed', label: 'В выделении' },
+  { scope: 'contiguous', icon: 'PaintBucket', label: 'Связанные' },
+];
+
+interface ReplaceOptionsProps {
+  grid: Cell[][];
+  selection: Selection | null;
+  settings: ReplaceSettings;
+  target: Cell;
+  textures: BlockTextures;
+  onSettingsChange: (settings: ReplaceSettings) => void;
+  onTargetChange: (block: MinecraftBlock) => void;
+  onReplace: (area: ReplaceArea) => void;
+}
+
+// The area the button replaces; a contiguous area is picked on the canvas.
+function getButtonArea(scope: ReplaceScope, selection: Selection | null): ReplaceArea | null {
+  if (scope === 'all') return { scope };
+  if (scope === 'selection' && selection) return { scope, selection };
+  return null;
+}
+
+function BlockLabel({ blockId, textures }: { blockId: string; textures: BlockTextures }) {
+  const texture = textures.get(blockId);
+  const block = getBlock(blockId);
+  return (
+    <span className="flex items-center gap-2 min-w-0">
+      {texture ? (
+        <img src={texture.src} alt="" className="w-4 h-4 pixel-canvas shrink-0" />
+      ) : (
+        <span className="w-4 h-4 rounded-sm border border-border shrink-0" style={{ backgroundColor: block?.color }} />
+      )}
+      <span className="truncate">{block?.name ?? blockId}</span>
+    </span>
+  );
+}
+
+export default function ReplaceOptions({
+  grid,
+  selection,
+  settings,
+  target,
+  textures,
+  onSettingsChange,
+  onTargetChange,
+  onReplace,
+}: ReplaceOptionsProps) {
+  const { sourceId, scope } = settings;
+
+  // Only blocks of the layer can be replaced, so only they are offered.
+  const usedBlocks = useMemo(() => {
+    const ids = new Set<string>();
+    for (const row of grid) {
+      for (const cell of row) ids.add(cell.blockId);
+    }
+    return [...ids].sort((a, b) => (getBlock(a)?.name ?? a).localeCompare(getBlock(b)?.name ?? b, 'ru'));
+  }, [grid]);
+
+  const area = getButtonArea(scope, selection);
+  const count = useMemo(() => {
+    const buttonArea = getButtonArea(scope, selection);
+    return sourceId && buttonArea ? getReplaceMask(grid, sourceId, buttonArea, target).count : 0;
+  }, [grid, sourceId, scope, selection, target]);
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Заменить</Label>
+        <Select
+          value={sourceId && usedBlocks.includes(sourceId) ? sourceId : ''}
+          onValueChange={value => onSettingsChange({ ...settings, sourceId: value })}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Блок на холсте" />
+          </SelectTrigger>
+          <SelectContent>
+            {usedBlocks.map(blockId => (
+              <SelectItem key={blockId} value={blockId} className="text-xs">
+                <BlockLabel blockId={blockId} textures={textures} />
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">На</Label>
+        <Select
+          value={target.blockId}
+          onValueChange={value => {
+            const block = getBlock(value);
+            if (block) onTargetChange(block);
+          }}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {minecraftBlocks.map(block => (
+              <SelectItem key={block.id} value={block.id} className="text-xs">
+                <BlockLabel blockId={block.id} textures={textures} />
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-2">
+        {replaceScopes.map(({ scope: value, icon, label }) => (
+          <Button
+            key={value}
+            variant={scope === value ? 'secondary' : 'ghost'}
+            size="sm"
+            className="flex-1"
+            title={label}
+            onClick={() => onSettingsChange({ ...settings, scope: value })}
+          >
+            <Icon name={icon} size={16} />
+          </Button>
+        ))}
+      </div>
+
+      {scope === 'contiguous' ? (
+        <p className="text-xs text-muted-foreground">
+          Кликните по области на холсте: она целиком станет блоком «{getBlock(target.blockId)?.name ?? target.blockId}»
+        </p>
+      ) : scope === 'selection' && !selection ? (
+        <p className="text-xs text-muted-foreground">Сначала выделите часть холста</p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            {sourceId ? `Будет заменено блоков: ${count}` : 'Выберите блок в списке или кликните по нему на холсте'}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={!area || !count}
+            onClick={() => area && onReplace(area)}
+          >
+            <Icon name="Replace" size={16} />
+            <span className="ml-2">Заменить</span>
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
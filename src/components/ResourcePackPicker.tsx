@@ -0,0 +1,78 @@
+import { useRef } from 'react';
+import type { ResourcePack } from '@/lib/resourcePack';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import Icon from '@/components/ui/icon';
+
+const VANILLA_VALUE = 'vanilla';
+
+interface ResourcePackPickerProps {
+  packs: ResourcePack[];
+  activePack: ResourcePack | null;
+  onSelect: (id: string | null) => void;
+  onImport: (file: File) => void;
+  onRemove: (pack: ResourcePack) => void;
+}
+
+export default function ResourcePackPicker({ packs, activePack, onSelect, onImport, onRemove }: ResourcePackPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <p className="text-xs font-medium text-muted-foreground flex-1">Ресурспак</p>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Импорт ресурспака (.zip)"
+          onClick={() => inputRef.current?.click()}
+        >
+          <Icon name="Upload" size={14} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Удалить ресурспак"
+          disabled={!activePack}
+          onClick={() => activePack && onRemove(activePack)}
+        >
+          <Icon name="Trash2" size={14} />
+        </Button>
+      </div>
+
+      <Select
+        value={activePack?.id ?? VANILLA_VALUE}
+        onValueChange={value => onSelect(value === VANILLA_VALUE ? null : value)}
+      >
+        <SelectTrigger className="h-8 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={VANILLA_VALUE} className="text-xs">Стандартные текстуры</SelectItem>
+          {packs.map(pack => (
+            <SelectItem key={pack.id} value={pack.id} className="text-xs">
+              {pack.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activePack?.description && (
+        <p className="text-xs text-muted-foreground line-clamp-2">{activePack.description}</p>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
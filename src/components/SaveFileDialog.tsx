@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+const AUTHOR_STORAGE_KEY = 'mc2d-author';
+
+// The author is remembered when storage allows it; in private mode the field
+// just starts empty.
+function loadAuthor(): string {
+  try {
+    return localStorage.getItem(AUTHOR_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+function saveAuthor(author: string) {
+  try {
+    localStorage.setItem(AUTHOR_STORAGE_KEY, author);
+  } catch {
+    // Not remembered, the file is still saved.
+  }
+}
+
+interface SaveFileDialogProps {
+  open: boolean;
+  defaultName: string;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (name: string, author: string) => void;
+}
+
+export default function SaveFileDialog({ open, defaultName, onOpenChange, onSubmit }: SaveFileDialogProps) {
+  const [name, setName] = useState(defaultName);
+  const [author, setAuthor] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setAuthor(loadAuthor());
+    }
+  }, [open, defaultName]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedAuthor = author.trim();
+    saveAuthor(trimmedAuthor);
+    onSubmit(name.trim(), trimmedAuthor);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Сохранить файл проекта</DialogTitle>
+            <DialogDescription>
+              Файл .mc2d.json можно открыть в редакторе на любом компьютере
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="file-name">Название</Label>
+            <Input
+              id="file-name"
+              autoFocus
+              value={name}
+              onChange={e => setName(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="file-author">Автор</Label>
+            <Input
+              id="file-author"
+              value={author}
+              onChange={e => setAuthor(e.target.value)}
+              placeholder="Необязательно"
+              maxLength={100}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={!name.trim()}>Сохранить</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
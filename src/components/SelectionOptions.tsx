@@ -0,0 +1,70 @@
+import type { SelectionMode } from '@/lib/selection';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+
+const selectionModes: { mode: SelectionMode; icon: string; label: string }[] = [
+  { mode: 'rect', icon: 'SquareDashed', label: 'Прямоугольник' },
+  { mode: 'lasso', icon: 'Lasso', label: 'Лассо' },
+  { mode: 'wand', icon: 'WandSparkles', label: 'Волшебная палочка' },
+];
+
+interface SelectionOptionsProps {
+  mode: SelectionMode;
+  hasSelection: boolean;
+  onModeChange: (mode: SelectionMode) => void;
+  onCopy: () => void;
+  onCut: () => void;
+  onPaste: () => void;
+  onDelete: () => void;
+}
+
+export default function SelectionOptions({
+  mode,
+  hasSelection,
+  onModeChange,
+  onCopy,
+  onCut,
+  onPaste,
+  onDelete,
+}: SelectionOptionsProps) {
+  const actions = [
+    { icon: 'Copy', title: 'Копировать (Ctrl+C)', needsSelection: true, run: onCopy },
+    { icon: 'Scissors', title: 'Вырезать (Ctrl+X)', needsSelection: true, run: onCut },
+    { icon: 'ClipboardPaste', title: 'Вставить (Ctrl+V)', needsSelection: false, run: onPaste },
+    { icon: 'Trash', title: 'Удалить (Delete)', needsSelection: true, run: onDelete },
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        {selectionModes.map(({ mode: value, icon, label }) => (
+          <Button
+            key={value}
+            variant={mode === value ? 'secondary' : 'ghost'}
+            size="sm"
+            className="flex-1"
+            title={label}
+            onClick={() => onModeChange(value)}
+          >
+            <Icon name={icon} size={16} />
+          </Button>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        {actions.map(({ icon, title, needsSelection, run }) => (
+          <Button
+            key={icon}
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            disabled={needsSelection && !hasSelection}
+            title={title}
+            onClick={run}
+          >
+            <Icon name={icon} size={16} />
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { MAX_SHAPE_THICKNESS, type ShapeKind, type ShapeOptions } from '@/lib/shapes';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+
+interface ShapeToolOptionsProps {
+  kind: ShapeKind;
+  options: ShapeOptions;
+  onChange: (options: ShapeOptions) => void;
+}
+
+// Lines cannot be filled; filled shapes have no outline to thicken.
+export default function ShapeToolOptions({ kind, options, onChange }: ShapeToolOptionsProps) {
+  return (
+    <div className="space-y-2">
+      {kind !== 'line' && (
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="shape-filled"
+            checked={options.filled}
+            onCheckedChange={checked => onChange({ ...options, filled: checked === true })}
+          />
+          <Label htmlFor="shape-filled" className="text-sm">Залитая фигура</Label>
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Толщина: {options.thickness}</Label>
+        <Slider
+          min={1}
+          max={MAX_SHAPE_THICKNESS}
+          step={1}
+          value={[options.thickness]}
+          disabled={options.filled && kind !== 'line'}
+          onValueChange={([thickness]) => onChange({ ...options, thickness })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Cell } from '@/lib/grid';
+import { renderThumbnail } from '@/lib/thumbnail';
+import type { BlockTextures } from '@/lib/textures';
+import {
+  findDensestSlice,
+  getSliceCount,
+  isSliceCropped,
+  mapVolumePalette,
+  parseStructureFile,
+  sliceVolume,
+  StructureImportError,
+  type BlockVolume,
+  type SliceAxis,
+} from '@/lib/structureImport';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import Icon from '@/components/ui/icon';
+
+const formatNames: Record<BlockVolume['format'], string> = {
+  sponge: 'Схематика Sponge',
+  structure: 'Структура',
+  litematic: 'Litematica',
+};
+
+const axisLabels: Record<SliceAxis, string> = {
+  XY: 'XY (вид спереди)',
+  ZY: 'ZY (вид сбоку)',
+  XZ: 'XZ (вид сверху)',
+};
+
+interface StructureImportDialogProps {
+  open: boolean;
+  textures: BlockTextures;
+  onOpenChange: (open: boolean) => void;
+  onImport: (grid: Cell[][], fileName: string) => void;
+}
+
+export default function StructureImportDialog({ open, textures, onOpenChange, onImport }: StructureImportDialogProps) {
+  const [fileName, setFileName] = useState('');
+  const [volume, setVolume] = useState<BlockVolume | null>(null);
+  const [axis, setAxis] = useState<SliceAxis>('XY');
+  const [slice, setSlice] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setVolume(null);
+      setFileName('');
+      setError(null);
+    }
+  }, [open]);
+
+  const mapping = useMemo(() => (volume ? mapVolumePalette(volume) : []), [volume]);
+
+  const unmatched = useMemo(() => {
+    if (!volume) return { approximate: [] as string[], unknown: [] as string[] };
+    const used = new Set(volume.blocks);
+    const approximate = new Set<string>();
+    const unknown = new Set<string>();
+    used.forEach(index => {
+      const name = volume.palette[index].name;
+      if (mapping[index].match === 'color') approximate.add(name);
+      if (mapping[index].match === 'unknown') unknown.add(name);
+    });
+    return { approximate: [...approximate], unknown: [...unknown] };
+  }, [volume, mapping]);
+
+  const sliceGrid = useMemo(
+    () => (volume ? sliceVolume(volume, axis, slice, mapping) : null),
+    [volume, axis, slice, mapping]
+  );
+  const preview = useMemo(() => (sliceGrid ? renderThumbnail(sliceGrid, textures, 320) : ''), [sliceGrid, textures]);
+
+  const selectAxis = (nextAxis: SliceAxis, nextVolume = volume) => {
+    setAxis(nextAxis);
+    if (nextVolume) {
+      setSlice(findDensestSlice(nextVolume, nextAxis, mapVolumePalette(nextVolume)));
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const parsed = await parseStructureFile(await file.arrayBuffer());
+      setVolume(parsed);
+      setFileName(file.name);
+      selectAxis('XY', parsed);
+    } catch (err) {
+      setVolume(null);
+      setError(err instanceof StructureImportError ? err.message : 'Не удалось прочитать файл');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const sliceCount = volume ? getSliceCount(volume, axis) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Импорт структуры Minecraft</DialogTitle>
+          <DialogDescription>
+            Файлы .schem, .nbt и .litematic. Выберите плоскость и срез, который станет двумерной постройкой
+          </DialogDescription>
+        </DialogHeader>
+
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isLoading}>
+          <Icon name={isLoading ? 'Loader2' : 'Upload'} size={16} className={isLoading ? 'animate-spin' : ''} />
+          <span className="ml-2">{fileName || 'Выбрать файл'}</span>
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".schem,.schematic,.nbt,.litematic"
+          className="hidden"
+          onChange={handleFile}
+        />
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {volume && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {formatNames[volume.format]}: {volume.width}×{volume.height}×{volume.length} (X×Y×Z)
+            </p>
+
+            <div className="space-y-1">
+              <Label>Плоскость</Label>
+              <ToggleGroup
+                type="single"
+                value={axis}
+                onValueChange={value => value && selectAxis(value as SliceAxis)}
+                className="justify-start"
+              >
+                {(Object.keys(axisLabels) as SliceAxis[]).map(a => (
+                  <ToggleGroupItem key={a} value={a} size="sm">
+                    {axisLabels[a]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label>
+                Срез: {slice + 1} из {sliceCount}
+              </Label>
+              <Slider
+                min={0}
+                max={Math.max(sliceCount - 1, 0)}
+                step={1}
+                value={[slice]}
+                onValueChange={([value]) => setSlice(value)}
+                disabled={sliceCount <= 1}
+              />
+            </div>
+
+            <div className="aspect-video bg-muted rounded flex items-center justify-center overflow-hidden">
+              {preview && <img src={preview} alt="Предпросмотр среза" className="max-w-full max-h-full pixel-canvas" />}
+            </div>
+
+            {isSliceCropped(volume, axis) && (
+              <p className="text-xs text-muted-foreground">
+                Срез больше максимального размера холста и будет обрезан
+              </p>
+            )}
+            {unmatched.approximate.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Заменены похожими по цвету: {unmatched.approximate.join(', ')}
+              </p>
+            )}
+            {unmatched.unknown.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Показаны заглушкой: {unmatched.unknown.join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button disabled={!sliceGrid} onClick={() => sliceGrid && onImport(sliceGrid, fileName)}>
+            Загрузить в редактор
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+import { getGridCenter, MAX_FOLDS, MIN_FOLDS, type Symmetry, type SymmetryMode } from '@/core/symmetry';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import Icon from '@/components/ui/icon';
+
+const symmetryModes: { mode: SymmetryMode; icon: string; label: string }[] = [
+  { mode: 'none', icon: 'Ban', label: 'Без симметрии' },
+  { mode: 'horizontal', icon: 'FlipHorizontal2', label: 'Слева направо' },
+  { mode: 'vertical', icon: 'FlipVertical2', label: 'Сверху вниз' },
+  { mode: 'quad', icon: 'Grid2x2', label: 'На четыре части' },
+  { mode: 'radial', icon: 'Sun', label: 'Вокруг центра' },
+];
+
+interface SymmetryOptionsProps {
+  symmetry: Symmetry;
+  width: number;
+  height: number;
+  onChange: (symmetry: Symmetry) => void;
+}
+
+export default function SymmetryOptions({ symmetry, width, height, onChange }: SymmetryOptionsProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">Симметрия</p>
+      <div className="flex gap-2">
+        {symmetryModes.map(({ mode, icon, label }) => (
+          <Button
+            key={mode}
+            variant={symmetry.mode === mode ? 'secondary' : 'ghost'}
+            size="sm"
+            className="flex-1"
+            title={label}
+            onClick={() => onChange({ ...symmetry, mode })}
+          >
+            <Icon name={icon} size={16} />
+          </Button>
+        ))}
+      </div>
+      {symmetry.mode === 'radial' && (
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Повторений: {symmetry.folds}</Label>
+          <Slider
+            min={MIN_FOLDS}
+            max={MAX_FOLDS}
+            step={1}
+            value={[symmetry.folds]}
+            onValueChange={([folds]) => onChange({ ...symmetry, folds })}
+          />
+        </div>
+      )}
+      {symmetry.mode !== 'none' && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => onChange({ ...symmetry, center: getGridCenter(width, height) })}
+        >
+          <Icon name="Crosshair" size={16} />
+          <span className="ml-2">Ось по центру</span>
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useMemo } from 'react';
+import type { Cell } from '@/lib/grid';
+import type { BlockTextures } from '@/lib/textures';
+import { renderThumbnail } from '@/lib/thumbnail';
+import type { Template } from '@/core/templates';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+
+interface TemplateGalleryProps {
+  templates: Template[];
+  textures: BlockTextures;
+  onLoad: (grid: Cell[][]) => void;
+}
+
+export default function TemplateGallery({ templates, textures, onLoad }: TemplateGalleryProps) {
+  // Rendered while the gallery is shown only.
+  const thumbnails = useMemo(() => templates.map(t => renderThumbnail(t.grid, textures)), [templates, textures]);
+
+  return (
+    <>
+      <h2 className="text-2xl md:text-3xl font-bold mb-6">Галерея шаблонов</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {templates.map((template, index) => (
+          <Card
+            key={template.name}
+            className="p-4 cursor-pointer hover:border-primary transition-colors"
+            onClick={() => onLoad(template.grid)}
+          >
+            <h3 className="font-semibold mb-2">{template.name}</h3>
+            <div className="aspect-square bg-muted rounded flex items-center justify-center overflow-hidden">
+              <img
+                src={thumbnails[index]}
+                alt={template.name}
+                className="max-w-full max-h-full pixel-canvas"
+              />
+            </div>
+            <Button variant="outline" size="sm" className="w-full mt-3">
+              Загрузить
+            </Button>
+          </Card>
+        ))}
+      </div>
+    </>
+  );
+}
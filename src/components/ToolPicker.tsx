@@ -0,0 +1,42 @@
+import type { Tool } from '@/core/pointer';
+import { toolCommands, toolLabels } from '@/lib/tools';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+
+// Rows of the sidebar; the tools of the middle row show their names.
+const iconTools: Tool[] = ['brush', 'eraser', 'fill', 'select', 'pan'];
+const namedTools: Tool[] = ['eyedropper', 'replace'];
+const shapeTools: Tool[] = ['line', 'rect', 'ellipse', 'polygon'];
+
+const toolTitles: Partial<Record<Tool, string>> = {
+  eyedropper: 'Пипетка (Alt+клик или средняя кнопка)',
+};
+
+interface ToolPickerProps {
+  tool: Tool;
+  onToolChange: (tool: Tool) => void;
+}
+
+export default function ToolPicker({ tool, onToolChange }: ToolPickerProps) {
+  const renderButton = (name: Tool, showLabel: boolean) => (
+    <Button
+      key={name}
+      variant={tool === name ? 'default' : 'outline'}
+      size="sm"
+      className="flex-1"
+      title={toolTitles[name] ?? toolLabels[name]}
+      onClick={() => onToolChange(name)}
+    >
+      <Icon name={toolCommands[name].icon} size={16} />
+      {showLabel && <span className="ml-2">{toolLabels[name]}</span>}
+    </Button>
+  );
+
+  return (
+    <>
+      <div className="flex gap-2">{iconTools.map(name => renderButton(name, false))}</div>
+      <div className="flex gap-2">{namedTools.map(name => renderButton(name, true))}</div>
+      <div className="flex gap-2">{shapeTools.map(name => renderButton(name, false))}</div>
+    </>
+  );
+}
@@ -0,0 +1,55 @@
+import { MAX_ZOOM, MIN_ZOOM } from '@/core/viewport';
+import { Button } from '@/components/ui/button';
+import Icon from '@/components/ui/icon';
+
+const ZOOM_STEP = 0.25;
+
+interface ViewControlsProps {
+  zoom: number;
+  showGrid: boolean;
+  onZoom: (zoom: number) => void;
+  onReset: () => void;
+  onFit: () => void;
+  onShowGridChange: (showGrid: boolean) => void;
+}
+
+export default function ViewControls({ zoom, showGrid, onZoom, onReset, onFit, onShowGridChange }: ViewControlsProps) {
+  return (
+    <>
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={zoom <= MIN_ZOOM}
+            onClick={() => onZoom(zoom - ZOOM_STEP)}
+          >
+            <Icon name="ZoomOut" size={16} />
+          </Button>
+          <span className="text-sm flex-1 text-center">{Math.round(zoom * 100)}%</span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={zoom >= MAX_ZOOM}
+            onClick={() => onZoom(zoom + ZOOM_STEP)}
+          >
+            <Icon name="ZoomIn" size={16} />
+          </Button>
+        </div>
+        <Button variant="outline" size="sm" className="w-full" onClick={onReset}>
+          <Icon name="Home" size={16} />
+          <span className="ml-2">Сбросить вид</span>
+        </Button>
+        <Button variant="outline" size="sm" className="w-full" onClick={onFit}>
+          <Icon name="Maximize" size={16} />
+          <span className="ml-2">По размеру экрана</span>
+        </Button>
+      </div>
+
+      <Button variant="outline" size="sm" className="w-full" onClick={() => onShowGridChange(!showGrid)}>
+        <Icon name="Grid3x3" size={16} />
+        <span className="ml-2">{showGrid ? 'Скрыть' : 'Показать'} сетку</span>
+      </Button>
+    </>
+  );
+}
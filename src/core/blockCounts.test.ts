@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import { createEmptyGrid } from '@/lib/grid';
+import { createSingleLayer } from '@/lib/layers';
+import { countBlocks, getUsedBlocks, updateBlockCounts, updateLayerBlockCounts } from '@/core/blockCounts';
+import { paintLine } from '@/core/tools';
+
+const stone = createCell('stone');
+const water = createCell('water');
+
+describe('block counts', () => {
+  it('counts every block of the grid', () => {
+    const grid = paintLine(createEmptyGrid(3, 2), { x: 0, y: 0 }, { x: 1, y: 0 }, stone);
+    expect(countBlocks(grid)).toEqual(new Map([['stone', 2], ['air', 4]]));
+  });
+
+  it('updates the counts from the changed rows only', () => {
+    const before = paintLine(createEmptyGrid(3, 2), { x: 0, y: 0 }, { x: 2, y: 0 }, stone);
+    const after = paintLine(before, { x: 0, y: 0 }, { x: 2, y: 0 }, water);
+    expect(after[1]).toBe(before[1]);
+    const counts = updateBlockCounts(countBlocks(before), before, after);
+    expect(counts).toEqual(countBlocks(after));
+    expect(counts.has('stone')).toBe(false);
+  });
+
+  it('counts a resized grid again', () => {
+    const counts = updateBlockCounts(countBlocks(createEmptyGrid(2, 2)), createEmptyGrid(2, 2), createEmptyGrid(3, 3));
+    expect(counts.get('air')).toBe(9);
+  });
+
+  it('collects the blocks of the visible layers', () => {
+    const layers = createSingleLayer(paintLine(createEmptyGrid(2, 1), { x: 0, y: 0 }, { x: 0, y: 0 }, water));
+    let cache = updateLayerBlockCounts(new Map(), layers);
+    expect(getUsedBlocks(cache, layers)).toEqual(new Set(['water', 'air']));
+
+    const hidden = layers.map(layer => ({ ...layer, visible: false }));
+    cache = updateLayerBlockCounts(cache, hidden);
+    expect(getUsedBlocks(cache, hidden).size).toBe(0);
+  });
+});
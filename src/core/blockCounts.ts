@@ -0,0 +1,57 @@
+import type { Cell } from '@/lib/grid';
+import type { Layer } from '@/lib/layers';
+
+// How many cells of each block a grid has; blocks that are gone are removed.
+export type BlockCounts = Map<string, number>;
+
+// The counts of every layer with the grid they were taken from, so the next
+// version of a layer only needs its changed rows counted again.
+export type LayerBlockCounts = Map<string, { grid: Cell[][]; counts: BlockCounts }>;
+
+function addRow(counts: BlockCounts, row: Cell[], sign: 1 | -1) {
+  for (const { blockId } of row) {
+    const count = (counts.get(blockId) ?? 0) + sign;
+    if (count > 0) counts.set(blockId, count);
+    else counts.delete(blockId);
+  }
+}
+
+export function countBlocks(grid: Cell[][]): BlockCounts {
+  const counts: BlockCounts = new Map();
+  for (const row of grid) addRow(counts, row, 1);
+  return counts;
+}
+
+// Edits share the rows they do not touch, so only rows that are new objects
+// are counted again. A grid of another height is counted from scratch.
+export function updateBlockCounts(counts: BlockCounts, prev: Cell[][], next: Cell[][]): BlockCounts {
+  if (prev === next) return counts;
+  if (prev.length !== next.length) return countBlocks(next);
+  const result = new Map(counts);
+  next.forEach((row, y) => {
+    if (row === prev[y]) return;
+    addRow(result, prev[y], -1);
+    addRow(result, row, 1);
+  });
+  return result;
+}
+
+export function updateLayerBlockCounts(cache: LayerBlockCounts, layers: Layer[]): LayerBlockCounts {
+  const result: LayerBlockCounts = new Map();
+  for (const { id, grid } of layers) {
+    const cached = cache.get(id);
+    const counts = cached ? updateBlockCounts(cached.counts, cached.grid, grid) : countBlocks(grid);
+    result.set(id, { grid, counts });
+  }
+  return result;
+}
+
+// Blocks of the visible layers, including those covered by upper layers.
+export function getUsedBlocks(cache: LayerBlockCounts, layers: Layer[]): Set<string> {
+  const used = new Set<string>();
+  for (const layer of layers) {
+    if (!layer.visible) continue;
+    for (const blockId of cache.get(layer.id)?.counts.keys() ?? []) used.add(blockId);
+  }
+  return used;
+}
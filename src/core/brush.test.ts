@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import type { Point } from '@/lib/grid';
+import { createMixPicker, getBrushOffsets, getBrushStrokePoints, type Brush } from '@/core/brush';
+
+// Draws the cells a brush covers, `#` for covered.
+function draw(brush: Brush): string[] {
+  const offsets = getBrushOffsets(brush);
+  const min = Math.min(...offsets.map(p => p.x));
+  const rows = Array.from({ length: brush.size }, () => Array(brush.size).fill('.'));
+  offsets.forEach(p => { rows[p.y - min][p.x - min] = '#'; });
+  return rows.map(row => row.join(''));
+}
+
+describe('getBrushOffsets', () => {
+  it('covers one cell at size 1', () => {
+    for (const shape of ['square', 'circle', 'diamond'] as const) {
+      expect(getBrushOffsets({ size: 1, shape })).toEqual([{ x: 0, y: 0 }]);
+    }
+  });
+
+  it('centers odd sizes on the pointer', () => {
+    const offsets = getBrushOffsets({ size: 3, shape: 'square' });
+    expect(offsets).toHaveLength(9);
+    expect(offsets[0]).toEqual({ x: -1, y: -1 });
+    expect(offsets[8]).toEqual({ x: 1, y: 1 });
+  });
+
+  it('grows even sizes right and down', () => {
+    expect(getBrushOffsets({ size: 2, shape: 'circle' })).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+    ]);
+  });
+
+  it('rounds off circles', () => {
+    expect(draw({ size: 5, shape: 'circle' })).toEqual([
+      '.###.',
+      '#####',
+      '#####',
+      '#####',
+      '.###.',
+    ]);
+  });
+
+  it('draws diamonds', () => {
+    expect(draw({ size: 5, shape: 'diamond' })).toEqual([
+      '..#..',
+      '.###.',
+      '#####',
+      '.###.',
+      '..#..',
+    ]);
+  });
+});
+
+describe('getBrushStrokePoints', () => {
+  it('covers each cell once', () => {
+    const points = getBrushStrokePoints({ x: 0, y: 0 }, { x: 3, y: 0 }, { size: 3, shape: 'square' });
+    expect(points).toHaveLength(6 * 3);
+    expect(new Set(points.map(p => `${p.x},${p.y}`)).size).toBe(points.length);
+  });
+});
+
+describe('createMixPicker', () => {
+  const stone = createCell('stone');
+  const andesite = createCell('andesite');
+  const cobblestone = createCell('cobblestone');
+  const cells: Point[] = Array.from({ length: 4000 }, (_, i) => ({ x: i % 100, y: Math.floor(i / 100) }));
+
+  it('follows the weights', () => {
+    const pick = createMixPicker([
+      { cell: stone, weight: 60 },
+      { cell: andesite, weight: 30 },
+      { cell: cobblestone, weight: 10 },
+    ], 42)!;
+    const picked = cells.map(pick);
+    const share = (cell: typeof stone) => picked.filter(c => c === cell).length / cells.length;
+    expect(share(stone)).toBeCloseTo(0.6, 1);
+    expect(share(andesite)).toBeCloseTo(0.3, 1);
+    expect(share(cobblestone)).toBeCloseTo(0.1, 1);
+  });
+
+  it('repeats the pattern for the same seed', () => {
+    const entries = [{ cell: stone, weight: 1 }, { cell: andesite, weight: 1 }];
+    const a = cells.map(createMixPicker(entries, 7)!);
+    const b = cells.map(createMixPicker(entries, 7)!);
+    const c = cells.map(createMixPicker(entries, 8)!);
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(c);
+  });
+
+  it('skips blocks without weight', () => {
+    const pick = createMixPicker([{ cell: stone, weight: 0 }, { cell: andesite, weight: 5 }], 1)!;
+    expect(cells.slice(0, 100).every(point => pick(point) === andesite)).toBe(true);
+    expect(createMixPicker([{ cell: stone, weight: 0 }], 1)).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+import type { Cell, Point } from '@/lib/grid';
+import { getLinePoints } from '@/lib/shapes';
+import { randomAt } from '@/core/random';
+
+export type BrushShape = 'square' | 'circle' | 'diamond';
+
+export const MIN_BRUSH_SIZE = 1;
+export const MAX_BRUSH_SIZE = 16;
+
+export interface Brush {
+  size: number;
+  shape: BrushShape;
+}
+
+// A block of a mix and how often it is picked relative to the others.
+export interface MixEntry {
+  cell: Cell;
+  weight: number;
+}
+
+// The cells a brush covers around the pointer. Even sizes have no middle
+// cell, their extra row and column go right and down.
+export function getBrushOffsets({ size, shape }: Brush): Point[] {
+  const start = -Math.floor((size - 1) / 2);
+  const middle = (size - 1) / 2;
+  const radius = size / 2;
+  const offsets: Point[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const dx = x - middle;
+      const dy = y - middle;
+      // Cells whose middle lies inside the circle or the diamond.
+      if (shape === 'circle' && dx * dx + dy * dy >= radius * radius) continue;
+      if (shape === 'diamond' && Math.abs(dx) + Math.abs(dy) > radius) continue;
+      offsets.push({ x: start + x, y: start + y });
+    }
+  }
+  return offsets;
+}
+
+// Every cell the brush covers when dragged from one point to another, once.
+export function getBrushStrokePoints(from: Point, to: Point, brush: Brush): Point[] {
+  const line = getLinePoints(from, to);
+  if (brush.size <= 1) return line;
+
+  const offsets = getBrushOffsets(brush);
+  const seen = new Set<string>();
+  const points: Point[] = [];
+  for (const center of line) {
+    for (const offset of offsets) {
+      const point = { x: center.x + offset.x, y: center.y + offset.y };
+      const key = `${point.x},${point.y}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      points.push(point);
+    }
+  }
+  return points;
+}
+
+// Picks a block of the mix for a cell by weight. The choice depends only on
+// the seed and the cell, so the same seed paints the same pattern again.
+export function createMixPicker(entries: MixEntry[], seed: number): ((point: Point) => Cell) | null {
+  const used = entries.filter(entry => entry.weight > 0);
+  const total = used.reduce((sum, entry) => sum + entry.weight, 0);
+  if (total <= 0) return null;
+
+  return point => {
+    let threshold = randomAt(seed, point) * total;
+    for (const entry of used) {
+      threshold -= entry.weight;
+      if (threshold < 0) return entry.cell;
+    }
+    return used[used.length - 1].cell;
+  };
+}
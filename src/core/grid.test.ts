@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import { clampToGrid, isInBounds, toCellGrid } from '@/core/grid';
+
+describe('isInBounds', () => {
+  const size = { width: 3, height: 2 };
+
+  it.each([
+    [{ x: 0, y: 0 }, true],
+    [{ x: 2, y: 1 }, true],
+    [{ x: -1, y: 0 }, false],
+    [{ x: 0, y: -1 }, false],
+    [{ x: 3, y: 0 }, false],
+    [{ x: 0, y: 2 }, false],
+  ])('%o is %s', (point, expected) => {
+    expect(isInBounds(size, point)).toBe(expected);
+  });
+});
+
+describe('clampToGrid', () => {
+  it('moves points outside the grid to the nearest cell', () => {
+    const size = { width: 3, height: 2 };
+    expect(clampToGrid(size, { x: -4, y: 1 })).toEqual({ x: 0, y: 1 });
+    expect(clampToGrid(size, { x: 5, y: 9 })).toEqual({ x: 2, y: 1 });
+    expect(clampToGrid(size, { x: 1, y: 0 })).toEqual({ x: 1, y: 0 });
+  });
+});
+
+describe('toCellGrid', () => {
+  it('turns palette indices into rows of cells', () => {
+    const air = createCell('air');
+    const log = createCell('oak_log', { axis: 'x' });
+    const grid = toCellGrid({ width: 3, height: 2, palette: [air, log], cells: Uint16Array.of(0, 1, 0, 1, 1, 0) });
+    expect(grid).toEqual([[air, log, air], [log, log, air]]);
+    expect(grid[1][0]).toBe(grid[0][1]);
+  });
+
+  it('handles an empty grid', () => {
+    expect(toCellGrid({ width: 0, height: 0, palette: [], cells: new Uint16Array(0) })).toEqual([]);
+  });
+});
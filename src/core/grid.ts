@@ -0,0 +1,34 @@
+import type { Cell, Point } from '@/lib/grid';
+
+// A grid stored as one palette index per block, the way saved files keep it.
+// Layers are Cell[][] rows, which edits share between versions; files are
+// turned back into rows with toCellGrid.
+export interface GridModel {
+  width: number;
+  height: number;
+  palette: Cell[];
+  // Palette indices row by row: the block at (x, y) is cells[y * width + x].
+  cells: Uint16Array;
+}
+
+// More distinct blocks than this cannot be indexed; no grid comes close.
+export const MAX_PALETTE_SIZE = 0xffff;
+
+export function isInBounds(size: { width: number; height: number }, { x, y }: Point): boolean {
+  return x >= 0 && x < size.width && y >= 0 && y < size.height;
+}
+
+// The nearest cell of the grid, for drags that leave it.
+export function clampToGrid(size: { width: number; height: number }, { x, y }: Point): Point {
+  return {
+    x: Math.max(0, Math.min(size.width - 1, x)),
+    y: Math.max(0, Math.min(size.height - 1, y)),
+  };
+}
+
+// Blocks of the same palette entry come back as the same Cell object.
+export function toCellGrid({ width, height, palette, cells }: GridModel): Cell[][] {
+  return Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => palette[cells[y * width + x]])
+  );
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addRecentBlock,
+  createHotbar,
+  cycleHotbar,
+  getHotbarSlotForKey,
+  HOTBAR_SIZE,
+  parseHotbar,
+  setHotbarSlot,
+  swapHotbarSlots,
+} from '@/core/hotbar';
+
+describe('hotbar slots', () => {
+  it('creates nine slots with the given blocks first', () => {
+    const hotbar = createHotbar(['stone', 'dirt']);
+    expect(hotbar.slots).toHaveLength(HOTBAR_SIZE);
+    expect(hotbar.slots.slice(0, 3)).toEqual(['stone', 'dirt', null]);
+    expect(hotbar.active).toBe(0);
+  });
+
+  it('sets and clears a slot, ignoring indices outside the hotbar', () => {
+    const hotbar = createHotbar(['stone']);
+    expect(setHotbarSlot(hotbar, 4, 'glass').slots[4]).toBe('glass');
+    expect(setHotbarSlot(hotbar, 0, null).slots[0]).toBeNull();
+    expect(setHotbarSlot(hotbar, 9, 'glass')).toBe(hotbar);
+    expect(setHotbarSlot(hotbar, 0, 'stone')).toBe(hotbar);
+  });
+
+  it('swaps two slots', () => {
+    const hotbar = swapHotbarSlots(createHotbar(['stone', 'dirt']), 0, 5);
+    expect(hotbar.slots[0]).toBeNull();
+    expect(hotbar.slots[5]).toBe('stone');
+    expect(hotbar.slots[1]).toBe('dirt');
+  });
+
+  it('cycles the active slot around both ends', () => {
+    const hotbar = createHotbar();
+    expect(cycleHotbar(hotbar, 1).active).toBe(1);
+    expect(cycleHotbar(hotbar, -1).active).toBe(8);
+    expect(cycleHotbar({ ...hotbar, active: 8 }, 1).active).toBe(0);
+  });
+
+  it('maps the number keys to slots', () => {
+    expect(getHotbarSlotForKey('Digit1')).toBe(0);
+    expect(getHotbarSlotForKey('Digit9')).toBe(8);
+    expect(getHotbarSlotForKey('Digit0')).toBeNull();
+    expect(getHotbarSlotForKey('KeyA')).toBeNull();
+  });
+});
+
+describe('addRecentBlock', () => {
+  it('puts the block first without duplicates', () => {
+    expect(addRecentBlock(['dirt', 'stone', 'glass'], 'stone')).toEqual(['stone', 'dirt', 'glass']);
+    expect(addRecentBlock(['dirt'], 'stone')).toEqual(['stone', 'dirt']);
+  });
+
+  it('keeps the list to the limit', () => {
+    expect(addRecentBlock(['a', 'b', 'c'], 'd', 3)).toEqual(['d', 'a', 'b']);
+  });
+});
+
+describe('parseHotbar', () => {
+  const isKnown = (id: string) => id !== 'removed_block';
+
+  it('restores a saved hotbar, dropping unknown blocks', () => {
+    const hotbar = parseHotbar({ slots: ['stone', 'removed_block', 7], active: 2 }, isKnown);
+    expect(hotbar?.slots.slice(0, 4)).toEqual(['stone', null, null, null]);
+    expect(hotbar?.slots).toHaveLength(HOTBAR_SIZE);
+    expect(hotbar?.active).toBe(2);
+  });
+
+  it('rejects malformed data', () => {
+    expect(parseHotbar(null, isKnown)).toBeNull();
+    expect(parseHotbar({ slots: 'stone' }, isKnown)).toBeNull();
+    expect(parseHotbar({ slots: [], active: 12 }, isKnown)?.active).toBe(0);
+  });
+});
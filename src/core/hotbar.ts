@@ -0,0 +1,66 @@
+// Nine slots like the game's hotbar, switched with the number keys, and the
+// blocks picked last. Slots and the recent list hold block ids.
+
+export const HOTBAR_SIZE = 9;
+export const MAX_RECENT_BLOCKS = 12;
+
+export interface Hotbar {
+  slots: (string | null)[];
+  active: number;
+}
+
+export function createHotbar(blockIds: string[] = []): Hotbar {
+  return {
+    slots: Array.from({ length: HOTBAR_SIZE }, (_, i) => blockIds[i] ?? null),
+    active: 0,
+  };
+}
+
+export function setHotbarSlot(hotbar: Hotbar, index: number, blockId: string | null): Hotbar {
+  if (index < 0 || index >= HOTBAR_SIZE || hotbar.slots[index] === blockId) return hotbar;
+  const slots = [...hotbar.slots];
+  slots[index] = blockId;
+  return { ...hotbar, slots };
+}
+
+// Dragging a slot onto another swaps the two, as in the game's inventory.
+export function swapHotbarSlots(hotbar: Hotbar, from: number, to: number): Hotbar {
+  if (from === to || from < 0 || to < 0 || from >= HOTBAR_SIZE || to >= HOTBAR_SIZE) return hotbar;
+  const slots = [...hotbar.slots];
+  [slots[from], slots[to]] = [slots[to], slots[from]];
+  return { ...hotbar, slots };
+}
+
+// Moves the active slot by `delta`, wrapping around like the scroll wheel
+// in the game.
+export function cycleHotbar(hotbar: Hotbar, delta: number): Hotbar {
+  const active = (((hotbar.active + delta) % HOTBAR_SIZE) + HOTBAR_SIZE) % HOTBAR_SIZE;
+  return active === hotbar.active ? hotbar : { ...hotbar, active };
+}
+
+// The slot for a `KeyboardEvent.code` such as `Digit3`, or null.
+export function getHotbarSlotForKey(code: string): number | null {
+  const match = code.match(/^Digit([1-9])$/);
+  return match ? Number(match[1]) - 1 : null;
+}
+
+// Puts the block first, dropping it from further down the list.
+export function addRecentBlock(recent: string[], blockId: string, limit = MAX_RECENT_BLOCKS): string[] {
+  if (recent[0] === blockId) return recent;
+  return [blockId, ...recent.filter(id => id !== blockId)].slice(0, limit);
+}
+
+// Reads a hotbar saved by an earlier session, keeping only the blocks
+// `isKnown` accepts; anything malformed gives null.
+export function parseHotbar(value: unknown, isKnown: (blockId: string) => boolean): Hotbar | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { slots, active } = value as Partial<Hotbar>;
+  if (!Array.isArray(slots)) return null;
+  return {
+    slots: Array.from({ length: HOTBAR_SIZE }, (_, i) => {
+      const id = slots[i];
+      return typeof id === 'string' && isKnown(id) ? id : null;
+    }),
+    active: typeof active === 'number' && Number.isInteger(active) && active >= 0 && active < HOTBAR_SIZE ? active : 0,
+  };
+}
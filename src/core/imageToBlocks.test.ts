@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import type { Cell } from '@/lib/grid';
+import { convertImageToBlocks, fitImageSize, type BlockColor, type PixelImage } from '@/core/imageToBlocks';
+
+const black: BlockColor = { cell: createCell('black_wool'), color: [20, 21, 26] };
+const white: BlockColor = { cell: createCell('white_wool'), color: [234, 236, 237] };
+const red: BlockColor = { cell: createCell('red_wool'), color: [161, 39, 35] };
+
+function createImage(width: number, height: number, pixels: number[][]): PixelImage {
+  return { width, height, data: new Uint8ClampedArray(pixels.flat()) };
+}
+
+function ids(grid: Cell[][]): string[][] {
+  return grid.map(row => row.map(cell => cell.blockId));
+}
+
+describe('convertImageToBlocks', () => {
+  it('picks the closest block for every pixel', () => {
+    const image = createImage(3, 1, [[0, 0, 0, 255], [250, 250, 250, 255], [200, 30, 30, 255]]);
+    expect(ids(convertImageToBlocks(image, [black, white, red], { dither: false }))).toEqual([
+      ['black_wool', 'white_wool', 'red_wool'],
+    ]);
+  });
+
+  it('leaves transparent pixels as air', () => {
+    const image = createImage(2, 1, [[0, 0, 0, 0], [0, 0, 0, 255]]);
+    expect(ids(convertImageToBlocks(image, [white, black], { dither: false }))).toEqual([['air', 'black_wool']]);
+  });
+
+  it('gives air with an empty palette', () => {
+    const image = createImage(1, 1, [[10, 10, 10, 255]]);
+    expect(ids(convertImageToBlocks(image, [], { dither: true }))).toEqual([['air']]);
+  });
+
+  it('mixes blocks for colors between them when dithering', () => {
+    const gray = Array.from({ length: 16 }, () => [128, 128, 128, 255]);
+    const image = createImage(4, 4, gray);
+    const flat = ids(convertImageToBlocks(image, [black, white], { dither: false })).flat();
+    const dithered = ids(convertImageToBlocks(image, [black, white], { dither: true })).flat();
+
+    expect(new Set(flat).size).toBe(1);
+    const whites = dithered.filter(id => id === 'white_wool').length;
+    expect(whites).toBeGreaterThan(4);
+    expect(whites).toBeLessThan(12);
+  });
+});
+
+describe('fitImageSize', () => {
+  it('keeps the proportions of the image', () => {
+    expect(fitImageSize({ width: 400, height: 200 }, { width: 64, height: 48 })).toEqual({ width: 64, height: 32 });
+    expect(fitImageSize({ width: 100, height: 300 }, { width: 64, height: 48 })).toEqual({ width: 16, height: 48 });
+  });
+
+  it('scales small images up to the grid', () => {
+    expect(fitImageSize({ width: 16, height: 16 }, { width: 64, height: 48 })).toEqual({ width: 48, height: 48 });
+  });
+});
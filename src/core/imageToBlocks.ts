@@ -0,0 +1,116 @@
+import type { Cell } from '@/lib/grid';
+import { ciede2000, rgbToLab, type Lab, type Rgb } from '@/lib/color';
+
+// RGBA pixels row by row, as in ImageData.
+export interface PixelImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// A block the image may be built from, with how it looks from afar.
+export interface BlockColor {
+  cell: Cell;
+  color: Rgb;
+}
+
+export interface ImageConversionOptions {
+  // Floyd–Steinberg: the error of every pixel is spread over its neighbours.
+  dither: boolean;
+}
+
+// Pixels less opaque than this stay air.
+const ALPHA_THRESHOLD = 128;
+
+const AIR: Cell = { blockId: 'air' };
+
+// Finds the block closest to a color by CIEDE2000, remembering the answers,
+// since images repeat colors a lot and the difference is expensive.
+function createMatcher(palette: BlockColor[]) {
+  const labs: Lab[] = palette.map(block => rgbToLab(block.color));
+  const cache = new Map<number, number>();
+
+  return (r: number, g: number, b: number): number => {
+    const key = (r << 16) | (g << 8) | b;
+    let best = cache.get(key);
+    if (best !== undefined) return best;
+
+    const lab = rgbToLab([r, g, b]);
+    let bestDistance = Infinity;
+    best = 0;
+    labs.forEach((candidate, index) => {
+      const distance = ciede2000(lab, candidate);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    });
+    cache.set(key, best);
+    return best;
+  };
+}
+
+function clampChannel(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+// Maps every pixel to the closest block of the palette; transparent pixels
+// and an empty palette give air.
+export function convertImageToBlocks(
+  image: PixelImage,
+  palette: BlockColor[],
+  { dither }: ImageConversionOptions,
+): Cell[][] {
+  const { width, height, data } = image;
+  const grid: Cell[][] = Array.from({ length: height }, () => new Array<Cell>(width).fill(AIR));
+  if (palette.length === 0) return grid;
+
+  const match = createMatcher(palette);
+  // Colors with the error diffused so far, kept unrounded.
+  const colors = new Float32Array(width * height * 3);
+  for (let i = 0; i < width * height; i++) {
+    colors[i * 3] = data[i * 4];
+    colors[i * 3 + 1] = data[i * 4 + 1];
+    colors[i * 3 + 2] = data[i * 4 + 2];
+  }
+
+  const spread = (x: number, y: number, error: number[], weight: number) => {
+    if (x < 0 || x >= width || y >= height || data[(y * width + x) * 4 + 3] < ALPHA_THRESHOLD) return;
+    const i = (y * width + x) * 3;
+    for (let c = 0; c < 3; c++) colors[i + c] += error[c] * weight;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      if (data[pixel * 4 + 3] < ALPHA_THRESHOLD) continue;
+
+      const r = clampChannel(colors[pixel * 3]);
+      const g = clampChannel(colors[pixel * 3 + 1]);
+      const b = clampChannel(colors[pixel * 3 + 2]);
+      const block = palette[match(r, g, b)];
+      grid[y][x] = block.cell;
+      if (!dither) continue;
+
+      const error = [r - block.color[0], g - block.color[1], b - block.color[2]];
+      spread(x + 1, y, error, 7 / 16);
+      spread(x - 1, y + 1, error, 3 / 16);
+      spread(x, y + 1, error, 5 / 16);
+      spread(x + 1, y + 1, error, 1 / 16);
+    }
+  }
+  return grid;
+}
+
+// The largest size that keeps the proportions of the image and fits into
+// the grid.
+export function fitImageSize(
+  image: { width: number; height: number },
+  bounds: { width: number; height: number },
+): { width: number; height: number } {
+  const scale = Math.min(bounds.width / image.width, bounds.height / image.height);
+  return {
+    width: Math.max(1, Math.min(bounds.width, Math.round(image.width * scale))),
+    height: Math.max(1, Math.min(bounds.height, Math.round(image.height * scale))),
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import { createEmptyGrid } from '@/lib/grid';
+import { createRectSelection } from '@/lib/selection';
+import {
+  countMaterials,
+  formatStacks,
+  getShulkerBoxCount,
+  getSlotCount,
+  materialsToCsv,
+  materialsToText,
+  sortMaterials,
+} from '@/core/materials';
+
+function createSampleGrid() {
+  const grid = createEmptyGrid(4, 3);
+  grid[0] = [createCell('stone'), createCell('stone'), createCell('dirt'), createCell('stone')];
+  grid[1][0] = createCell('oak_door', { half: 'upper' });
+  grid[2][0] = createCell('oak_door', { half: 'lower' });
+  grid[2][1] = createCell('oak_slab', { type: 'double' });
+  return grid;
+}
+
+describe('countMaterials', () => {
+  it('counts the items needed, most used first', () => {
+    expect(countMaterials(createSampleGrid()).map(m => [m.blockId, m.count])).toEqual([
+      ['stone', 3],
+      ['oak_slab', 2],
+      ['oak_door', 1],
+      ['dirt', 1],
+    ]);
+  });
+
+  it('counts only the selection', () => {
+    const grid = createSampleGrid();
+    const selection = createRectSelection(4, 3, { x: 1, y: 0 }, { x: 2, y: 0 });
+    expect(countMaterials(grid, selection).map(m => [m.blockId, m.count])).toEqual([
+      ['dirt', 1],
+      ['stone', 1],
+    ]);
+  });
+
+  it('names blocks missing from the palette by their id', () => {
+    expect(countMaterials([[{ blockId: 'unknown_block' }]])[0].name).toBe('unknown_block');
+  });
+});
+
+describe('sortMaterials', () => {
+  const materials = countMaterials(createSampleGrid());
+
+  it('sorts by name', () => {
+    expect(sortMaterials(materials, 'name', 'asc').map(m => m.name)).toEqual([
+      'Дубовая дверь',
+      'Дубовая плита',
+      'Земля',
+      'Камень',
+    ]);
+  });
+
+  it('sorts by count, then by name', () => {
+    expect(sortMaterials(materials, 'count', 'asc').map(m => m.blockId)).toEqual([
+      'oak_door',
+      'dirt',
+      'oak_slab',
+      'stone',
+    ]);
+  });
+});
+
+describe('stacks', () => {
+  it.each([
+    [10, '10'],
+    [64, '1 × 64'],
+    [2000, '31 × 64 + 16'],
+  ])('formats %d as %s', (count, expected) => {
+    expect(formatStacks(count)).toBe(expected);
+  });
+
+  it('fills shulker boxes with whole slots', () => {
+    const materials = [
+      { blockId: 'stone', name: 'Камень', count: 27 * 64 },
+      { blockId: 'dirt', name: 'Земля', count: 1 },
+    ];
+    expect(getSlotCount(materials)).toBe(28);
+    expect(getShulkerBoxCount(28)).toBe(2);
+  });
+});
+
+describe('export', () => {
+  const materials = [{ blockId: 'stone', name: 'Камень, гладкий', count: 2000 }];
+
+  it('writes CSV with quoted fields', () => {
+    expect(materialsToCsv(materials)).toBe(
+      'Блок,ID,Количество,Стаки,Шалкеры\n"Камень, гладкий",minecraft:stone,2000,31 × 64 + 16,2\n'
+    );
+  });
+
+  it('writes a text list with the totals', () => {
+    expect(materialsToText(materials)).toBe(
+      'Камень, гладкий — 2000 (31 × 64 + 16)\n\nВсего: 2000, ячеек: 32, шалкеров: 2\n'
+    );
+  });
+});
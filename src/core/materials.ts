@@ -0,0 +1,98 @@
+import { minecraftBlocks } from '@/data/minecraftBlocks';
+import type { Cell } from '@/lib/grid';
+import { isSelected, type Selection } from '@/lib/selection';
+
+export const STACK_SIZE = 64;
+export const SHULKER_BOX_SLOTS = 27;
+
+export interface Material {
+  blockId: string;
+  name: string;
+  count: number;
+}
+
+export type MaterialSortKey = 'name' | 'count';
+
+const blockNames = new Map(minecraftBlocks.map(block => [block.id, block.name]));
+
+// How many items a cell takes to build: a door is one item for both halves
+// and a double slab is two slabs.
+export function getItemCount(cell: Cell): number {
+  if (cell.blockId === 'air') return 0;
+  if (cell.state?.half === 'upper' && cell.blockId.endsWith('_door')) return 0;
+  if (cell.state?.type === 'double' && cell.blockId.endsWith('_slab')) return 2;
+  return 1;
+}
+
+// The items needed for the grid, or for the selected part of it, most used
+// first.
+export function countMaterials(grid: Cell[][], selection: Selection | null = null): Material[] {
+  const counts = new Map<string, number>();
+  grid.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (selection && !isSelected(selection, x, y)) return;
+      const count = getItemCount(cell);
+      if (count > 0) counts.set(cell.blockId, (counts.get(cell.blockId) ?? 0) + count);
+    });
+  });
+  return sortMaterials(
+    [...counts].map(([blockId, count]) => ({ blockId, name: blockNames.get(blockId) ?? blockId, count })),
+    'count',
+    'desc'
+  );
+}
+
+export function sortMaterials(materials: Material[], key: MaterialSortKey, direction: 'asc' | 'desc'): Material[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...materials].sort((a, b) => {
+    const order = key === 'count' ? a.count - b.count : a.name.localeCompare(b.name, 'ru');
+    return sign * order || a.name.localeCompare(b.name, 'ru');
+  });
+}
+
+export function getStacks(count: number): { stacks: number; items: number } {
+  return { stacks: Math.floor(count / STACK_SIZE), items: count % STACK_SIZE };
+}
+
+// Inventory slots the items take; different blocks never share a slot.
+export function getSlotCount(materials: Material[]): number {
+  return materials.reduce((slots, material) => slots + Math.ceil(material.count / STACK_SIZE), 0);
+}
+
+export function getShulkerBoxCount(slots: number): number {
+  return Math.ceil(slots / SHULKER_BOX_SLOTS);
+}
+
+// `31 × 64 + 16`, the way players count stacks.
+export function formatStacks(count: number): string {
+  const { stacks, items } = getStacks(count);
+  if (stacks === 0) return String(items);
+  return items === 0 ? `${stacks} × ${STACK_SIZE}` : `${stacks} × ${STACK_SIZE} + ${items}`;
+}
+
+function toCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function materialsToCsv(materials: Material[]): string {
+  const rows = [
+    ['Блок', 'ID', 'Количество', 'Стаки', 'Шалкеры'],
+    ...materials.map(m => [
+      m.name,
+      `minecraft:${m.blockId}`,
+      m.count,
+      formatStacks(m.count),
+      getShulkerBoxCount(Math.ceil(m.count / STACK_SIZE)),
+    ]),
+  ];
+  return rows.map(row => row.map(toCsvField).join(',')).join('\n') + '\n';
+}
+
+export function materialsToText(materials: Material[]): string {
+  const lines = materials.map(m => `${m.name} — ${m.count} (${formatStacks(m.count)})`);
+  const total = materials.reduce((sum, m) => sum + m.count, 0);
+  const slots = getSlotCount(materials);
+  lines.push('', `Всего: ${total}, ячеек: ${slots}, шалкеров: ${getShulkerBoxCount(slots)}`);
+  return lines.join('\n') + '\n';
+}
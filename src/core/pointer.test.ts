@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getPointerAction, isShapeTool, touchPress } from '@/core/pointer';
+
+describe('getPointerAction', () => {
+  it('starts what the tool does', () => {
+    expect(getPointerAction('brush', touchPress)).toBe('draw');
+    expect(getPointerAction('polygon', touchPress)).toBe('draw');
+    expect(getPointerAction('select', touchPress)).toBe('select');
+    expect(getPointerAction('replace', touchPress)).toBe('replace');
+    expect(getPointerAction('pan', touchPress)).toBe('pan');
+  });
+
+  it('picks the block with the middle button or Alt and pans with Shift or Space', () => {
+    expect(getPointerAction('brush', { ...touchPress, button: 1 })).toBe('pick');
+    expect(getPointerAction('select', { ...touchPress, altKey: true })).toBe('pick');
+    expect(getPointerAction('fill', { ...touchPress, shiftKey: true })).toBe('pan');
+    expect(getPointerAction('eyedropper', { ...touchPress, isSpaceHeld: true })).toBe('pan');
+  });
+
+  it('leaves Shift to the shapes to snap them', () => {
+    expect(getPointerAction('line', { ...touchPress, shiftKey: true })).toBe('draw');
+    expect(getPointerAction('polygon', { ...touchPress, shiftKey: true })).toBe('draw');
+    expect(getPointerAction('rect', { ...touchPress, isSpaceHeld: true })).toBe('pan');
+  });
+
+  it('drags a symmetry grip with the left button only', () => {
+    expect(getPointerAction('brush', { ...touchPress, onSymmetryHandle: true })).toBe('symmetry');
+    expect(getPointerAction('brush', { ...touchPress, button: 1, onSymmetryHandle: true })).toBe('pick');
+  });
+});
+
+describe('isShapeTool', () => {
+  it('tells shapes from other tools', () => {
+    expect(isShapeTool('ellipse')).toBe(true);
+    expect(isShapeTool('fill')).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+import type { ShapeKind } from '@/lib/shapes';
+
+export type Tool = 'brush' | 'eraser' | 'fill' | 'eyedropper' | 'replace' | 'select' | 'pan' | ShapeKind;
+
+const shapeKinds: readonly Tool[] = ['line', 'rect', 'ellipse', 'polygon'];
+
+export function isShapeTool(tool: Tool): tool is ShapeKind {
+  return shapeKinds.includes(tool);
+}
+
+// What a press on the canvas starts. `draw` covers the brush, the eraser,
+// the fill and the shapes, which need an editable layer.
+export type PointerAction = 'symmetry' | 'pick' | 'pan' | 'eyedropper' | 'replace' | 'select' | 'draw';
+
+// A touch is a press of the left button without modifier keys.
+export interface PointerPress {
+  button: number;
+  altKey: boolean;
+  shiftKey: boolean;
+  // Space held, which turns any tool into the hand.
+  isSpaceHeld: boolean;
+  onSymmetryHandle: boolean;
+}
+
+export const touchPress: PointerPress = {
+  button: 0,
+  altKey: false,
+  shiftKey: false,
+  isSpaceHeld: false,
+  onSymmetryHandle: false,
+};
+
+// Symmetry grips come first; the middle button and Alt pick the block
+// whatever the tool. Shift pans too, except with the shapes, where it snaps
+// lines and makes squares and circles.
+export function getPointerAction(tool: Tool, press: PointerPress): PointerAction {
+  if (press.button === 0 && press.onSymmetryHandle) return 'symmetry';
+  if (press.button === 1 || press.altKey) return 'pick';
+  if ((press.shiftKey && !isShapeTool(tool)) || press.isSpaceHeld || tool === 'pan') return 'pan';
+  if (tool === 'eyedropper' || tool === 'replace' || tool === 'select') return tool;
+  return 'draw';
+}
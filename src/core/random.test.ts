@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, randomAt } from '@/core/random';
+
+describe('createRandom', () => {
+  it('gives the same sequence for the same seed', () => {
+    const a = createRandom(123);
+    const b = createRandom(123);
+    const sequence = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(sequence);
+    expect(new Set(sequence).size).toBe(5);
+  });
+
+  it('stays in [0, 1)', () => {
+    const random = createRandom(0);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('randomAt', () => {
+  it('depends on the cell and the seed only', () => {
+    expect(randomAt(5, { x: 3, y: 4 })).toBe(randomAt(5, { x: 3, y: 4 }));
+    expect(randomAt(5, { x: 3, y: 4 })).not.toBe(randomAt(5, { x: 4, y: 3 }));
+    expect(randomAt(5, { x: 3, y: 4 })).not.toBe(randomAt(6, { x: 3, y: 4 }));
+  });
+});
@@ -0,0 +1,25 @@
+import type { Point } from '@/lib/grid';
+
+// A small seedable generator (mulberry32): the same seed always gives the
+// same sequence of numbers in [0, 1).
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A number in [0, 1) that depends only on the seed and the cell, so a cell
+// gets the same value however often and in whatever order it is painted.
+export function randomAt(seed: number, { x, y }: Point): number {
+  const hash = Math.imul(seed ^ Math.imul(x, 0x27d4eb2d), 0x165667b1) ^ Math.imul(y, 0x9e3779b1);
+  return createRandom(hash)();
+}
+
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import { createEmptyGrid } from '@/lib/grid';
+import { createRectSelection } from '@/lib/selection';
+import { getReplaceClick, getReplaceMask, replaceBlocks, replaceInArea } from '@/core/replace';
+
+const oak = createCell('oak_planks');
+const spruce = createCell('spruce_planks');
+
+// Two areas of oak planks split by a stone column.
+function createSampleGrid() {
+  const grid = createEmptyGrid(4, 2);
+  grid[0] = [oak, createCell('stone'), oak, oak];
+  grid[1] = [oak, createCell('stone'), createCell('dirt'), oak];
+  return grid;
+}
+
+describe('getReplaceMask', () => {
+  it('finds every cell of the source block', () => {
+    const { mask, count } = getReplaceMask(createSampleGrid(), 'oak_planks', { scope: 'all' }, spruce);
+    expect(count).toBe(5);
+    expect([...mask]).toEqual([1, 0, 1, 1, 1, 0, 0, 1]);
+  });
+
+  it('finds only the cells in the selection', () => {
+    const selection = createRectSelection(4, 2, { x: 1, y: 0 }, { x: 2, y: 1 })!;
+    const { count, mask } = getReplaceMask(createSampleGrid(), 'oak_planks', { scope: 'selection', selection }, spruce);
+    expect(count).toBe(1);
+    expect(mask[2]).toBe(1);
+  });
+
+  it('finds the connected area without diagonals', () => {
+    const { mask, count } = getReplaceMask(createSampleGrid(), 'oak_planks', { scope: 'contiguous', start: { x: 2, y: 0 } }, spruce);
+    expect(count).toBe(3);
+    expect([...mask]).toEqual([0, 0, 1, 1, 0, 0, 0, 1]);
+  });
+
+  it('finds nothing when the start is another block or outside the grid', () => {
+    const grid = createSampleGrid();
+    expect(getReplaceMask(grid, 'oak_planks', { scope: 'contiguous', start: { x: 1, y: 0 } }, spruce).count).toBe(0);
+    expect(getReplaceMask(grid, 'oak_planks', { scope: 'contiguous', start: { x: 9, y: 0 } }, spruce).count).toBe(0);
+  });
+
+  it('leaves out cells the target would not change', () => {
+    const grid = createSampleGrid();
+    expect(getReplaceMask(grid, 'oak_planks', { scope: 'all' }, oak).count).toBe(0);
+    expect(getReplaceMask(grid, 'oak_planks', { scope: 'contiguous', start: { x: 0, y: 0 } }, oak).count).toBe(0);
+  });
+
+  it('connects the contiguous area through cells that already match', () => {
+    const grid = createEmptyGrid(3, 1);
+    const upright = createCell('oak_log', { axis: 'y' });
+    const sideways = createCell('oak_log', { axis: 'x' });
+    grid[0] = [upright, sideways, upright];
+    const { mask, count } = getReplaceMask(grid, 'oak_log', { scope: 'contiguous', start: { x: 0, y: 0 } }, sideways);
+    expect(count).toBe(2);
+    expect([...mask]).toEqual([1, 0, 1]);
+  });
+
+  it('matches the block whatever its state', () => {
+    const grid = createEmptyGrid(2, 1);
+    grid[0] = [createCell('oak_stairs', { facing: 'east' }), createCell('oak_stairs', { facing: 'west' })];
+    expect(getReplaceMask(grid, 'oak_stairs', { scope: 'all' }, createCell('spruce_stairs')).count).toBe(2);
+  });
+});
+
+describe('replaceBlocks', () => {
+  it('puts the target into the masked cells and keeps the other rows', () => {
+    const grid = createSampleGrid();
+    const { mask } = getReplaceMask(grid, 'oak_planks', { scope: 'contiguous', start: { x: 0, y: 0 } }, spruce);
+    const result = replaceBlocks(grid, mask, spruce);
+    expect(result[0].map(cell => cell.blockId)).toEqual(['spruce_planks', 'stone', 'oak_planks', 'oak_planks']);
+    expect(result[1][0]).toEqual(spruce);
+    expect(grid[0][0]).toBe(oak);
+  });
+
+  it('keeps the block state where the target has one', () => {
+    const grid = createEmptyGrid(1, 1);
+    grid[0][0] = createCell('oak_stairs', { facing: 'east', half: 'top' });
+    const { mask } = getReplaceMask(grid, 'oak_stairs', { scope: 'all' }, spruce);
+    expect(replaceBlocks(grid, mask, createCell('spruce_stairs'))[0][0]).toEqual(
+      createCell('spruce_stairs', { facing: 'east', half: 'top' })
+    );
+    expect(replaceBlocks(grid, mask, spruce)[0][0]).toEqual(spruce);
+  });
+
+  it('sets the target state when a block is replaced with itself', () => {
+    const grid = createEmptyGrid(1, 1);
+    grid[0][0] = createCell('oak_log', { axis: 'y' });
+    const sideways = createCell('oak_log', { axis: 'x' });
+    const { mask, count } = getReplaceMask(grid, 'oak_log', { scope: 'all' }, sideways);
+    expect(count).toBe(1);
+    expect(replaceBlocks(grid, mask, sideways)[0][0]).toEqual(sideways);
+  });
+
+  it('returns the same grid for an empty mask', () => {
+    const grid = createSampleGrid();
+    const { mask } = getReplaceMask(grid, 'gold_block', { scope: 'all' }, spruce);
+    expect(replaceBlocks(grid, mask, spruce)).toBe(grid);
+  });
+});
+
+describe('replaceInArea', () => {
+  it('replaces the source block in the area', () => {
+    const result = replaceInArea(createSampleGrid(), 'oak_planks', { scope: 'contiguous', start: { x: 3, y: 1 } }, spruce);
+    expect(result.flat().filter(cell => cell === spruce)).toHaveLength(3);
+  });
+});
+
+describe('getReplaceClick', () => {
+  it('picks the clicked block and, in the contiguous scope, the area', () => {
+    const grid = createSampleGrid();
+    expect(getReplaceClick(grid, { x: 1, y: 1 }, 'all')).toEqual({ sourceId: 'stone', area: null });
+    expect(getReplaceClick(grid, { x: 2, y: 1 }, 'contiguous')).toEqual({
+      sourceId: 'dirt',
+      area: { scope: 'contiguous', start: { x: 2, y: 1 } },
+    });
+    expect(getReplaceClick(grid, { x: 4, y: 0 }, 'all')).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import { cellKey, createCell, isSameBlock } from '@/lib/blockState';
+import type { Cell, Point } from '@/lib/grid';
+import { isSelected, type Selection } from '@/lib/selection';
+import { isInBounds } from '@/core/grid';
+
+// Which cells of the source block are replaced: all of them, those in the
+// selection, or the area connected to a cell without diagonals.
+export type ReplaceArea =
+  | { scope: 'all' }
+  | { scope: 'selection'; selection: Selection }
+  | { scope: 'contiguous'; start: Point };
+
+export type ReplaceScope = ReplaceArea['scope'];
+
+// What a cell becomes. Block states carry over to another block where it has
+// them, so stairs keep facing the same way; replacing a block with itself
+// sets the target's state, e.g. to turn every log on its side.
+export function getReplacement(cell: Cell, target: Cell): Cell {
+  if (!cell.state || cell.blockId === target.blockId) return target;
+  return createCell(target.blockId, { ...target.state, ...cell.state });
+}
+
+// The cells a replace changes, as a mask over the grid row by row. The
+// contiguous area is connected through any state of the source block; cells
+// the target would leave as they are stay out of the mask.
+export function getReplaceMask(
+  grid: Cell[][],
+  sourceId: string,
+  area: ReplaceArea,
+  target: Cell,
+): { mask: Uint8Array; count: number } {
+  const height = grid.length;
+  const width = grid[0]?.length ?? 0;
+  const mask = new Uint8Array(width * height);
+  let count = 0;
+  const visit = (cell: Cell, i: number) => {
+    if (isSameBlock(getReplacement(cell, target), cell)) return;
+    mask[i] = 1;
+    count++;
+  };
+
+  if (area.scope === 'contiguous') {
+    if (!isInBounds({ width, height }, area.start) || grid[area.start.y][area.start.x].blockId !== sourceId) {
+      return { mask, count };
+    }
+    const seen = new Uint8Array(width * height);
+    const stack = [area.start.y * width + area.start.x];
+    seen[stack[0]] = 1;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      const x = i % width;
+      const y = (i - x) / width;
+      visit(grid[y][x], i);
+      const neighbours: [number, number][] = [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]];
+      for (const [nx, ny] of neighbours) {
+        const j = ny * width + nx;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height || seen[j] || grid[ny][nx].blockId !== sourceId) continue;
+        seen[j] = 1;
+        stack.push(j);
+      }
+    }
+    return { mask, count };
+  }
+
+  grid.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (cell.blockId !== sourceId) return;
+      if (area.scope === 'selection' && !isSelected(area.selection, x, y)) return;
+      visit(cell, y * width + x);
+    });
+  });
+  return { mask, count };
+}
+
+// Puts the target block into the masked cells.
+export function replaceBlocks(grid: Cell[][], mask: Uint8Array, target: Cell): Cell[][] {
+  const width = grid[0]?.length ?? 0;
+  const replaced = new Map<string, Cell>();
+  const replace = (cell: Cell) => {
+    const key = cellKey(cell);
+    let result = replaced.get(key);
+    if (!result) {
+      result = getReplacement(cell, target);
+      replaced.set(key, result);
+    }
+    return result;
+  };
+
+  let changed = false;
+  const result = grid.map((row, y) => {
+    const offset = y * width;
+    if (!mask.subarray(offset, offset + width).includes(1)) return row;
+    changed = true;
+    return row.map((cell, x) => (mask[offset + x] ? replace(cell) : cell));
+  });
+  return changed ? result : grid;
+}
+
+export function replaceInArea(grid: Cell[][], sourceId: string, area: ReplaceArea, target: Cell): Cell[][] {
+  return replaceBlocks(grid, getReplaceMask(grid, sourceId, area, target).mask, target);
+}
+
+// A click with the replace tool picks the block under it to replace; in the
+// contiguous scope it also gives the area to replace right away.
+export function getReplaceClick(
+  grid: Cell[][],
+  point: Point,
+  scope: ReplaceScope,
+): { sourceId: string; area: ReplaceArea | null } | null {
+  const height = grid.length;
+  const width = grid[0]?.length ?? 0;
+  if (!isInBounds({ width, height }, point)) return null;
+  const sourceId = grid[point.y][point.x].blockId;
+  return { sourceId, area: scope === 'contiguous' ? { scope, start: point } : null };
+}
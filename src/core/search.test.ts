@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { fuzzyScore, getEnglishBlockName, matchSearch, normalizeSearchText } from '@/core/search';
+
+const darkOakPlanks = ['Тёмные дубовые доски', getEnglishBlockName('dark_oak_planks'), 'dark_oak_planks'];
+
+describe('normalizeSearchText', () => {
+  it('lowercases, reads ё as е and underscores as spaces', () => {
+    expect(normalizeSearchText('Тёмный  Dark_Oak ')).toBe('темный dark oak');
+  });
+});
+
+describe('fuzzyScore', () => {
+  it('ranks the start of the text over a word start, the middle and scattered letters', () => {
+    const text = 'dark oak planks';
+    expect(fuzzyScore('dark', text)).toBe(1);
+    expect(fuzzyScore('oak', text)).toBeGreaterThan(fuzzyScore('ak', text));
+    expect(fuzzyScore('ak', text)).toBeGreaterThan(fuzzyScore('dop', text));
+    expect(fuzzyScore('dop', text)).toBeGreaterThan(0);
+  });
+
+  it('gives 0 when the letters are not there in order', () => {
+    expect(fuzzyScore('kd', 'dark')).toBe(0);
+    expect(fuzzyScore('stone', 'dark oak planks')).toBe(0);
+  });
+});
+
+describe('matchSearch', () => {
+  it('finds a block by its Russian name, English name or id', () => {
+    expect(matchSearch('dark oak', darkOakPlanks)).toBeGreaterThan(0);
+    expect(matchSearch('тёмн', darkOakPlanks)).toBeGreaterThan(0);
+    expect(matchSearch('темн', darkOakPlanks)).toBeGreaterThan(0);
+    expect(matchSearch('dark_oak_planks', darkOakPlanks)).toBeGreaterThan(matchSearch('dop', darkOakPlanks));
+  });
+
+  it('needs every word somewhere in the fields', () => {
+    expect(matchSearch('oak dark', darkOakPlanks)).toBeGreaterThan(0);
+    expect(matchSearch('dark stone', darkOakPlanks)).toBe(0);
+  });
+
+  it('matches everything with an empty query', () => {
+    expect(matchSearch('  ', darkOakPlanks)).toBe(1);
+  });
+});
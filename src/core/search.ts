@@ -0,0 +1,50 @@
+// Fuzzy matching for the command palette: every word of the query has to
+// be found in one of the fields, whole or as letters in order, so "dark oak",
+// "тёмн" and "dark_oak_planks" all find dark oak planks.
+
+// Lowercase, with ё read as е and underscores as spaces.
+export function normalizeSearchText(text: string): string {
+  return text.toLowerCase().replace(/ё/g, 'е').replace(/[_\s]+/g, ' ').trim();
+}
+
+// `dark_oak_planks` as `dark oak planks`; the block list has Russian names
+// only, and the ids are the English ones.
+export function getEnglishBlockName(blockId: string): string {
+  return blockId.replace(/_/g, ' ');
+}
+
+// How well one word of the query matches a text, from 0 (not at all) to 1:
+// the start of the text beats the start of a word, which beats the middle,
+// which beats scattered letters.
+export function fuzzyScore(word: string, text: string): number {
+  if (!word) return 1;
+  const index = text.indexOf(word);
+  if (index === 0) return 1;
+  if (index > 0) return text[index - 1] === ' ' ? 0.9 : 0.8;
+
+  let first = -1;
+  let position = 0;
+  for (const char of word) {
+    const found = text.indexOf(char, position);
+    if (found === -1) return 0;
+    if (first === -1) first = found;
+    position = found + 1;
+  }
+  // Letters close together count more than letters spread out.
+  return 0.3 + 0.4 * (word.length / (position - first));
+}
+
+// The score of a query against several fields, 0 when some word is
+// missing from all of them.
+export function matchSearch(query: string, fields: string[]): number {
+  const words = normalizeSearchText(query).split(' ').filter(Boolean);
+  if (words.length === 0) return 1;
+  const texts = fields.map(normalizeSearchText);
+  let total = 0;
+  for (const word of words) {
+    const best = Math.max(0, ...texts.map(text => fuzzyScore(word, text)));
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total / words.length;
+}
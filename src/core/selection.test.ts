@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createRectSelection } from '@/lib/selection';
+import {
+  finishSelectionDraft,
+  getPasteTarget,
+  startSelectionDraft,
+  updateMoveDrag,
+  updateSelectionDraft,
+} from '@/core/selection';
+
+const size = { width: 8, height: 6 };
+
+describe('selection drafts', () => {
+  it('clamps a rectangle to the grid and keeps it while the cell is the same', () => {
+    const draft = startSelectionDraft('rect', size, { x: -2, y: 3 });
+    expect(draft).toEqual({ mode: 'rect', start: { x: 0, y: 3 }, end: { x: 0, y: 3 } });
+    const dragged = updateSelectionDraft(draft, size, { x: 12, y: 1 });
+    expect(dragged).toEqual({ mode: 'rect', start: { x: 0, y: 3 }, end: { x: 7, y: 1 } });
+    expect(updateSelectionDraft(dragged, size, { x: 9, y: 1 })).toBe(dragged);
+  });
+
+  it('adds a lasso point for every new cell', () => {
+    let draft = startSelectionDraft('lasso', size, { x: 1, y: 1 });
+    draft = updateSelectionDraft(draft, size, { x: 1, y: 1 });
+    draft = updateSelectionDraft(draft, size, { x: 4, y: 1 });
+    expect(draft).toEqual({ mode: 'lasso', points: [{ x: 1, y: 1 }, { x: 4, y: 1 }] });
+  });
+
+  it('drops the selection after a click or a lasso of two points', () => {
+    expect(finishSelectionDraft(startSelectionDraft('rect', size, { x: 2, y: 2 }), size)).toBeNull();
+    expect(finishSelectionDraft({ mode: 'lasso', points: [{ x: 0, y: 0 }, { x: 3, y: 3 }] }, size)).toBeNull();
+  });
+
+  it('selects the dragged rectangle and the lasso area', () => {
+    const rect = finishSelectionDraft({ mode: 'rect', start: { x: 3, y: 2 }, end: { x: 1, y: 1 } }, size);
+    expect(rect?.bounds).toEqual({ x: 1, y: 1, width: 3, height: 2 });
+    const lasso = finishSelectionDraft({ mode: 'lasso', points: [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 0, y: 4 }] }, size);
+    expect(lasso?.bounds.x).toBe(0);
+    expect(lasso?.bounds.y).toBe(0);
+  });
+});
+
+describe('updateMoveDrag', () => {
+  it('measures the offset from the start of the drag', () => {
+    const drag = { start: { x: 2, y: 2 }, offset: { x: 0, y: 0 } };
+    const moved = updateMoveDrag(drag, { x: 5, y: 1 });
+    expect(moved.offset).toEqual({ x: 3, y: -1 });
+    expect(updateMoveDrag(moved, { x: 5, y: 1 })).toBe(moved);
+  });
+});
+
+describe('getPasteTarget', () => {
+  const view = { zoom: 2, pan: { x: -64, y: 0 } };
+
+  it('prefers the hovered cell, then the selection', () => {
+    const selection = createRectSelection(8, 6, { x: 4, y: 3 }, { x: 5, y: 5 });
+    expect(getPasteTarget(size, { x: 1, y: 2 }, selection, view, 16)).toEqual({ x: 1, y: 2 });
+    expect(getPasteTarget(size, { x: 20, y: 2 }, selection, view, 16)).toEqual({ x: 4, y: 3 });
+  });
+
+  it('falls back to the top left visible cell', () => {
+    expect(getPasteTarget(size, null, null, view, 16)).toEqual({ x: 2, y: 0 });
+    expect(getPasteTarget(size, null, null, { zoom: 1, pan: { x: -1000, y: 50 } }, 16)).toEqual({ x: 7, y: 0 });
+  });
+});
@@ -0,0 +1,69 @@
+import type { Point } from '@/lib/grid';
+import {
+  createLassoSelection,
+  createRectSelection,
+  type Selection,
+  type SelectionDraft,
+} from '@/lib/selection';
+import { clampToGrid, isInBounds } from '@/core/grid';
+import type { ViewTransform } from '@/core/viewport';
+
+interface GridSize {
+  width: number;
+  height: number;
+}
+
+// Selected blocks being dragged; the offset is in cells from the start.
+export interface MoveDrag {
+  start: Point;
+  offset: Point;
+}
+
+export function startSelectionDraft(mode: SelectionDraft['mode'], size: GridSize, point: Point): SelectionDraft {
+  const start = clampToGrid(size, point);
+  return mode === 'rect' ? { mode, start, end: start } : { mode, points: [start] };
+}
+
+// Follows the pointer, which may leave the grid. The same draft comes back
+// when the pointer is still over the same cell.
+export function updateSelectionDraft(draft: SelectionDraft, size: GridSize, point: Point): SelectionDraft {
+  const end = clampToGrid(size, point);
+  if (draft.mode === 'rect') {
+    return draft.end.x === end.x && draft.end.y === end.y ? draft : { ...draft, end };
+  }
+  const last = draft.points[draft.points.length - 1];
+  return last.x === end.x && last.y === end.y ? draft : { mode: 'lasso', points: [...draft.points, end] };
+}
+
+// A click without dragging and a lasso of fewer than three points drop the
+// selection.
+export function finishSelectionDraft(draft: SelectionDraft, size: GridSize): Selection | null {
+  if (draft.mode === 'rect') {
+    const { start, end } = draft;
+    if (start.x === end.x && start.y === end.y) return null;
+    return createRectSelection(size.width, size.height, start, end);
+  }
+  return draft.points.length < 3 ? null : createLassoSelection(size.width, size.height, draft.points);
+}
+
+export function updateMoveDrag(drag: MoveDrag, point: Point): MoveDrag {
+  const offset = { x: point.x - drag.start.x, y: point.y - drag.start.y };
+  return offset.x === drag.offset.x && offset.y === drag.offset.y ? drag : { ...drag, offset };
+}
+
+// Pastes go to the cell under the cursor, over the current selection, or to
+// the top left visible cell, whichever is available first.
+export function getPasteTarget(
+  size: GridSize,
+  hover: Point | null,
+  selection: Selection | null,
+  view: ViewTransform,
+  cellSize: number,
+): Point {
+  if (hover && isInBounds(size, hover)) return hover;
+  if (selection) return { x: selection.bounds.x, y: selection.bounds.y };
+  return clampToGrid(size, {
+    x: Math.floor(-view.pan.x / (cellSize * view.zoom)),
+    y: Math.floor(-view.pan.y / (cellSize * view.zoom)),
+  });
+}
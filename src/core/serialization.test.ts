@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import { createEmptyGrid } from '@/lib/grid';
+import { createSingleLayer } from '@/lib/layers';
+import { createProjectFile, parseProjectFile, serializeProjectFile, ProjectFileError } from '@/lib/projectFile';
+import { decodeRuns, deserializeGrid, encodeRuns, serializeGrid } from '@/core/serialization';
+
+function createSampleGrid() {
+  const grid = createEmptyGrid(5, 3);
+  grid[0][0] = createCell('stone');
+  grid[1][2] = createCell('oak_log', { axis: 'z' });
+  grid[2][4] = createCell('oak_door', { facing: 'east', half: 'upper' });
+  grid[2][3] = { blockId: 'unknown_block' };
+  return grid;
+}
+
+describe('stored grids', () => {
+  it('round-trips blocks with their states', () => {
+    const grid = createSampleGrid();
+    expect(deserializeGrid(serializeGrid(grid))).toEqual(grid);
+  });
+
+  it('survives JSON', () => {
+    const grid = createSampleGrid();
+    expect(deserializeGrid(JSON.parse(JSON.stringify(serializeGrid(grid))))).toEqual(grid);
+  });
+
+  it('stores one cell key per block', () => {
+    const stored = serializeGrid(createSampleGrid());
+    expect(stored).toMatchObject({ width: 5, height: 3 });
+    expect(stored.cells).toHaveLength(15);
+    expect(stored.cells[7]).toBe('oak_log[axis=z]');
+  });
+
+  it('fills missing cells with air', () => {
+    const grid = deserializeGrid({ width: 2, height: 2, cells: ['stone'] });
+    expect(grid.flat().map(cell => cell.blockId)).toEqual(['stone', 'air', 'air', 'air']);
+  });
+
+  it('shares one Cell between blocks with the same key', () => {
+    const grid = deserializeGrid({ width: 2, height: 1, cells: ['stone', 'stone'] });
+    expect(grid[0][0]).toBe(grid[0][1]);
+  });
+});
+
+describe('runs', () => {
+  it('round-trips palette indices', () => {
+    const indices = [0, 0, 0, 2, 1, 1, 0];
+    const runs = encodeRuns(indices);
+    expect(runs).toEqual([[3, 0], [1, 2], [2, 1], [1, 0]]);
+    expect([...decodeRuns(runs, indices.length)!]).toEqual(indices);
+  });
+
+  it('encodes nothing as no runs', () => {
+    expect(encodeRuns([])).toEqual([]);
+    expect(decodeRuns([], 0)).toHaveLength(0);
+  });
+
+  it('rejects runs that do not cover the grid exactly', () => {
+    expect(decodeRuns([[2, 0]], 3)).toBeNull();
+    expect(decodeRuns([[2, 0], [2, 1]], 3)).toBeNull();
+  });
+});
+
+describe('project files', () => {
+  const metadata = {
+    name: 'Test',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    modifiedAt: '2024-01-02T00:00:00.000Z',
+  };
+
+  it('round-trips layers', () => {
+    const layers = createSingleLayer(createSampleGrid());
+    const parsed = parseProjectFile(serializeProjectFile(createProjectFile(layers, metadata)));
+    expect(parsed.layers.map(layer => layer.grid)).toEqual([layers[0].grid]);
+    expect(parsed.metadata).toEqual(metadata);
+    expect(parsed.unknownBlockIds).toEqual(['unknown_block']);
+  });
+
+  it('rejects layers of the wrong size', () => {
+    const file = createProjectFile(createSingleLayer(createSampleGrid()), metadata);
+    file.layers[0].cells[0][0] += 1;
+    expect(() => parseProjectFile(serializeProjectFile(file))).toThrow(ProjectFileError);
+  });
+
+  it('rejects palette indices out of range', () => {
+    const file = createProjectFile(createSingleLayer(createSampleGrid()), metadata);
+    file.layers[0].cells[0][1] = file.palette.length;
+    expect(() => parseProjectFile(serializeProjectFile(file))).toThrow(/индекс палитры/);
+  });
+});
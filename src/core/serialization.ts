@@ -0,0 +1,69 @@
+import { cellKey, parseBlockState } from '@/lib/blockState';
+import type { Cell } from '@/lib/grid';
+import { MAX_PALETTE_SIZE, toCellGrid, type GridModel } from '@/core/grid';
+
+// One cell key (`oak_log[axis=x]`) per block, row by row; used for autosaves
+// and projects in IndexedDB.
+export interface StoredGrid {
+  width: number;
+  height: number;
+  cells: string[];
+}
+
+export function serializeGrid(grid: Cell[][]): StoredGrid {
+  return {
+    width: grid[0]?.length ?? 0,
+    height: grid.length,
+    cells: grid.flatMap(row => row.map(cellKey)),
+  };
+}
+
+// Missing cells become air. Each distinct key is parsed once, and its blocks
+// share the resulting Cell.
+export function deserializeGrid({ width, height, cells }: StoredGrid): Cell[][] {
+  const palette: Cell[] = [];
+  const indices = new Map<string, number>();
+  const model: GridModel = { width, height, palette, cells: new Uint16Array(width * height) };
+
+  for (let i = 0; i < width * height; i++) {
+    const key = cells[i] ?? 'air';
+    let index = indices.get(key);
+    if (index === undefined) {
+      if (palette.length === MAX_PALETTE_SIZE) throw new RangeError('Too many distinct blocks');
+      index = palette.length;
+      palette.push(parseBlockState(key));
+      indices.set(key, index);
+    }
+    model.cells[i] = index;
+  }
+  return toCellGrid(model);
+}
+
+// Row-major run-length encoding of palette indices: [run length, index] pairs.
+export type Runs = [number, number][];
+
+export function encodeRuns(indices: ArrayLike<number>): Runs {
+  const runs: Runs = [];
+  for (let i = 0; i < indices.length; i++) {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === indices[i]) {
+      last[0] += 1;
+    } else {
+      runs.push([1, indices[i]]);
+    }
+  }
+  return runs;
+}
+
+// Returns null unless the runs cover exactly `length` blocks with indices a
+// grid model can hold.
+export function decodeRuns(runs: Runs, length: number): Uint16Array | null {
+  const indices = new Uint16Array(length);
+  let offset = 0;
+  for (const [count, index] of runs) {
+    if (index >= MAX_PALETTE_SIZE || offset + count > length) return null;
+    indices.fill(index, offset, offset + count);
+    offset += count;
+  }
+  return offset === length ? indices : null;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import { createEmptyGrid } from '@/lib/grid';
+import { clickShape, drawShape, getPlacedVertices, moveShapeEnd } from '@/core/shapes';
+import { getGridCenter, getSymmetryTransforms } from '@/core/symmetry';
+
+const stone = createCell('stone');
+const options = { filled: false, thickness: 1 };
+
+describe('clickShape', () => {
+  it('starts a new draft for every press with lines, rectangles and ellipses', () => {
+    const draft = [{ x: 0, y: 0 }, { x: 3, y: 3 }];
+    expect(clickShape('rect', draft, { x: 5, y: 1 })).toEqual({ draft: [{ x: 5, y: 1 }, { x: 5, y: 1 }] });
+  });
+
+  it('adds polygon vertices until the first or the last one is clicked again', () => {
+    let click = clickShape('polygon', null, { x: 0, y: 0 });
+    for (const point of [{ x: 4, y: 0 }, { x: 4, y: 4 }]) {
+      expect('draft' in click).toBe(true);
+      if ('draft' in click) click = clickShape('polygon', click.draft, point);
+    }
+    expect(click).toEqual({ draft: [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 4 }, { x: 4, y: 4 }] });
+
+    const draft = 'draft' in click ? click.draft : [];
+    const vertices = [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 4, y: 4 }];
+    expect(clickShape('polygon', draft, { x: 0, y: 0 })).toEqual({ vertices });
+    expect(clickShape('polygon', draft, { x: 4, y: 4 })).toEqual({ vertices });
+    expect(getPlacedVertices(draft)).toEqual(vertices);
+  });
+
+  it('does not close a polygon on its first vertex before it has three', () => {
+    expect(clickShape('polygon', [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 2, y: 0 }], { x: 0, y: 0 })).toEqual({
+      draft: [{ x: 0, y: 0 }, { x: 2, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }],
+    });
+  });
+});
+
+describe('moveShapeEnd', () => {
+  it('moves the last point and snaps it with constrain', () => {
+    const draft = [{ x: 0, y: 0 }, { x: 0, y: 0 }];
+    expect(moveShapeEnd('line', draft, { x: 5, y: 1 }, false)).toEqual([{ x: 0, y: 0 }, { x: 5, y: 1 }]);
+    expect(moveShapeEnd('line', draft, { x: 5, y: 1 }, true)).toEqual([{ x: 0, y: 0 }, { x: 5, y: 0 }]);
+    expect(moveShapeEnd('rect', draft, { x: 0, y: 0 }, false)).toBe(draft);
+  });
+});
+
+describe('drawShape', () => {
+  it('paints the shape with its symmetric copies', () => {
+    const transforms = getSymmetryTransforms({ mode: 'horizontal', center: getGridCenter(6, 1), folds: 4 });
+    const grid = drawShape(createEmptyGrid(6, 1), 'line', [{ x: 0, y: 0 }, { x: 1, y: 0 }], options, transforms, stone);
+    expect(grid[0].map(cell => (cell.blockId === 'air' ? '.' : '#')).join('')).toBe('##..##');
+  });
+});
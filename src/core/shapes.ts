@@ -0,0 +1,51 @@
+import type { Cell, Point } from '@/lib/grid';
+import { constrainShapeEnd, getShapePoints, paintPoints, type ShapeKind, type ShapeOptions } from '@/lib/shapes';
+import type { SymmetryTransform } from '@/core/symmetry';
+
+// A shape being drawn is the list of its points; the last one follows the
+// pointer.
+export type ShapeDraft = Point[];
+
+// What a press with a shape tool leads to: a draft to keep drawing, or the
+// vertices of a polygon that is finished.
+export type ShapeClick = { draft: ShapeDraft } | { vertices: Point[] };
+
+const isSamePoint = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+// The vertices placed so far, without the one that follows the pointer.
+export function getPlacedVertices(draft: ShapeDraft): Point[] {
+  return draft.slice(0, -1);
+}
+
+// Polygons get a vertex per click until a click on the last vertex (a double
+// click) or on the first one closes them; other shapes start over.
+export function clickShape(kind: ShapeKind, draft: ShapeDraft | null, point: Point): ShapeClick {
+  if (kind !== 'polygon' || !draft) return { draft: [point, point] };
+
+  const vertices = getPlacedVertices(draft);
+  const first = vertices[0];
+  const previous = vertices[vertices.length - 1];
+  if ((vertices.length > 2 && isSamePoint(point, first)) || isSamePoint(point, previous)) return { vertices };
+  return { draft: [...vertices, point, point] };
+}
+
+// Moves the end of the draft to the pointer, snapped with `constrain` (Shift)
+// as constrainShapeEnd does. The same draft comes back when nothing moves.
+export function moveShapeEnd(kind: ShapeKind, draft: ShapeDraft, point: Point, constrain: boolean): ShapeDraft {
+  const anchor = draft[draft.length - 2];
+  const end = constrain && kind !== 'polygon' ? constrainShapeEnd(kind, anchor, point) : point;
+  return isSamePoint(draft[draft.length - 1], end) ? draft : [...getPlacedVertices(draft), end];
+}
+
+// Paints the shape and every symmetric copy of it.
+export function drawShape(
+  grid: Cell[][],
+  kind: ShapeKind,
+  points: Point[],
+  options: ShapeOptions,
+  transforms: SymmetryTransform[],
+  cell: Cell,
+): Cell[][] {
+  const shapePoints = getShapePoints(kind, points, options);
+  return transforms.reduce((result, t) => paintPoints(result, shapePoints.map(t.point), t.cell(cell)), grid);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import { createEmptyGrid } from '@/lib/grid';
+import { createSingleLayer } from '@/lib/layers';
+import { createEditorStore } from '@/core/store';
+import { paintLine } from '@/core/tools';
+
+const stone = createCell('stone');
+
+function createStore() {
+  return createEditorStore(createSingleLayer(createEmptyGrid(4, 4)));
+}
+
+describe('editor store', () => {
+  it('notifies subscribers of changes only', () => {
+    const store = createStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.updateGrid(grid => paintLine(grid, { x: 0, y: 0 }, { x: 3, y: 0 }, stone), 'Кисть');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    store.updateGrid(grid => paintLine(grid, { x: 0, y: 0 }, { x: 3, y: 0 }, stone), 'Кисть');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    store.undo();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('undoes and redoes edits', () => {
+    const store = createStore();
+    const before = store.getState().layers;
+    store.updateGrid(grid => paintLine(grid, { x: 1, y: 1 }, { x: 1, y: 1 }, stone), 'Кисть');
+    const after = store.getState().layers;
+
+    store.undo();
+    expect(store.getState().layers[0].grid).toEqual(before[0].grid);
+    store.redo();
+    expect(store.getState().layers[0].grid).toEqual(after[0].grid);
+  });
+
+  it('records a stroke as one history entry', () => {
+    const store = createStore();
+    store.beginStroke();
+    store.updateGrid(grid => paintLine(grid, { x: 0, y: 0 }, { x: 0, y: 0 }, stone), 'Кисть');
+    store.updateGrid(grid => paintLine(grid, { x: 1, y: 0 }, { x: 1, y: 0 }, stone), 'Кисть');
+    store.endStroke('Кисть');
+    expect(store.getState().history.past).toHaveLength(1);
+
+    store.undo();
+    expect(store.getState().layers[0].grid.flat().every(cell => cell.blockId === 'air')).toBe(true);
+  });
+
+  it('drops a cancelled stroke', () => {
+    const store = createStore();
+    const before = store.getState().layers;
+    store.beginStroke();
+    store.updateGrid(grid => paintLine(grid, { x: 0, y: 0 }, { x: 2, y: 0 }, stone), 'Кисть');
+    store.cancelStroke();
+    expect(store.getState().layers).toBe(before);
+    expect(store.getState().history.past).toHaveLength(0);
+  });
+
+  it('leaves locked layers untouched', () => {
+    const store = createStore();
+    store.updateLayers(layers => layers.map(layer => ({ ...layer, locked: true })), 'Блокировка');
+    const state = store.getState();
+    store.updateGrid(grid => paintLine(grid, { x: 0, y: 0 }, { x: 3, y: 3 }, stone), 'Кисть');
+    expect(store.getState()).toBe(state);
+  });
+
+  it('restores saved layers only before the first edit', () => {
+    const saved = createSingleLayer(createEmptyGrid(2, 2));
+    const store = createStore();
+    expect(store.restoreLayers(saved)).toBe(true);
+    expect(store.getState().layers).toBe(saved);
+
+    const edited = createStore();
+    edited.updateGrid(grid => paintLine(grid, { x: 0, y: 0 }, { x: 0, y: 0 }, stone), 'Кисть');
+    const state = edited.getState();
+    expect(edited.restoreLayers(saved)).toBe(false);
+    expect(edited.getState()).toBe(state);
+
+    const stroking = createStore();
+    stroking.beginStroke();
+    expect(stroking.restoreLayers(saved)).toBe(false);
+  });
+});
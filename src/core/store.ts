@@ -0,0 +1,150 @@
+import type { Cell } from '@/lib/grid';
+import type { Layer } from '@/lib/layers';
+import {
+  applyEntry,
+  createEntry,
+  emptyHistory,
+  pushEntry,
+  type HistoryState,
+} from '@/lib/history';
+
+export interface EditorState {
+  layers: Layer[];
+  activeLayerId: string;
+  history: HistoryState;
+  // Layers before the stroke in progress, if any.
+  strokeBase: Layer[] | null;
+}
+
+// The layers and their history, outside of any UI framework. Every change
+// replaces the state object and notifies the subscribers.
+export interface EditorStore {
+  getState: () => EditorState;
+  subscribe: (listener: () => void) => () => void;
+  updateLayers: (updater: (layers: Layer[]) => Layer[], label: string) => void;
+  updateGrid: (updater: (grid: Cell[][]) => Cell[][], label: string) => void;
+  replaceLayers: (layers: Layer[]) => void;
+  restoreLayers: (layers: Layer[]) => boolean;
+  setActiveLayerId: (id: string) => void;
+  beginStroke: () => void;
+  endStroke: (label: string) => void;
+  cancelStroke: () => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+function record(s: EditorState, base: Layer[], label: string): EditorState {
+  const entry = createEntry(label, base, s.layers);
+  if (!entry) return s;
+  return { ...s, history: pushEntry(s.history, entry) };
+}
+
+// Undo can bring back a layer list without the active layer; the topmost
+// layer takes over then.
+export function getActiveLayer(s: EditorState): Layer {
+  return s.layers.find(layer => layer.id === s.activeLayerId) ?? s.layers[s.layers.length - 1];
+}
+
+export function createEditorStore(layers: Layer[]): EditorStore {
+  const initialLayers = layers;
+  let state: EditorState = {
+    layers,
+    activeLayerId: layers[layers.length - 1].id,
+    history: emptyHistory,
+    strokeBase: null,
+  };
+  const listeners = new Set<() => void>();
+
+  const update = (updater: (s: EditorState) => EditorState) => {
+    const next = updater(state);
+    if (next === state) return;
+    state = next;
+    listeners.forEach(listener => listener());
+  };
+
+  const replaceLayers = (layers: Layer[]) =>
+    update(() => ({ layers, activeLayerId: layers[layers.length - 1].id, history: emptyHistory, strokeBase: null }));
+
+  return {
+    getState: () => state,
+
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    // Inside a stroke the layers are updated in place and the whole stroke
+    // is recorded as a single entry by endStroke.
+    updateLayers: (updater, label) =>
+      update(s => {
+        const next = { ...s, layers: updater(s.layers) };
+        if (next.layers === s.layers) return s;
+        if (s.strokeBase) return next;
+        return record(next, s.layers, label);
+      }),
+
+    // Edits the active layer; locked layers are left untouched.
+    updateGrid: (updater, label) =>
+      update(s => {
+        const active = getActiveLayer(s);
+        if (active.locked) return s;
+        const grid = updater(active.grid);
+        if (grid === active.grid) return s;
+        const next = { ...s, layers: s.layers.map(layer => (layer === active ? { ...layer, grid } : layer)) };
+        if (s.strokeBase) return next;
+        return record(next, s.layers, label);
+      }),
+
+    replaceLayers,
+
+    // Brings back saved layers unless they were edited since the store was
+    // created, so nothing drawn while the save was loading is lost.
+    restoreLayers: layers => {
+      if (state.layers !== initialLayers || state.strokeBase) return false;
+      replaceLayers(layers);
+      return true;
+    },
+
+    setActiveLayerId: activeLayerId => update(s => (s.activeLayerId === activeLayerId ? s : { ...s, activeLayerId })),
+
+    beginStroke: () => update(s => (s.strokeBase ? s : { ...s, strokeBase: s.layers })),
+
+    endStroke: label =>
+      update(s => {
+        if (!s.strokeBase) return s;
+        return record({ ...s, strokeBase: null }, s.strokeBase, label);
+      }),
+
+    // Drops the stroke in progress without recording it.
+    cancelStroke: () =>
+      update(s => (s.strokeBase ? { ...s, layers: s.strokeBase, strokeBase: null } : s)),
+
+    undo: () =>
+      update(s => {
+        const entry = s.history.past[s.history.past.length - 1];
+        if (!entry || s.strokeBase) return s;
+        return {
+          ...s,
+          layers: applyEntry(s.layers, entry, 'undo'),
+          history: {
+            past: s.history.past.slice(0, -1),
+            future: [entry, ...s.history.future],
+          },
+        };
+      }),
+
+    redo: () =>
+      update(s => {
+        const entry = s.history.future[0];
+        if (!entry || s.strokeBase) return s;
+        return {
+          ...s,
+          layers: applyEntry(s.layers, entry, 'redo'),
+          history: {
+            past: [...s.history.past, entry],
+            future: s.history.future.slice(1),
+          },
+        };
+      }),
+  };
+}
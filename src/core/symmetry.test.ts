@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import { createEmptyGrid, type Cell, type Point } from '@/lib/grid';
+import { paintLine } from '@/core/tools';
+import {
+  dragSymmetryCenter,
+  getGridCenter,
+  getSymmetricPoints,
+  getSymmetryHandleAt,
+  getSymmetryTransforms,
+  snapToHalfCell,
+  type Symmetry,
+} from '@/core/symmetry';
+
+const stone = createCell('stone');
+
+function symmetry(mode: Symmetry['mode'], center: Point, folds = 4): Symmetry {
+  return { mode, center, folds };
+}
+
+function paint(width: number, height: number, s: Symmetry, from: Point, to: Point): string[] {
+  const grid = getSymmetryTransforms(s).reduce(
+    (g, t) => paintLine(g, t.point(from), t.point(to), t.cell(stone)),
+    createEmptyGrid(width, height) as Cell[][],
+  );
+  return grid.map(row => row.map(cell => (cell.blockId === 'air' ? '.' : '#')).join(''));
+}
+
+describe('mirror symmetry', () => {
+  it('mirrors across a line between cells on an even grid', () => {
+    expect(paint(6, 1, symmetry('horizontal', getGridCenter(6, 1)), { x: 0, y: 0 }, { x: 1, y: 0 })).toEqual(['##..##']);
+  });
+
+  it('keeps the middle column in place on an odd grid', () => {
+    const s = symmetry('horizontal', getGridCenter(5, 1));
+    expect(paint(5, 1, s, { x: 2, y: 0 }, { x: 2, y: 0 })).toEqual(['..#..']);
+    expect(paint(5, 1, s, { x: 1, y: 0 }, { x: 1, y: 0 })).toEqual(['.#.#.']);
+  });
+
+  it('mirrors top to bottom', () => {
+    expect(paint(1, 4, symmetry('vertical', { x: 0, y: 2 }), { x: 0, y: 0 }, { x: 0, y: 0 })).toEqual([
+      '#', '.', '.', '#',
+    ]);
+  });
+
+  it('paints four copies in quad mode', () => {
+    expect(paint(4, 4, symmetry('quad', { x: 2, y: 2 }), { x: 0, y: 0 }, { x: 0, y: 0 })).toEqual([
+      '#..#',
+      '....',
+      '....',
+      '#..#',
+    ]);
+  });
+
+  it('turns blocks with the copy', () => {
+    const stairs = createCell('oak_stairs', { facing: 'east', half: 'bottom', shape: 'outer_left' });
+    const [, x, y] = getSymmetryTransforms(symmetry('quad', { x: 2, y: 2 }));
+    expect(x.cell(stairs).state).toMatchObject({ facing: 'west', half: 'bottom', shape: 'outer_right' });
+    expect(y.cell(stairs).state).toMatchObject({ facing: 'east', half: 'top' });
+  });
+});
+
+describe('radial symmetry', () => {
+  it('rotates a cell around the center', () => {
+    const transforms = getSymmetryTransforms(symmetry('radial', { x: 2, y: 2 }, 4));
+    expect(getSymmetricPoints(transforms, [{ x: 0, y: 0 }])).toEqual([
+      { x: 0, y: 0 },
+      { x: 3, y: 0 },
+      { x: 3, y: 3 },
+      { x: 0, y: 3 },
+    ]);
+  });
+
+  it('keeps the cell under an odd center', () => {
+    const transforms = getSymmetryTransforms(symmetry('radial', { x: 1.5, y: 1.5 }, 6));
+    expect(getSymmetricPoints(transforms, [{ x: 1, y: 1 }])).toEqual([{ x: 1, y: 1 }]);
+  });
+
+  it('swaps the axis of pillars on quarter turns', () => {
+    const log = createCell('oak_log', { axis: 'x' });
+    const [, quarter, half] = getSymmetryTransforms(symmetry('radial', { x: 2, y: 2 }, 4));
+    expect(quarter.cell(log).state).toEqual({ axis: 'y' });
+    expect(half.cell(log).state).toEqual({ axis: 'x' });
+  });
+});
+
+describe('grips', () => {
+  const s = symmetry('quad', { x: 4, y: 2 });
+
+  it('finds the grip under the pointer outside the grid', () => {
+    expect(getSymmetryHandleAt(s, { x: 66, y: -10 }, 8, 4, 16)).toBe('x');
+    expect(getSymmetryHandleAt(s, { x: 64, y: 76 }, 8, 4, 16)).toBe('x');
+    expect(getSymmetryHandleAt(s, { x: -12, y: 30 }, 8, 4, 16)).toBe('y');
+    expect(getSymmetryHandleAt(s, { x: 64, y: 32 }, 8, 4, 16)).toBeNull();
+  });
+
+  it('has only the grips of the axes in use', () => {
+    expect(getSymmetryHandleAt(symmetry('horizontal', { x: 4, y: 2 }), { x: -12, y: 32 }, 8, 4, 16)).toBeNull();
+    expect(getSymmetryHandleAt(symmetry('none', { x: 4, y: 2 }), { x: 64, y: -12 }, 8, 4, 16)).toBeNull();
+  });
+
+  it('snaps to half a cell', () => {
+    expect(snapToHalfCell(3.2)).toBe(3);
+    expect(snapToHalfCell(3.4)).toBe(3.5);
+  });
+
+  it('drags the center along the axis of the grip and keeps it on the grid', () => {
+    const s = symmetry('quad', { x: 4, y: 2 });
+    expect(dragSymmetryCenter(s, 'x', { x: 53, y: 500 }, 8, 4, 16).center).toEqual({ x: 3.5, y: 2 });
+    expect(dragSymmetryCenter(s, 'y', { x: 0, y: -40 }, 8, 4, 16).center).toEqual({ x: 4, y: 0 });
+    expect(dragSymmetryCenter(s, 'x', { x: 66, y: 0 }, 8, 4, 16)).toBe(s);
+  });
+});
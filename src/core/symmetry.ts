@@ -0,0 +1,178 @@
+import { createCell, flipState, mirrorState, turnState } from '@/lib/blockState';
+import type { Cell, Point } from '@/lib/grid';
+
+// 'horizontal' mirrors left to right across a vertical axis, 'vertical'
+// mirrors top to bottom, 'quad' does both and 'radial' repeats the drawing
+// `folds` times around the center.
+export type SymmetryMode = 'none' | 'horizontal' | 'vertical' | 'quad' | 'radial';
+
+export const MIN_FOLDS = 2;
+export const MAX_FOLDS = 8;
+
+// The center is given in grid lines, in steps of half a cell: on a line
+// between two cells the halves mirror each other (an even width), through the
+// middle of a cell that column stays in place (an odd width).
+export interface Symmetry {
+  mode: SymmetryMode;
+  center: Point;
+  folds: number;
+}
+
+// One copy of what is drawn: where a cell goes and how the block turns.
+export interface SymmetryTransform {
+  point: (point: Point) => Point;
+  cell: (cell: Cell) => Cell;
+}
+
+export type SymmetryHandle = 'x' | 'y';
+
+const identity: SymmetryTransform = { point: p => p, cell: c => c };
+
+function mapState(cell: Cell, map: (blockId: string, state?: Cell['state']) => Cell['state']): Cell {
+  return cell.state ? createCell(cell.blockId, map(cell.blockId, cell.state)) : cell;
+}
+
+const mirrorCell = (cell: Cell) => mapState(cell, mirrorState);
+const flipCell = (cell: Cell) => mapState(cell, flipState);
+const turnCell = (cell: Cell) => mapState(cell, turnState);
+
+// The middle of the grid, snapped to half a cell.
+export function getGridCenter(width: number, height: number): Point {
+  return { x: width / 2, y: height / 2 };
+}
+
+export function snapToHalfCell(value: number): number {
+  return Math.round(value * 2) / 2;
+}
+
+function mirrorX(center: Point): SymmetryTransform {
+  return { point: p => ({ x: 2 * center.x - p.x - 1, y: p.y }), cell: mirrorCell };
+}
+
+function mirrorY(center: Point): SymmetryTransform {
+  return { point: p => ({ x: p.x, y: 2 * center.y - p.y - 1 }), cell: flipCell };
+}
+
+function rotation(center: Point, step: number, folds: number): SymmetryTransform {
+  const angle = (2 * Math.PI * step) / folds;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  // Quarter turns of the block are the only ones the wall can show.
+  const degrees = (360 * step) / folds;
+  const cell = degrees === 180 ? (c: Cell) => flipCell(mirrorCell(c))
+    : degrees === 90 || degrees === 270 ? turnCell
+    : identity.cell;
+  return {
+    point: p => {
+      // Cells are rotated by their middle, y pointing down like on screen.
+      const dx = p.x + 0.5 - center.x;
+      const dy = p.y + 0.5 - center.y;
+      // Adding zero turns the -0 that rounding can give into 0.
+      return {
+        x: Math.round(center.x + dx * cos - dy * sin - 0.5) + 0,
+        y: Math.round(center.y + dx * sin + dy * cos - 0.5) + 0,
+      };
+    },
+    cell,
+  };
+}
+
+// Every copy of what is drawn, the drawing itself first.
+export function getSymmetryTransforms({ mode, center, folds }: Symmetry): SymmetryTransform[] {
+  switch (mode) {
+    case 'none':
+      return [identity];
+    case 'horizontal':
+      return [identity, mirrorX(center)];
+    case 'vertical':
+      return [identity, mirrorY(center)];
+    case 'quad': {
+      const x = mirrorX(center);
+      const y = mirrorY(center);
+      return [identity, x, y, { point: p => y.point(x.point(p)), cell: c => y.cell(x.cell(c)) }];
+    }
+    case 'radial':
+      return Array.from({ length: folds }, (_, step) => (step === 0 ? identity : rotation(center, step, folds)));
+  }
+}
+
+// The points with all their copies, each point once.
+export function getSymmetricPoints(transforms: SymmetryTransform[], points: Point[]): Point[] {
+  const seen = new Set<string>();
+  const result: Point[] = [];
+  for (const transform of transforms) {
+    for (const point of points) {
+      const copy = transform.point(point);
+      const key = `${copy.x},${copy.y}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      result.push(copy);
+    }
+  }
+  return result;
+}
+
+// Grips for dragging the center sit just outside the grid, at both ends of
+// each axis, so they never cover cells that can be painted. Both in pixels.
+export const SYMMETRY_GRIP_OFFSET = 12;
+export const SYMMETRY_GRIP_RADIUS = 6;
+
+function hasAxis(mode: SymmetryMode, axis: SymmetryHandle): boolean {
+  if (mode === 'quad' || mode === 'radial') return true;
+  return axis === 'x' ? mode === 'horizontal' : mode === 'vertical';
+}
+
+// Where the grips are drawn, in pixels from the top left corner of the grid.
+export function getSymmetryGrips(
+  { mode, center }: Symmetry,
+  width: number,
+  height: number,
+  cellSize: number,
+): { handle: SymmetryHandle; point: Point }[] {
+  const cx = center.x * cellSize;
+  const cy = center.y * cellSize;
+  const grips: { handle: SymmetryHandle; point: Point }[] = [];
+  if (hasAxis(mode, 'x')) {
+    grips.push({ handle: 'x', point: { x: cx, y: -SYMMETRY_GRIP_OFFSET } });
+    grips.push({ handle: 'x', point: { x: cx, y: height * cellSize + SYMMETRY_GRIP_OFFSET } });
+  }
+  if (hasAxis(mode, 'y')) {
+    grips.push({ handle: 'y', point: { x: -SYMMETRY_GRIP_OFFSET, y: cy } });
+    grips.push({ handle: 'y', point: { x: width * cellSize + SYMMETRY_GRIP_OFFSET, y: cy } });
+  }
+  return grips;
+}
+
+// The grip under a point given in pixels from the top left corner of the
+// grid: 'x' moves the center sideways, 'y' up and down.
+export function getSymmetryHandleAt(
+  symmetry: Symmetry,
+  point: Point,
+  width: number,
+  height: number,
+  cellSize: number,
+): SymmetryHandle | null {
+  if (symmetry.mode === 'none') return null;
+  const grip = getSymmetryGrips(symmetry, width, height, cellSize).find(
+    ({ point: p }) => Math.hypot(point.x - p.x, point.y - p.y) <= SYMMETRY_GRIP_RADIUS + 2
+  );
+  return grip?.handle ?? null;
+}
+
+// Moves the center along the axis of the grip to a point in pixels from the
+// top left corner of the grid, snapped to half a cell and kept on the grid.
+// The same symmetry comes back when the center stays.
+export function dragSymmetryCenter(
+  symmetry: Symmetry,
+  handle: SymmetryHandle,
+  point: Point,
+  width: number,
+  height: number,
+  cellSize: number,
+): Symmetry {
+  const { center } = symmetry;
+  const next = handle === 'x'
+    ? { ...center, x: Math.max(0, Math.min(width, snapToHalfCell(point.x / cellSize))) }
+    : { ...center, y: Math.max(0, Math.min(height, snapToHalfCell(point.y / cellSize))) };
+  return next.x === center.x && next.y === center.y ? symmetry : { ...symmetry, center: next };
+}
@@ -0,0 +1,88 @@
+import { createEmptyGrid, type Cell } from '@/lib/grid';
+
+export interface Template {
+  name: string;
+  grid: Cell[][];
+}
+
+// Templates are laid out for a 64×48 canvas and shifted so they stay
+// centered on canvases of any size; blocks that do not fit are skipped.
+const LAYOUT_WIDTH = 64;
+const LAYOUT_HEIGHT = 48;
+
+function createTemplateCanvas(width: number, height: number) {
+  const template = createEmptyGrid(width, height);
+  const offsetX = Math.floor((width - LAYOUT_WIDTH) / 2);
+  const offsetY = Math.floor((height - LAYOUT_HEIGHT) / 2);
+
+  const set = (x: number, y: number, blockId: string) => {
+    const tx = x + offsetX;
+    const ty = y + offsetY;
+    if (tx >= 0 && tx < width && ty >= 0 && ty < height) {
+      template[ty][tx] = { blockId };
+    }
+  };
+
+  return { template, set };
+}
+
+function generateHouseTemplate(width: number, height: number): Cell[][] {
+  const { template, set } = createTemplateCanvas(width, height);
+
+  for (let y = 25; y < 35; y++) {
+    for (let x = 20; x < 40; x++) {
+      if (y === 25 || y === 34 || x === 20 || x === 39) {
+        set(x, y, 'oak_planks');
+      }
+    }
+  }
+
+  for (let i = 0; i < 10; i++) {
+    set(25 + i, 24 - i, 'bricks');
+    set(34 - i, 24 - i, 'bricks');
+  }
+
+  return template;
+}
+
+// The crown is random, so every tree looks a little different.
+function generateTreeTemplate(width: number, height: number, random: () => number): Cell[][] {
+  const { template, set } = createTemplateCanvas(width, height);
+
+  for (let y = 30; y < 40; y++) {
+    set(32, y, 'oak_log');
+  }
+
+  for (let y = 22; y < 30; y++) {
+    for (let x = 28; x < 37; x++) {
+      if (random() > 0.3) {
+        set(x, y, 'oak_log');
+      }
+    }
+  }
+
+  return template;
+}
+
+function generateSwordTemplate(width: number, height: number): Cell[][] {
+  const { template, set } = createTemplateCanvas(width, height);
+
+  for (let i = 0; i < 20; i++) {
+    set(32, 15 + i, 'iron_block');
+  }
+
+  set(31, 35, 'brown_wool');
+  set(32, 35, 'brown_wool');
+  set(33, 35, 'brown_wool');
+  set(32, 36, 'brown_wool');
+
+  return template;
+}
+
+export function generateTemplates(width: number, height: number, random: () => number = Math.random): Template[] {
+  return [
+    { name: 'Дом', grid: generateHouseTemplate(width, height) },
+    { name: 'Дерево', grid: generateTreeTemplate(width, height, random) },
+    { name: 'Меч', grid: generateSwordTemplate(width, height) },
+  ];
+}
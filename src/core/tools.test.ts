@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { createCell } from '@/lib/blockState';
+import { createEmptyGrid, type Cell } from '@/lib/grid';
+import { floodFill, floodFillSymmetric, paintBrushLine, paintLine, paintSymmetricBrushLine } from '@/core/tools';
+import { getGridCenter, getSymmetryTransforms } from '@/core/symmetry';
+
+const stone = createCell('stone');
+const dirt = createCell('dirt');
+
+// One character per block: `.` air, `#` stone, `d` dirt.
+function parse(rows: string[]): Cell[][] {
+  const cells: Record<string, Cell> = { '.': { blockId: 'air' }, '#': stone, d: dirt };
+  return rows.map(row => [...row].map(char => cells[char]));
+}
+
+function format(grid: Cell[][]): string[] {
+  const chars: Record<string, string> = { air: '.', stone: '#', dirt: 'd' };
+  return grid.map(row => row.map(cell => chars[cell.blockId] ?? '?').join(''));
+}
+
+describe('floodFill', () => {
+  it('fills the area around the start point', () => {
+    const grid = parse([
+      '.....',
+      '.###.',
+      '.#.#.',
+      '.###.',
+    ]);
+    expect(format(floodFill(grid, { x: 2, y: 2 }, dirt))).toEqual([
+      '.....',
+      '.###.',
+      '.#d#.',
+      '.###.',
+    ]);
+  });
+
+  it('does not cross diagonals', () => {
+    const grid = parse([
+      '.#',
+      '#.',
+    ]);
+    expect(format(floodFill(grid, { x: 0, y: 0 }, dirt))).toEqual([
+      'd#',
+      '#.',
+    ]);
+  });
+
+  it('fills a whole uniform grid', () => {
+    const grid = createEmptyGrid(7, 5);
+    const filled = floodFill(grid, { x: 6, y: 4 }, stone);
+    expect(filled.flat().every(cell => cell === stone)).toBe(true);
+  });
+
+  it('fills a 1×1 grid', () => {
+    expect(format(floodFill(parse(['.']), { x: 0, y: 0 }, stone))).toEqual(['#']);
+  });
+
+  it('returns the same grid when the block is already there', () => {
+    const grid = parse(['##', '##']);
+    expect(floodFill(grid, { x: 1, y: 1 }, createCell('stone'))).toBe(grid);
+  });
+
+  it.each([
+    { x: -1, y: 0 },
+    { x: 0, y: -1 },
+    { x: 3, y: 0 },
+    { x: 0, y: 2 },
+  ])('ignores a start point outside the grid at ($x, $y)', start => {
+    const grid = parse(['...', '...']);
+    expect(floodFill(grid, start, stone)).toBe(grid);
+  });
+
+  it('keeps the rows it does not change', () => {
+    const grid = parse([
+      '###',
+      '#.#',
+      '###',
+      '...',
+    ]);
+    const filled = floodFill(grid, { x: 1, y: 1 }, dirt);
+    expect(filled[0]).toBe(grid[0]);
+    expect(filled[1]).not.toBe(grid[1]);
+    expect(filled[2]).toBe(grid[2]);
+    expect(filled[3]).toBe(grid[3]);
+  });
+
+  it('treats block states as different blocks', () => {
+    const logY = createCell('oak_log', { axis: 'y' });
+    const logX = createCell('oak_log', { axis: 'x' });
+    const grid = [[logY, logY, logX, logY]];
+    const filled = floodFill(grid, { x: 0, y: 0 }, stone);
+    expect(filled[0]).toEqual([stone, stone, logX, logY]);
+  });
+
+  it('matches cells that are equal but not the same object', () => {
+    const grid = [[createCell('oak_log', { axis: 'x' }), createCell('oak_log', { axis: 'x' })]];
+    expect(floodFill(grid, { x: 0, y: 0 }, stone)[0]).toEqual([stone, stone]);
+  });
+
+  it('handles areas larger than the call stack would allow', () => {
+    const grid = createEmptyGrid(512, 512);
+    const filled = floodFill(grid, { x: 0, y: 0 }, stone);
+    expect(filled[511][511]).toBe(stone);
+  });
+});
+
+describe('paintLine', () => {
+  it('paints both ends and everything between', () => {
+    const grid = parse(['.....']);
+    expect(format(paintLine(grid, { x: 4, y: 0 }, { x: 1, y: 0 }, stone))).toEqual(['.####']);
+  });
+
+  it('skips points outside the grid', () => {
+    const grid = parse(['...', '...']);
+    expect(format(paintLine(grid, { x: -2, y: 0 }, { x: 1, y: 0 }, stone))).toEqual(['##.', '...']);
+  });
+
+  it('returns the same grid when nothing changes', () => {
+    const grid = parse(['###']);
+    expect(paintLine(grid, { x: 0, y: 0 }, { x: 2, y: 0 }, stone)).toBe(grid);
+  });
+});
+
+describe('paintBrushLine', () => {
+  it('paints the whole brush along the line', () => {
+    const grid = parse(['.....', '.....', '.....']);
+    const painted = paintBrushLine(grid, { x: 1, y: 1 }, { x: 3, y: 1 }, { size: 3, shape: 'diamond' }, () => stone);
+    expect(format(painted)).toEqual([
+      '.###.',
+      '#####',
+      '.###.',
+    ]);
+  });
+
+  it('takes the block for every cell from the picker', () => {
+    const grid = parse(['....']);
+    const painted = paintBrushLine(grid, { x: 0, y: 0 }, { x: 3, y: 0 }, { size: 1, shape: 'square' }, p => (p.x % 2 ? dirt : stone));
+    expect(format(painted)).toEqual(['#d#d']);
+  });
+
+  it('returns the same grid when nothing changes', () => {
+    const grid = parse(['##', '##']);
+    expect(paintBrushLine(grid, { x: 0, y: 0 }, { x: 0, y: 0 }, { size: 4, shape: 'square' }, () => stone)).toBe(grid);
+  });
+});
+
+describe('symmetric tools', () => {
+  const transforms = getSymmetryTransforms({ mode: 'horizontal', center: getGridCenter(6, 2), folds: 4 });
+
+  it('paints the mirrored copy of a brush line', () => {
+    const brush = { size: 1, shape: 'square' } as const;
+    const painted = paintSymmetricBrushLine(parse(['......', '......']), { x: 0, y: 0 }, { x: 1, y: 0 }, brush, () => stone, transforms);
+    expect(format(painted)).toEqual(['##..##', '......']);
+  });
+
+  it('fills the mirrored area too', () => {
+    const grid = parse([
+      '.#..#.',
+      '.#..#.',
+    ]);
+    expect(format(floodFillSymmetric(grid, { x: 0, y: 0 }, dirt, transforms))).toEqual([
+      'd#..#d',
+      'd#..#d',
+    ]);
+  });
+});
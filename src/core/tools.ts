@@ -0,0 +1,102 @@
+import { isSameBlock } from '@/lib/blockState';
+import { getGridSize, type Cell, type Point } from '@/lib/grid';
+import { getLinePoints, paintPoints } from '@/lib/shapes';
+import { getBrushStrokePoints, type Brush } from '@/core/brush';
+import { isInBounds } from '@/core/grid';
+import type { SymmetryTransform } from '@/core/symmetry';
+
+// Edits return the grid they were given when nothing changes, and otherwise
+// a new grid that shares every row they did not touch.
+
+export function paintLine(grid: Cell[][], from: Point, to: Point, cell: Cell): Cell[][] {
+  return paintPoints(grid, getLinePoints(from, to), cell);
+}
+
+// Paints with a brush of any size, taking the block for every cell from
+// `pick`, as the mix brush does. Points outside the grid are skipped.
+export function paintBrushLine(
+  grid: Cell[][],
+  from: Point,
+  to: Point,
+  brush: Brush,
+  pick: (point: Point) => Cell,
+): Cell[][] {
+  const size = getGridSize(grid);
+  const newGrid = [...grid];
+  const copied = new Set<number>();
+  let changed = false;
+
+  for (const point of getBrushStrokePoints(from, to, brush)) {
+    if (!isInBounds(size, point)) continue;
+    const { x, y } = point;
+    const cell = pick(point);
+    if (isSameBlock(newGrid[y][x], cell)) continue;
+    if (!copied.has(y)) {
+      newGrid[y] = [...grid[y]];
+      copied.add(y);
+    }
+    newGrid[y][x] = cell;
+    changed = true;
+  }
+  return changed ? newGrid : grid;
+}
+
+// Replaces the area of the same block around `start`, without diagonals.
+export function floodFill(grid: Cell[][], start: Point, replacement: Cell): Cell[][] {
+  const { width, height } = getGridSize(grid);
+  if (!isInBounds({ width, height }, start)) return grid;
+
+  const target = grid[start.y][start.x];
+  if (isSameBlock(target, replacement)) return grid;
+
+  // Cells filled so far, row by row: the cell at (x, y) is filled[y * width + x].
+  const filled = new Uint8Array(width * height);
+  const stack = [start];
+  filled[start.y * width + start.x] = 1;
+  const visit = (x: number, y: number) => {
+    const i = y * width + x;
+    if (!filled[i] && isSameBlock(grid[y][x], target)) {
+      filled[i] = 1;
+      stack.push({ x, y });
+    }
+  };
+
+  while (stack.length > 0) {
+    const { x, y } = stack.pop()!;
+    if (x > 0) visit(x - 1, y);
+    if (x < width - 1) visit(x + 1, y);
+    if (y > 0) visit(x, y - 1);
+    if (y < height - 1) visit(x, y + 1);
+  }
+
+  return grid.map((row, y) => {
+    const offset = y * width;
+    if (!filled.subarray(offset, offset + width).includes(1)) return row;
+    return row.map((cell, x) => (filled[offset + x] ? replacement : cell));
+  });
+}
+
+// The brush line and every symmetric copy of it; blocks are turned with
+// their copy.
+export function paintSymmetricBrushLine(
+  grid: Cell[][],
+  from: Point,
+  to: Point,
+  brush: Brush,
+  pick: (point: Point) => Cell,
+  transforms: SymmetryTransform[],
+): Cell[][] {
+  return transforms.reduce(
+    (result, t) => paintBrushLine(result, t.point(from), t.point(to), brush, point => t.cell(pick(point))),
+    grid
+  );
+}
+
+export function floodFillSymmetric(
+  grid: Cell[][],
+  start: Point,
+  replacement: Cell,
+  transforms: SymmetryTransform[],
+): Cell[][] {
+  return transforms.reduce((result, t) => floodFill(result, t.point(start), t.cell(replacement)), grid);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ZOOM, MIN_ZOOM, fitToViewport, getCellAt, getPinchView, zoomAt } from '@/core/viewport';
+
+describe('zoomAt', () => {
+  it('keeps the cell under the anchor in place', () => {
+    const view = { zoom: 1, pan: { x: 30, y: -10 } };
+    const anchor = { x: 125, y: 70 };
+    const zoomed = zoomAt(view, 2.5, anchor);
+    expect(zoomed.zoom).toBe(2.5);
+    expect(getCellAt(anchor, zoomed.pan, 16 * zoomed.zoom)).toEqual(getCellAt(anchor, view.pan, 16));
+  });
+
+  it('clamps the zoom', () => {
+    const view = { zoom: 1, pan: { x: 0, y: 0 } };
+    expect(zoomAt(view, 100, { x: 0, y: 0 }).zoom).toBe(MAX_ZOOM);
+    expect(zoomAt(view, 0, { x: 0, y: 0 }).zoom).toBe(MIN_ZOOM);
+  });
+});
+
+describe('getPinchView', () => {
+  const start = { zoom: 1, pan: { x: 0, y: 0 } };
+
+  it('zooms by the change in finger distance', () => {
+    const view = getPinchView(start, [{ x: 40, y: 50 }, { x: 60, y: 50 }], [{ x: 30, y: 50 }, { x: 70, y: 50 }]);
+    expect(view.zoom).toBe(2);
+    expect(view.pan).toEqual({ x: -50, y: -50 });
+  });
+
+  it('pans with the midpoint', () => {
+    const view = getPinchView(start, [{ x: 0, y: 0 }, { x: 10, y: 0 }], [{ x: 5, y: 20 }, { x: 15, y: 20 }]);
+    expect(view).toEqual({ zoom: 1, pan: { x: 5, y: 20 } });
+  });
+});
+
+describe('fitToViewport', () => {
+  it('centers the bounds at the largest zoom that fits', () => {
+    const view = fitToViewport({ x: 10, y: 0, width: 20, height: 10 }, { width: 640, height: 480 }, 16);
+    expect(view.zoom).toBe(2);
+    expect(view.pan).toEqual({ x: -320, y: 80 });
+  });
+
+  it('leaves room for the padding', () => {
+    const view = fitToViewport({ x: 0, y: 0, width: 10, height: 10 }, { width: 200, height: 200 }, 16, 20);
+    expect(view.zoom).toBe(1);
+    expect(view.pan).toEqual({ x: 20, y: 20 });
+  });
+
+  it('does not zoom in past the limit on a single block', () => {
+    const view = fitToViewport({ x: 0, y: 0, width: 1, height: 1 }, { width: 800, height: 800 }, 16);
+    expect(view.zoom).toBe(MAX_ZOOM);
+  });
+});
@@ -0,0 +1,88 @@
+import type { Bounds, Point } from '@/lib/grid';
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 5;
+
+// How the grid is placed on the canvas: the zoom factor and the offset of
+// the grid's top left corner in pixels.
+export interface ViewTransform {
+  zoom: number;
+  pan: Point;
+}
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+// The cell under a point given in pixels from the top left corner of the
+// canvas; it may lie outside the grid.
+export function getCellAt(point: Point, pan: Point, cellSize: number): Point {
+  return {
+    x: Math.floor((point.x - pan.x) / cellSize),
+    y: Math.floor((point.y - pan.y) / cellSize),
+  };
+}
+
+export function clampZoom(zoom: number): number {
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+}
+
+// Changes the zoom while the grid point under `anchor` stays where it is.
+export function zoomAt(view: ViewTransform, zoom: number, anchor: Point): ViewTransform {
+  const next = clampZoom(zoom);
+  const scale = next / view.zoom;
+  return {
+    zoom: next,
+    pan: {
+      x: anchor.x - (anchor.x - view.pan.x) * scale,
+      y: anchor.y - (anchor.y - view.pan.y) * scale,
+    },
+  };
+}
+
+function getDistance(a: Point, b: Point): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function getMidpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+// The view after two fingers moved from `from` to `to`: the distance between
+// them scales the grid and their midpoint drags it along.
+export function getPinchView(start: ViewTransform, from: [Point, Point], to: [Point, Point]): ViewTransform {
+  const startDistance = getDistance(...from);
+  const zoom = startDistance > 0 ? start.zoom * (getDistance(...to) / startDistance) : start.zoom;
+  const startCenter = getMidpoint(...from);
+  const center = getMidpoint(...to);
+  const view = zoomAt(start, zoom, startCenter);
+  return {
+    zoom: view.zoom,
+    pan: { x: view.pan.x + center.x - startCenter.x, y: view.pan.y + center.y - startCenter.y },
+  };
+}
+
+// The largest zoom at which `bounds` fits into the viewport with `padding`
+// pixels around it, with the bounds centered.
+export function fitToViewport(
+  bounds: Bounds,
+  viewport: ViewportSize,
+  baseCellSize: number,
+  padding = 0,
+): ViewTransform {
+  const width = Math.max(1, viewport.width - padding * 2);
+  const height = Math.max(1, viewport.height - padding * 2);
+  const zoom = clampZoom(Math.min(
+    width / (bounds.width * baseCellSize),
+    height / (bounds.height * baseCellSize),
+  ));
+  const cellSize = baseCellSize * zoom;
+  return {
+    zoom,
+    pan: {
+      x: (viewport.width - bounds.width * cellSize) / 2 - bounds.x * cellSize,
+      y: (viewport.height - bounds.height * cellSize) / 2 - bounds.y * cellSize,
+    },
+  };
+}
@@ -1,133 +1,175 @@
-const BASE_URL = 'https://raw.githubusercontent.com/InventivetalentDev/minecraft-assets/1.21.4/assets/minecraft/textures/block';
+// Files from assets/minecraft/textures/block of Minecraft 1.21.4. They are
+// packed into a sprite atlas at build time, see plugins/textureAtlas.ts.
+//
+// Blocks whose look depends on their state have an extra `<id>_top` texture:
+// the end of a pillar lying along Z or the upper half of a door.
+//
+// Animated textures are vertical strips of frames described by a
+// `<file>.mcmeta` next to them.
+export const blockTextureFiles: Record<string, string> = {
+  'stone': 'stone.png',
+  'granite': 'granite.png',
+  'diorite': 'diorite.png',
+  'andesite': 'andesite.png',
+  'deepslate': 'deepslate.png',
+  'grass_block': 'grass_block_top.png',
+  'dirt': 'dirt.png',
+  'coarse_dirt': 'coarse_dirt.png',
+  'podzol': 'podzol_top.png',
+  'sand': 'sand.png',
+  'red_sand': 'red_sand.png',
+  'gravel': 'gravel.png',
+  'water': 'water_still.png',
+  'lava': 'lava_still.png',
+  'oak_log': 'oak_log.png',
+  'oak_log_top': 'oak_log_top.png',
+  'spruce_log': 'spruce_log.png',
+  'spruce_log_top': 'spruce_log_top.png',
+  'birch_log': 'birch_log.png',
+  'birch_log_top': 'birch_log_top.png',
+  'jungle_log': 'jungle_log.png',
+  'jungle_log_top': 'jungle_log_top.png',
+  'acacia_log': 'acacia_log.png',
+  'acacia_log_top': 'acacia_log_top.png',
+  'dark_oak_log': 'dark_oak_log.png',
+  'dark_oak_log_top': 'dark_oak_log_top.png',
+  'mangrove_log': 'mangrove_log.png',
+  'mangrove_log_top': 'mangrove_log_top.png',
+  'cherry_log': 'cherry_log.png',
+  'cherry_log_top': 'cherry_log_top.png',
+  'oak_planks': 'oak_planks.png',
+  'spruce_planks': 'spruce_planks.png',
+  'birch_planks': 'birch_planks.png',
+  'jungle_planks': 'jungle_planks.png',
+  'acacia_planks': 'acacia_planks.png',
+  'dark_oak_planks': 'dark_oak_planks.png',
+  'mangrove_planks': 'mangrove_planks.png',
+  'cherry_planks': 'cherry_planks.png',
+  'bamboo_planks': 'bamboo_planks.png',
+  'oak_stairs': 'oak_planks.png',
+  'spruce_stairs': 'spruce_planks.png',
+  'oak_slab': 'oak_planks.png',
+  'spruce_slab': 'spruce_planks.png',
+  'oak_door': 'oak_door_bottom.png',
+  'oak_door_top': 'oak_door_top.png',
+  'spruce_door': 'spruce_door_bottom.png',
+  'spruce_door_top': 'spruce_door_top.png',
+  'oak_fence': 'oak_planks.png',
+  'spruce_fence': 'spruce_planks.png',
+  'cobblestone': 'cobblestone.png',
+  'mossy_cobblestone': 'mossy_cobblestone.png',
+  'stone_bricks': 'stone_bricks.png',
+  'mossy_stone_bricks': 'mossy_stone_bricks.png',
+  'bricks': 'bricks.png',
+  'cobblestone_stairs': 'cobblestone.png',
+  'stone_brick_stairs': 'stone_bricks.png',
+  'brick_stairs': 'bricks.png',
+  'stone_slab': 'stone.png',
+  'cobblestone_slab': 'cobblestone.png',
+  'stone_brick_slab': 'stone_bricks.png',
+  'brick_slab': 'bricks.png',
+  'glass': 'glass.png',
+  'white_wool': 'white_wool.png',
+  'light_gray_wool': 'light_gray_wool.png',
+  'gray_wool': 'gray_wool.png',
+  'black_wool': 'black_wool.png',
+  'brown_wool': 'brown_wool.png',
+  'red_wool': 'red_wool.png',
+  'orange_wool': 'orange_wool.png',
+  'yellow_wool': 'yellow_wool.png',
+  'lime_wool': 'lime_wool.png',
+  'green_wool': 'green_wool.png',
+  'cyan_wool': 'cyan_wool.png',
+  'light_blue_wool': 'light_blue_wool.png',
+  'blue_wool': 'blue_wool.png',
+  'purple_wool': 'purple_wool.png',
+  'magenta_wool': 'magenta_wool.png',
+  'pink_wool': 'pink_wool.png',
+  'white_concrete': 'white_concrete.png',
+  'light_gray_concrete': 'light_gray_concrete.png',
+  'gray_concrete': 'gray_concrete.png',
+  'black_concrete': 'black_concrete.png',
+  'brown_concrete': 'brown_concrete.png',
+  'red_concrete': 'red_concrete.png',
+  'orange_concrete': 'orange_concrete.png',
+  'yellow_concrete': 'yellow_concrete.png',
+  'lime_concrete': 'lime_concrete.png',
+  'green_concrete': 'green_concrete.png',
+  'cyan_concrete': 'cyan_concrete.png',
+  'light_blue_concrete': 'light_blue_concrete.png',
+  'blue_concrete': 'blue_concrete.png',
+  'purple_concrete': 'purple_concrete.png',
+  'magenta_concrete': 'magenta_concrete.png',
+  'pink_concrete': 'pink_concrete.png',
+  'white_terracotta': 'white_terracotta.png',
+  'light_gray_terracotta': 'light_gray_terracotta.png',
+  'gray_terracotta': 'gray_terracotta.png',
+  'black_terracotta': 'black_terracotta.png',
+  'brown_terracotta': 'brown_terracotta.png',
+  'red_terracotta': 'red_terracotta.png',
+  'orange_terracotta': 'orange_terracotta.png',
+  'yellow_terracotta': 'yellow_terracotta.png',
+  'lime_terracotta': 'lime_terracotta.png',
+  'green_terracotta': 'green_terracotta.png',
+  'cyan_terracotta': 'cyan_terracotta.png',
+  'light_blue_terracotta': 'light_blue_terracotta.png',
+  'blue_terracotta': 'blue_terracotta.png',
+  'purple_terracotta': 'purple_terracotta.png',
+  'magenta_terracotta': 'magenta_terracotta.png',
+  'pink_terracotta': 'pink_terracotta.png',
+  'gold_block': 'gold_block.png',
+  'iron_block': 'iron_block.png',
+  'diamond_block': 'diamond_block.png',
+  'emerald_block': 'emerald_block.png',
+  'netherite_block': 'netherite_block.png',
+  'coal_block': 'coal_block.png',
+  'lapis_block': 'lapis_block.png',
+  'redstone_block': 'redstone_block.png',
+  'copper_block': 'copper_block.png',
+  'obsidian': 'obsidian.png',
+  'crying_obsidian': 'crying_obsidian.png',
+  'netherrack': 'netherrack.png',
+  'soul_sand': 'soul_sand.png',
+  'soul_soil': 'soul_soil.png',
+  'glowstone': 'glowstone.png',
+  'magma_block': 'magma.png',
+  'end_stone': 'end_stone.png',
+  'purpur_block': 'purpur_block.png',
+  'quartz_block': 'quartz_block_side.png',
+  'quartz_pillar': 'quartz_pillar.png',
+  'quartz_pillar_top': 'quartz_pillar_top.png',
+  'prismarine': 'prismarine.png',
+  'dark_prismarine': 'dark_prismarine.png',
+  'sea_lantern': 'sea_lantern.png',
+  'ice': 'ice.png',
+  'packed_ice': 'packed_ice.png',
+  'blue_ice': 'blue_ice.png',
+  'snow_block': 'snow.png',
+  'clay': 'clay.png',
+  'hay_block': 'hay_block_side.png',
+  'hay_block_top': 'hay_block_top.png',
+  'mushroom_stem': 'mushroom_stem.png',
+  'red_mushroom_block': 'red_mushroom_block.png',
+  'brown_mushroom_block': 'brown_mushroom_block.png',
+  'sponge': 'sponge.png',
+  'honeycomb_block': 'honeycomb_block.png',
+  'honey_block': 'honey_block_side.png',
+  'slime_block': 'slime_block.png',
+  'tnt': 'tnt_side.png',
+  'bookshelf': 'bookshelf.png',
+  'moss_block': 'moss_block.png',
+  'mud': 'mud.png',
+  'packed_mud': 'packed_mud.png',
+  'mud_bricks': 'mud_bricks.png',
+  'sculk': 'sculk.png',
+  'amethyst_block': 'amethyst_block.png',
+  'tuff': 'tuff.png',
+  'calcite': 'calcite.png',
+  'dripstone_block': 'dripstone_block.png',
+  'reinforced_deepslate': 'reinforced_deepslate_side.png',
+};
 
-export const blockTextureUrls: Record<string, string> = {
-  'air': '',
-  'stone': `${BASE_URL}/stone.png`,
-  'granite': `${BASE_URL}/granite.png`,
-  'diorite': `${BASE_URL}/diorite.png`,
-  'andesite': `${BASE_URL}/andesite.png`,
-  'deepslate': `${BASE_URL}/deepslate.png`,
-  'grass_block': `${BASE_URL}/grass_block_top.png`,
-  'dirt': `${BASE_URL}/dirt.png`,
-  'coarse_dirt': `${BASE_URL}/coarse_dirt.png`,
-  'podzol': `${BASE_URL}/podzol_top.png`,
-  'sand': `${BASE_URL}/sand.png`,
-  'red_sand': `${BASE_URL}/red_sand.png`,
-  'gravel': `${BASE_URL}/gravel.png`,
-  'oak_log': `${BASE_URL}/oak_log_top.png`,
-  'spruce_log': `${BASE_URL}/spruce_log_top.png`,
-  'birch_log': `${BASE_URL}/birch_log_top.png`,
-  'jungle_log': `${BASE_URL}/jungle_log_top.png`,
-  'acacia_log': `${BASE_URL}/acacia_log_top.png`,
-  'dark_oak_log': `${BASE_URL}/dark_oak_log_top.png`,
-  'mangrove_log': `${BASE_URL}/mangrove_log_top.png`,
-  'cherry_log': `${BASE_URL}/cherry_log_top.png`,
-  'oak_planks': `${BASE_URL}/oak_planks.png`,
-  'spruce_planks': `${BASE_URL}/spruce_planks.png`,
-  'birch_planks': `${BASE_URL}/birch_planks.png`,
-  'jungle_planks': `${BASE_URL}/jungle_planks.png`,
-  'acacia_planks': `${BASE_URL}/acacia_planks.png`,
-  'dark_oak_planks': `${BASE_URL}/dark_oak_planks.png`,
-  'mangrove_planks': `${BASE_URL}/mangrove_planks.png`,
-  'cherry_planks': `${BASE_URL}/cherry_planks.png`,
-  'bamboo_planks': `${BASE_URL}/bamboo_planks.png`,
-  'cobblestone': `${BASE_URL}/cobblestone.png`,
-  'mossy_cobblestone': `${BASE_URL}/mossy_cobblestone.png`,
-  'stone_bricks': `${BASE_URL}/stone_bricks.png`,
-  'mossy_stone_bricks': `${BASE_URL}/mossy_stone_bricks.png`,
-  'bricks': `${BASE_URL}/bricks.png`,
-  'glass': `${BASE_URL}/glass.png`,
-  'white_wool': `${BASE_URL}/white_wool.png`,
-  'light_gray_wool': `${BASE_URL}/light_gray_wool.png`,
-  'gray_wool': `${BASE_URL}/gray_wool.png`,
-  'black_wool': `${BASE_URL}/black_wool.png`,
-  'brown_wool': `${BASE_URL}/brown_wool.png`,
-  'red_wool': `${BASE_URL}/red_wool.png`,
-  'orange_wool': `${BASE_URL}/orange_wool.png`,
-  'yellow_wool': `${BASE_URL}/yellow_wool.png`,
-  'lime_wool': `${BASE_URL}/lime_wool.png`,
-  'green_wool': `${BASE_URL}/green_wool.png`,
-  'cyan_wool': `${BASE_URL}/cyan_wool.png`,
-  'light_blue_wool': `${BASE_URL}/light_blue_wool.png`,
-  'blue_wool': `${BASE_URL}/blue_wool.png`,
-  'purple_wool': `${BASE_URL}/purple_wool.png`,
-  'magenta_wool': `${BASE_URL}/magenta_wool.png`,
-  'pink_wool': `${BASE_URL}/pink_wool.png`,
-  'white_concrete': `${BASE_URL}/white_concrete.png`,
-  'light_gray_concrete': `${BASE_URL}/light_gray_concrete.png`,
-  'gray_concrete': `${BASE_URL}/gray_concrete.png`,
-  'black_concrete': `${BASE_URL}/black_concrete.png`,
-  'brown_concrete': `${BASE_URL}/brown_concrete.png`,
-  'red_concrete': `${BASE_URL}/red_concrete.png`,
-  'orange_concrete': `${BASE_URL}/orange_concrete.png`,
-  'yellow_concrete': `${BASE_URL}/yellow_concrete.png`,
-  'lime_concrete': `${BASE_URL}/lime_concrete.png`,
-  'green_concrete': `${BASE_URL}/green_concrete.png`,
-  'cyan_concrete': `${BASE_URL}/cyan_concrete.png`,
-  'light_blue_concrete': `${BASE_URL}/light_blue_concrete.png`,
-  'blue_concrete': `${BASE_URL}/blue_concrete.png`,
-  'purple_concrete': `${BASE_URL}/purple_concrete.png`,
-  'magenta_concrete': `${BASE_URL}/magenta_concrete.png`,
-  'pink_concrete': `${BASE_URL}/pink_concrete.png`,
-  'white_terracotta': `${BASE_URL}/white_terracotta.png`,
-  'light_gray_terracotta': `${BASE_URL}/light_gray_terracotta.png`,
-  'gray_terracotta': `${BASE_URL}/gray_terracotta.png`,
-  'black_terracotta': `${BASE_URL}/black_terracotta.png`,
-  'brown_terracotta': `${BASE_URL}/brown_terracotta.png`,
-  'red_terracotta': `${BASE_URL}/red_terracotta.png`,
-  'orange_terracotta': `${BASE_URL}/orange_terracotta.png`,
-  'yellow_terracotta': `${BASE_URL}/yellow_terracotta.png`,
-  'lime_terracotta': `${BASE_URL}/lime_terracotta.png`,
-  'green_terracotta': `${BASE_URL}/green_terracotta.png`,
-  'cyan_terracotta': `${BASE_URL}/cyan_terracotta.png`,
-  'light_blue_terracotta': `${BASE_URL}/light_blue_terracotta.png`,
-  'blue_terracotta': `${BASE_URL}/blue_terracotta.png`,
-  'purple_terracotta': `${BASE_URL}/purple_terracotta.png`,
-  'magenta_terracotta': `${BASE_URL}/magenta_terracotta.png`,
-  'pink_terracotta': `${BASE_URL}/pink_terracotta.png`,
-  'gold_block': `${BASE_URL}/gold_block.png`,
-  'iron_block': `${BASE_URL}/iron_block.png`,
-  'diamond_block': `${BASE_URL}/diamond_block.png`,
-  'emerald_block': `${BASE_URL}/emerald_block.png`,
-  'netherite_block': `${BASE_URL}/netherite_block.png`,
-  'coal_block': `${BASE_URL}/coal_block.png`,
-  'lapis_block': `${BASE_URL}/lapis_block.png`,
-  'redstone_block': `${BASE_URL}/redstone_block.png`,
-  'copper_block': `${BASE_URL}/copper_block.png`,
-  'obsidian': `${BASE_URL}/obsidian.png`,
-  'crying_obsidian': `${BASE_URL}/crying_obsidian.png`,
-  'netherrack': `${BASE_URL}/netherrack.png`,
-  'soul_sand': `${BASE_URL}/soul_sand.png`,
-  'soul_soil': `${BASE_URL}/soul_soil.png`,
-  'glowstone': `${BASE_URL}/glowstone.png`,
-  'end_stone': `${BASE_URL}/end_stone.png`,
-  'purpur_block': `${BASE_URL}/purpur_block.png`,
-  'quartz_block': `${BASE_URL}/quartz_block_side.png`,
-  'prismarine': `${BASE_URL}/prismarine.png`,
-  'dark_prismarine': `${BASE_URL}/dark_prismarine.png`,
-  'sea_lantern': `${BASE_URL}/sea_lantern.png`,
-  'ice': `${BASE_URL}/ice.png`,
-  'packed_ice': `${BASE_URL}/packed_ice.png`,
-  'blue_ice': `${BASE_URL}/blue_ice.png`,
-  'snow_block': `${BASE_URL}/snow.png`,
-  'clay': `${BASE_URL}/clay.png`,
-  'mushroom_stem': `${BASE_URL}/mushroom_stem.png`,
-  'red_mushroom_block': `${BASE_URL}/red_mushroom_block.png`,
-  'brown_mushroom_block': `${BASE_URL}/brown_mushroom_block.png`,
-  'sponge': `${BASE_URL}/sponge.png`,
-  'honeycomb_block': `${BASE_URL}/honeycomb_block.png`,
-  'honey_block': `${BASE_URL}/honey_block_side.png`,
-  'slime_block': `${BASE_URL}/slime_block.png`,
-  'tnt': `${BASE_URL}/tnt_side.png`,
-  'bookshelf': `${BASE_URL}/bookshelf.png`,
-  'moss_block': `${BASE_URL}/moss_block.png`,
-  'mud': `${BASE_URL}/mud.png`,
-  'packed_mud': `${BASE_URL}/packed_mud.png`,
-  'mud_bricks': `${BASE_URL}/mud_bricks.png`,
-  'sculk': `${BASE_URL}/sculk.png`,
-  'amethyst_block': `${BASE_URL}/amethyst_block.png`,
-  'tuff': `${BASE_URL}/tuff.png`,
-  'calcite': `${BASE_URL}/calcite.png`,
-  'dripstone_block': `${BASE_URL}/dripstone_block.png`,
-  'reinforced_deepslate': `${BASE_URL}/reinforced_deepslate_side.png`,
+// Grayscale textures the game colors per biome; drawn with the plains color.
+export const blockTextureTints: Record<string, string> = {
+  'water': '#3F76E4',
 };
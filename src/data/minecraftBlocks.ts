@@ -1,10 +1,31 @@
+// How a block is drawn in the editor. Everything but 'cube' depends on the
+// block state.
+export type BlockShape = 'cube' | 'pillar' | 'stairs' | 'slab' | 'door' | 'fence';
+
+// Block state properties with their allowed values; the first value is the
+// default, as in the game.
+export type BlockStateDefinition = Record<string, readonly string[]>;
+
 export interface MinecraftBlock {
   id: string;
   name: string;
   color: string;
   category: string;
+  shape?: BlockShape;
+  states?: BlockStateDefinition;
 }
 
+const horizontalFacing = ['north', 'east', 'south', 'west'] as const;
+
+const pillarStates: BlockStateDefinition = { axis: ['y', 'x', 'z'] };
+const stairsStates: BlockStateDefinition = {
+  facing: horizontalFacing,
+  half: ['bottom', 'top'],
+  shape: ['straight', 'inner_left', 'inner_right', 'outer_left', 'outer_right'],
+};
+const slabStates: BlockStateDefinition = { type: ['bottom', 'top', 'double'] };
+const doorStates: BlockStateDefinition = { facing: horizontalFacing, half: ['lower', 'upper'] };
+
 export const minecraftBlocks: MinecraftBlock[] = [
   { id: 'air', name: 'Воздух', color: 'transparent', category: 'Основное' },
   { id: 'stone', name: 'Камень', color: '#7F7F7F', category: 'Блоки' },
@@ -19,14 +40,16 @@ export const minecraftBlocks: MinecraftBlock[] = [
   { id: 'sand', name: 'Песок', color: '#E0D4A7', category: 'Природа' },
   { id: 'red_sand', name: 'Красный песок', color: '#D97D43', category: 'Природа' },
   { id: 'gravel', name: 'Гравий', color: '#8D8D8D', category: 'Природа' },
-  { id: 'oak_log', name: 'Дубовое бревно', color: '#9F7F4F', category: 'Дерево' },
-  { id: 'spruce_log', name: 'Еловое бревно', color: '#5E3C1D', category: 'Дерево' },
-  { id: 'birch_log', name: 'Берёзовое бревно', color: '#D9D9D9', category: 'Дерево' },
-  { id: 'jungle_log', name: 'Тропическое бревно', color: '#7F5B2F', category: 'Дерево' },
-  { id: 'acacia_log', name: 'Акациевое бревно', color: '#AF6F3F', category: 'Дерево' },
-  { id: 'dark_oak_log', name: 'Тёмное дубовое бревно', color: '#3F2F1F', category: 'Дерево' },
-  { id: 'mangrove_log', name: 'Мангровое бревно', color: '#8B4726', category: 'Дерево' },
-  { id: 'cherry_log', name: 'Вишнёвое бревно', color: '#2D1D1F', category: 'Дерево' },
+  { id: 'water', name: 'Вода', color: '#3F76E4', category: 'Природа' },
+  { id: 'lava', name: 'Лава', color: '#D45A12', category: 'Природа' },
+  { id: 'oak_log', name: 'Дубовое бревно', color: '#9F7F4F', category: 'Дерево', shape: 'pillar', states: pillarStates },
+  { id: 'spruce_log', name: 'Еловое бревно', color: '#5E3C1D', category: 'Дерево', shape: 'pillar', states: pillarStates },
+  { id: 'birch_log', name: 'Берёзовое бревно', color: '#D9D9D9', category: 'Дерево', shape: 'pillar', states: pillarStates },
+  { id: 'jungle_log', name: 'Тропическое бревно', color: '#7F5B2F', category: 'Дерево', shape: 'pillar', states: pillarStates },
+  { id: 'acacia_log', name: 'Акациевое бревно', color: '#AF6F3F', category: 'Дерево', shape: 'pillar', states: pillarStates },
+  { id: 'dark_oak_log', name: 'Тёмное дубовое бревно', color: '#3F2F1F', category: 'Дерево', shape: 'pillar', states: pillarStates },
+  { id: 'mangrove_log', name: 'Мангровое бревно', color: '#8B4726', category: 'Дерево', shape: 'pillar', states: pillarStates },
+  { id: 'cherry_log', name: 'Вишнёвое бревно', color: '#2D1D1F', category: 'Дерево', shape: 'pillar', states: pillarStates },
   { id: 'oak_planks', name: 'Дубовые доски', color: '#9F7F4F', category: 'Дерево' },
   { id: 'spruce_planks', name: 'Еловые доски', color: '#6F4F2F', category: 'Дерево' },
   { id: 'birch_planks', name: 'Берёзовые доски', color: '#D4CA9C', category: 'Дерево' },
@@ -36,11 +59,26 @@ export const minecraftBlocks: MinecraftBlock[] = [
   { id: 'mangrove_planks', name: 'Мангровые доски', color: '#8B3E2F', category: 'Дерево' },
   { id: 'cherry_planks', name: 'Вишнёвые доски', color: '#E8B4A8', category: 'Дерево' },
   { id: 'bamboo_planks', name: 'Бамбуковые доски', color: '#C8C85F', category: 'Дерево' },
+  { id: 'oak_stairs', name: 'Дубовые ступени', color: '#9F7F4F', category: 'Дерево', shape: 'stairs', states: stairsStates },
+  { id: 'spruce_stairs', name: 'Еловые ступени', color: '#6F4F2F', category: 'Дерево', shape: 'stairs', states: stairsStates },
+  { id: 'oak_slab', name: 'Дубовая плита', color: '#9F7F4F', category: 'Дерево', shape: 'slab', states: slabStates },
+  { id: 'spruce_slab', name: 'Еловая плита', color: '#6F4F2F', category: 'Дерево', shape: 'slab', states: slabStates },
+  { id: 'oak_door', name: 'Дубовая дверь', color: '#8C6A3D', category: 'Дерево', shape: 'door', states: doorStates },
+  { id: 'spruce_door', name: 'Еловая дверь', color: '#684E31', category: 'Дерево', shape: 'door', states: doorStates },
+  { id: 'oak_fence', name: 'Дубовый забор', color: '#9F7F4F', category: 'Дерево', shape: 'fence' },
+  { id: 'spruce_fence', name: 'Еловый забор', color: '#6F4F2F', category: 'Дерево', shape: 'fence' },
   { id: 'cobblestone', name: 'Булыжник', color: '#7F7F7F', category: 'Блоки' },
   { id: 'mossy_cobblestone', name: 'Замшелый булыжник', color: '#627F5C', category: 'Блоки' },
   { id: 'stone_bricks', name: 'Каменные кирпичи', color: '#797979', category: 'Блоки' },
   { id: 'mossy_stone_bricks', name: 'Замшелые каменные кирпичи', color: '#617558', category: 'Блоки' },
   { id: 'bricks', name: 'Кирпичи', color: '#965A4A', category: 'Блоки' },
+  { id: 'cobblestone_stairs', name: 'Булыжные ступени', color: '#7F7F7F', category: 'Блоки', shape: 'stairs', states: stairsStates },
+  { id: 'stone_brick_stairs', name: 'Ступени из каменных кирпичей', color: '#797979', category: 'Блоки', shape: 'stairs', states: stairsStates },
+  { id: 'brick_stairs', name: 'Кирпичные ступени', color: '#965A4A', category: 'Блоки', shape: 'stairs', states: stairsStates },
+  { id: 'stone_slab', name: 'Каменная плита', color: '#7F7F7F', category: 'Блоки', shape: 'slab', states: slabStates },
+  { id: 'cobblestone_slab', name: 'Булыжная плита', color: '#7F7F7F', category: 'Блоки', shape: 'slab', states: slabStates },
+  { id: 'stone_brick_slab', name: 'Плита из каменных кирпичей', color: '#797979', category: 'Блоки', shape: 'slab', states: slabStates },
+  { id: 'brick_slab', name: 'Кирпичная плита', color: '#965A4A', category: 'Блоки', shape: 'slab', states: slabStates },
   { id: 'glass', name: 'Стекло', color: '#E8F9FA', category: 'Блоки' },
   { id: 'white_wool', name: 'Белая шерсть', color: '#FFFFFF', category: 'Шерсть' },
   { id: 'light_gray_wool', name: 'Светло-серая шерсть', color: '#9D9D97', category: 'Шерсть' },
@@ -105,9 +143,11 @@ export const minecraftBlocks: MinecraftBlock[] = [
   { id: 'soul_sand', name: 'Песок душ', color: '#554134', category: 'Незер' },
   { id: 'soul_soil', name: 'Почва душ', color: '#4C3C2D', category: 'Незер' },
   { id: 'glowstone', name: 'Светящийся камень', color: '#F9D88C', category: 'Незер' },
+  { id: 'magma_block', name: 'Магмовый блок', color: '#8E3F1F', category: 'Незер' },
   { id: 'end_stone', name: 'Камень Края', color: '#E3E8A1', category: 'Энд' },
   { id: 'purpur_block', name: 'Пурпурный блок', color: '#A97BA9', category: 'Энд' },
   { id: 'quartz_block', name: 'Кварцевый блок', color: '#EBE7E0', category: 'Блоки' },
+  { id: 'quartz_pillar', name: 'Кварцевая колонна', color: '#EBE6DF', category: 'Блоки', shape: 'pillar', states: pillarStates },
   { id: 'prismarine', name: 'Призмарин', color: '#5F9B92', category: 'Океан' },
   { id: 'dark_prismarine', name: 'Тёмный призмарин', color: '#344D3D', category: 'Океан' },
   { id: 'sea_lantern', name: 'Морской фонарь', color: '#B1D2CF', category: 'Океан' },
@@ -116,6 +156,7 @@ export const minecraftBlocks: MinecraftBlock[] = [
   { id: 'blue_ice', name: 'Синий лёд', color: '#74ACF8', category: 'Природа' },
   { id: 'snow_block', name: 'Снежный блок', color: '#FFFEFE', category: 'Природа' },
   { id: 'clay', name: 'Глина', color: '#A0A7B3', category: 'Природа' },
+  { id: 'hay_block', name: 'Сноп сена', color: '#A68B0C', category: 'Природа', shape: 'pillar', states: pillarStates },
   { id: 'mushroom_stem', name: 'Ножка гриба', color: '#CCC4B7', category: 'Природа' },
   { id: 'red_mushroom_block', name: 'Блок красного гриба', color: '#C02524', category: 'Природа' },
   { id: 'brown_mushroom_block', name: 'Блок коричневого гриба', color: '#8F6B4D', category: 'Природа' },
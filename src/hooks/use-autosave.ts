@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { deserializeLayers, flattenLayers, serializeLayers, type Layer } from '@/lib/layers';
+import { loadAutosave, saveAutosave, type Project } from '@/lib/storage';
+import { emptyTextureSet } from '@/lib/textures';
+import { renderThumbnail } from '@/lib/thumbnail';
+
+const AUTOSAVE_DELAY = 500;
+
+interface AutosaveOptions {
+  layers: Layer[];
+  projectId: string | null;
+  restoreLayers: (layers: Layer[]) => boolean;
+  createProject: (name: string, layers: Layer[], thumbnail: string) => Promise<Project>;
+  onRestoreProject: (projectId: string | null) => void;
+}
+
+// Brings back the last session and then keeps saving the layers. Anything
+// drawn before the autosave has loaded wins over it; the previous session
+// then goes to the project library before the next autosave replaces it.
+// Autosaving stays off if that fails, so it is never lost.
+export function useAutosave({ layers, projectId, restoreLayers, createProject, onRestoreProject }: AutosaveOptions) {
+  const [isRestored, setIsRestored] = useState(false);
+
+  useEffect(() => {
+    const restore = async () => {
+      const saved = await loadAutosave();
+      if (!saved) return true;
+      const savedLayers = deserializeLayers(saved);
+      if (restoreLayers(savedLayers)) {
+        onRestoreProject(saved.projectId);
+        return true;
+      }
+      const name = `Автосохранение от ${new Date(saved.updatedAt).toLocaleString('ru')}`;
+      try {
+        await createProject(name, savedLayers, renderThumbnail(flattenLayers(savedLayers), emptyTextureSet.textures));
+      } catch {
+        toast.error('Не удалось сохранить прошлую постройку — автосохранение отключено');
+        return false;
+      }
+      toast.warning(`Холст уже изменён: прошлая постройка сохранена в проекты как «${name}»`);
+      return true;
+    };
+    restore()
+      .catch(() => {
+        toast.error('Не удалось восстановить автосохранение');
+        return true;
+      })
+      .then(setIsRestored);
+  }, [restoreLayers, createProject, onRestoreProject]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    const timeout = setTimeout(() => {
+      saveAutosave({ ...serializeLayers(layers), projectId, updatedAt: Date.now() })
+        .catch(() => toast.error('Не удалось автосохранить постройку'));
+    }, AUTOSAVE_DELAY);
+    return () => clearTimeout(timeout);
+  }, [layers, projectId, isRestored]);
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import type { ResourcePack } from '@/lib/resourcePack';
+import { applyResourcePack, emptyTextureSet, loadBlockTextures, type TextureSet } from '@/lib/textures';
+
+// The bundled textures with the active resource pack applied. Blocks keep
+// their flat colors until the textures have loaded, or if they fail to.
+export function useBlockTextures(activePack: ResourcePack | null): TextureSet {
+  const [baseTextureSet, setBaseTextureSet] = useState<TextureSet>(emptyTextureSet);
+  const [textureSet, setTextureSet] = useState<TextureSet>(emptyTextureSet);
+
+  useEffect(() => {
+    loadBlockTextures()
+      .then(setBaseTextureSet)
+      .catch(() => toast.error('Не удалось загрузить текстуры — использованы цвета блоков'));
+  }, []);
+
+  useEffect(() => {
+    if (!activePack) {
+      setTextureSet(baseTextureSet);
+      return;
+    }
+    let cancelled = false;
+    applyResourcePack(baseTextureSet, activePack)
+      .then(result => {
+        if (!cancelled) setTextureSet(result);
+      })
+      .catch(() => toast.error(`Не удалось применить ресурспак «${activePack.name}»`));
+    return () => {
+      cancelled = true;
+    };
+  }, [baseTextureSet, activePack]);
+
+  return textureSet;
+}
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useRef, type RefObject } from 'react';
+import { getGridSize, type Cell, type Point } from '@/lib/grid';
+import type { Layer } from '@/lib/layers';
+import {
+  CHUNK_SIZE,
+  chunkKey,
+  drawGridLines,
+  findChangedChunks,
+  getChunkResolution,
+  getVisibleChunks,
+  renderChunk,
+  type GridRange,
+} from '@/lib/chunks';
+import { getFrameTextures, type TextureSet } from '@/lib/textures';
+
+// Chunk bitmaps kept around, in pixels (4 bytes each); the ones used least
+// recently are dropped first.
+const MAX_CACHED_PIXELS = 16 * 1024 * 1024;
+
+interface Chunk {
+  canvas: HTMLCanvasElement;
+  animated: boolean;
+  lastUsed: number;
+}
+
+interface CanvasRendererOptions {
+  layers: Layer[];
+  cellSize: number;
+  pan: Point;
+  showGrid: boolean;
+  textureSet: TextureSet;
+  // Game tick of the animation clock to draw animated textures at.
+  animationTick: RefObject<number>;
+  // The canvas is only mounted while the editor tab is shown.
+  enabled: boolean;
+}
+
+// Draws the layers onto the editor canvas from cached chunk bitmaps. Changes
+// are collected and painted once per animation frame: edits redraw only the
+// chunks they touch, and chunks outside the viewport are never drawn.
+export function useCanvasRenderer(
+  canvasRef: RefObject<HTMLCanvasElement>,
+  containerRef: RefObject<HTMLDivElement>,
+  options: CanvasRendererOptions
+) {
+  const optionsRef = useRef(options);
+  const chunksRef = useRef(new Map<string, Chunk>());
+  const resolutionRef = useRef(0);
+  // Chunks to paint again, or null for the whole viewport.
+  const dirtyRef = useRef<Set<string> | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const paintedLayersRef = useRef<Layer[] | null>(null);
+
+  const paint = useCallback(() => {
+    frameRef.current = null;
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !container || !ctx) return;
+
+    const { layers, cellSize, pan, showGrid, textureSet, animationTick } = optionsRef.current;
+    const chunks = chunksRef.current;
+    let dirty = dirtyRef.current;
+    dirtyRef.current = new Set();
+
+    if (canvas.width !== container.clientWidth || canvas.height !== container.clientHeight) {
+      canvas.width = container.clientWidth;
+      canvas.height = container.clientHeight;
+      dirty = null;
+    }
+
+    const resolution = getChunkResolution(cellSize);
+    if (resolution !== resolutionRef.current) {
+      resolutionRef.current = resolution;
+      chunks.clear();
+      dirty = null;
+    }
+
+    const { width, height } = getGridSize(layers[0].grid);
+    const visible = getVisibleChunks({ cellSize, pan, width: canvas.width, height: canvas.height }, width, height);
+    const textures = getFrameTextures(textureSet, animationTick.current ?? 0);
+    const isAnimated = (cell: Cell) =>
+      textureSet.animations.has(cell.blockId) || textureSet.animations.has(`${cell.blockId}_top`);
+    const now = performance.now();
+
+    ctx.save();
+    ctx.translate(pan.x, pan.y);
+    ctx.imageSmoothingEnabled = false;
+    if (!dirty) ctx.clearRect(-pan.x, -pan.y, canvas.width, canvas.height);
+
+    for (let cy = visible.y0; cy <= visible.y1; cy++) {
+      for (let cx = visible.x0; cx <= visible.x1; cx++) {
+        const key = chunkKey(cx, cy);
+        if (dirty && !dirty.has(key)) continue;
+
+        let chunk = chunks.get(key);
+        if (!chunk) {
+          const chunkCanvas = document.createElement('canvas');
+          const animated = renderChunk(chunkCanvas, layers, cx, cy, resolution, textures, isAnimated);
+          chunk = { canvas: chunkCanvas, animated, lastUsed: now };
+          chunks.set(key, chunk);
+        }
+        chunk.lastUsed = now;
+
+        const area: GridRange = {
+          x0: cx * CHUNK_SIZE,
+          y0: cy * CHUNK_SIZE,
+          x1: Math.min((cx + 1) * CHUNK_SIZE, width),
+          y1: Math.min((cy + 1) * CHUNK_SIZE, height),
+        };
+        const left = area.x0 * cellSize;
+        const top = area.y0 * cellSize;
+        const right = area.x1 * cellSize;
+        const bottom = area.y1 * cellSize;
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(left, top, right - left, bottom - top);
+        ctx.clip();
+        if (dirty) ctx.clearRect(left, top, right - left, bottom - top);
+        ctx.drawImage(chunk.canvas, left, top, right - left, bottom - top);
+        if (showGrid) drawGridLines(ctx, area, cellSize);
+        ctx.restore();
+      }
+    }
+    ctx.restore();
+
+    // Once over the budget, chunks that were not drawn just now are evicted,
+    // oldest first.
+    let pixels = 0;
+    for (const chunk of chunks.values()) pixels += chunk.canvas.width * chunk.canvas.height;
+    if (pixels > MAX_CACHED_PIXELS) {
+      const evictable = [...chunks].filter(([, chunk]) => chunk.lastUsed !== now);
+      evictable.sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+      for (const [key, chunk] of evictable) {
+        if (pixels <= MAX_CACHED_PIXELS) break;
+        pixels -= chunk.canvas.width * chunk.canvas.height;
+        chunks.delete(key);
+      }
+    }
+  }, [canvasRef, containerRef]);
+
+  const schedule = useCallback((chunks: Iterable<string> | null) => {
+    if (chunks === null) {
+      dirtyRef.current = null;
+    } else if (dirtyRef.current) {
+      for (const key of chunks) dirtyRef.current.add(key);
+    }
+    frameRef.current ??= requestAnimationFrame(paint);
+  }, [paint]);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const { layers, cellSize, pan, showGrid, textureSet, enabled } = options;
+
+  // Edits mark the chunks they changed; anything else about the layers
+  // (order, visibility, opacity, size) drops the whole cache.
+  useEffect(() => {
+    const before = paintedLayersRef.current;
+    paintedLayersRef.current = layers;
+    const changed = before ? findChangedChunks(before, layers) : null;
+    if (changed) {
+      for (const key of changed) chunksRef.current.delete(key);
+      schedule(changed);
+    } else {
+      chunksRef.current.clear();
+      schedule(null);
+    }
+  }, [layers, schedule]);
+
+  useEffect(() => {
+    chunksRef.current.clear();
+    schedule(null);
+  }, [textureSet, schedule]);
+
+  useEffect(() => {
+    schedule(null);
+  }, [cellSize, pan, showGrid, schedule]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!enabled || !container) return;
+    schedule(null);
+    const observer = new ResizeObserver(() => schedule(null));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [enabled, containerRef, schedule]);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  // Repaints the chunks with animated textures for the current tick.
+  const redrawAnimated = useCallback(() => {
+    const animated = [...chunksRef.current].filter(([, chunk]) => chunk.animated).map(([key]) => key);
+    for (const key of animated) chunksRef.current.delete(key);
+    schedule(animated);
+  }, [schedule]);
+
+  return { redrawAnimated };
+}
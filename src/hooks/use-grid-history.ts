@@ -0,0 +1,28 @@
+import { useState, useSyncExternalStore } from 'react';
+import type { Layer } from '@/lib/layers';
+import { createEditorStore, getActiveLayer } from '@/core/store';
+
+// Connects a component to an editor store created on first render.
+export function useGridHistory(createInitialLayers: () => Layer[]) {
+  const [store] = useState(() => createEditorStore(createInitialLayers()));
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+  const activeLayer = getActiveLayer(state);
+
+  return {
+    layers: state.layers,
+    activeLayer,
+    grid: activeLayer.grid,
+    updateGrid: store.updateGrid,
+    updateLayers: store.updateLayers,
+    replaceLayers: store.replaceLayers,
+    restoreLayers: store.restoreLayers,
+    setActiveLayerId: store.setActiveLayerId,
+    beginStroke: store.beginStroke,
+    endStroke: store.endStroke,
+    cancelStroke: store.cancelStroke,
+    undo: store.undo,
+    redo: store.redo,
+    undoLabel: state.history.past[state.history.past.length - 1]?.label,
+    redoLabel: state.history.future[0]?.label,
+  };
+}
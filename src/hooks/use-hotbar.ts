@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getBlock } from '@/lib/blockState';
+import {
+  addRecentBlock,
+  createHotbar,
+  parseHotbar,
+  setHotbarSlot,
+  swapHotbarSlots,
+  type Hotbar,
+} from '@/core/hotbar';
+
+const HOTBAR_STORAGE_KEY = 'mc2d-hotbar';
+
+const DEFAULT_HOTBAR = [
+  'stone',
+  'cobblestone',
+  'dirt',
+  'grass_block',
+  'oak_log',
+  'oak_planks',
+  'stone_bricks',
+  'bricks',
+  'glass',
+];
+
+interface StoredHotbar extends Hotbar {
+  recent: string[];
+}
+
+const isKnownBlock = (blockId: string) => !!getBlock(blockId);
+
+function loadHotbar(): StoredHotbar {
+  try {
+    const value = JSON.parse(localStorage.getItem(HOTBAR_STORAGE_KEY) ?? 'null');
+    const hotbar = parseHotbar(value, isKnownBlock);
+    if (hotbar) {
+      const recent: unknown[] = Array.isArray(value.recent) ? value.recent : [];
+      return {
+        ...hotbar,
+        recent: recent.filter((id): id is string => typeof id === 'string' && isKnownBlock(id)),
+      };
+    }
+  } catch {
+    // A broken entry starts the default hotbar over.
+  }
+  return { ...createHotbar(DEFAULT_HOTBAR.filter(isKnownBlock)), recent: [] };
+}
+
+// The hotbar and the recent blocks are remembered per browser, like the
+// active resource pack.
+export function useHotbar() {
+  const [state, setState] = useState<StoredHotbar>(loadHotbar);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(HOTBAR_STORAGE_KEY, JSON.stringify(state));
+    } catch {
+      // Storage can be full or disabled, e.g. in private mode; the hotbar
+      // still works, it is just not remembered.
+    }
+  }, [state]);
+
+  const update = useCallback((updater: (hotbar: Hotbar) => Hotbar) => {
+    setState(prev => {
+      const next = updater(prev);
+      return next === prev ? prev : { ...next, recent: prev.recent };
+    });
+  }, []);
+
+  const selectSlot = useCallback((index: number) => update(h => (h.active === index ? h : { ...h, active: index })), [update]);
+  const setSlot = useCallback(
+    (index: number, blockId: string | null) => update(h => setHotbarSlot(h, index, blockId)),
+    [update]
+  );
+  const swapSlots = useCallback((from: number, to: number) => update(h => swapHotbarSlots(h, from, to)), [update]);
+
+  const addRecent = useCallback((blockId: string) => {
+    setState(prev => {
+      const recent = addRecentBlock(prev.recent, blockId);
+      return recent === prev.recent ? prev : { ...prev, recent };
+    });
+  }, []);
+
+  const hotbar: Hotbar = { slots: state.slots, active: state.active };
+  return { hotbar, recent: state.recent, selectSlot, setSlot, swapSlots, addRecent };
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { serializeLayers, type Layer } from '@/lib/layers';
+import { deleteProject, listProjects, putProject, type Project } from '@/lib/storage';
+
+export function useProjectLibrary() {
+  const [projects, setProjects] = useState<Project[]>([]);
+
+  const refresh = useCallback(async () => {
+    setProjects(await listProjects());
+  }, []);
+
+  useEffect(() => {
+    refresh().catch(() => setProjects([]));
+  }, [refresh]);
+
+  const createProject = useCallback(async (name: string, layers: Layer[], thumbnail: string) => {
+    const now = Date.now();
+    const project: Project = {
+      ...serializeLayers(layers),
+      id: crypto.randomUUID(),
+      name,
+      thumbnail,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await putProject(project);
+    await refresh();
+    return project;
+  }, [refresh]);
+
+  const updateProject = useCallback(async (project: Project, layers: Layer[], thumbnail: string) => {
+    const updated: Project = { ...project, ...serializeLayers(layers), thumbnail, updatedAt: Date.now() };
+    await putProject(updated);
+    await refresh();
+    return updated;
+  }, [refresh]);
+
+  const renameProject = useCallback(async (project: Project, name: string) => {
+    await putProject({ ...project, name, updatedAt: Date.now() });
+    await refresh();
+  }, [refresh]);
+
+  const duplicateProject = useCallback(async (project: Project) => {
+    const now = Date.now();
+    await putProject({
+      ...project,
+      id: crypto.randomUUID(),
+      name: `${project.name} (копия)`,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await refresh();
+  }, [refresh]);
+
+  const removeProject = useCallback(async (project: Project) => {
+    await deleteProject(project.id);
+    await refresh();
+  }, [refresh]);
+
+  return {
+    projects,
+    createProject,
+    updateProject,
+    renameProject,
+    duplicateProject,
+    removeProject,
+  };
+}
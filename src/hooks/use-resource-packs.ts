@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { parseResourcePack, type ResourcePack } from '@/lib/resourcePack';
+import { deleteResourcePack, listResourcePacks, putResourcePack } from '@/lib/storage';
+
+const ACTIVE_PACK_STORAGE_KEY = 'mc2d-resource-pack';
+
+// Storage can be disabled, e.g. in private mode; then no pack is active
+// after a reload.
+function loadActivePackId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_PACK_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function saveActivePackId(id: string | null) {
+  try {
+    if (id) {
+      localStorage.setItem(ACTIVE_PACK_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_PACK_STORAGE_KEY);
+    }
+  } catch {
+    // The pack stays active until the page is reloaded.
+  }
+}
+
+// Imported packs live in IndexedDB; the active one is remembered per browser.
+export function useResourcePacks() {
+  const [packs, setPacks] = useState<ResourcePack[]>([]);
+  const [activePackId, setActivePackIdState] = useState<string | null>(loadActivePackId);
+
+  const refresh = useCallback(async () => {
+    setPacks(await listResourcePacks());
+  }, []);
+
+  useEffect(() => {
+    refresh().catch(() => setPacks([]));
+  }, [refresh]);
+
+  const setActivePackId = useCallback((id: string | null) => {
+    setActivePackIdState(id);
+    saveActivePackId(id);
+  }, []);
+
+  const importPack = useCallback(async (file: File) => {
+    const pack = await parseResourcePack(file);
+    await putResourcePack(pack);
+    await refresh();
+    setActivePackId(pack.id);
+    return pack;
+  }, [refresh, setActivePackId]);
+
+  const removePack = useCallback(async (pack: ResourcePack) => {
+    await deleteResourcePack(pack.id);
+    if (pack.id === activePackId) setActivePackId(null);
+    await refresh();
+  }, [refresh, activePackId, setActivePackId]);
+
+  return {
+    packs,
+    activePack: packs.find(pack => pack.id === activePackId) ?? null,
+    importPack,
+    removePack,
+    setActivePackId,
+  };
+}
@@ -0,0 +1,13 @@
+import { useMemo, useRef } from 'react';
+import type { Layer } from '@/lib/layers';
+import { getUsedBlocks, updateLayerBlockCounts, type LayerBlockCounts } from '@/core/blockCounts';
+
+// The blocks of the visible layers. Counts are kept per layer between renders,
+// so a brush stroke only counts the rows it changed.
+export function useUsedBlocks(layers: Layer[]): Set<string> {
+  const countsRef = useRef<LayerBlockCounts>(new Map());
+  return useMemo(() => {
+    countsRef.current = updateLayerBlockCounts(countsRef.current, layers);
+    return getUsedBlocks(countsRef.current, layers);
+  }, [layers]);
+}
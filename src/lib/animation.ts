@@ -0,0 +1,74 @@
+// Texture animations as described by `.png.mcmeta` files. Time is counted in
+// game ticks, like frame times in the metadata.
+
+export const TICK_DURATION = 50;
+
+export interface AnimationFrame {
+  index: number;
+  time: number;
+}
+
+export interface TextureAnimation {
+  frames: AnimationFrame[];
+  interpolate: boolean;
+  // Length of one loop in ticks.
+  duration: number;
+}
+
+export interface AnimationState {
+  index: number;
+  next: number;
+  // How far the current frame has run, 0 to 1; only used when interpolating.
+  progress: number;
+}
+
+const toTicks = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 1 ? Math.floor(value) : fallback;
+
+// `frameCount` is the number of frames in the strip. Frames the metadata
+// refers to that are not there are dropped, as the game does. Returns null
+// when the metadata has no usable animation.
+export function parseAnimation(mcmeta: unknown, frameCount: number): TextureAnimation | null {
+  const animation = (mcmeta as { animation?: unknown } | null)?.animation;
+  if (typeof animation !== 'object' || animation === null || frameCount < 1) return null;
+
+  const { frametime, interpolate, frames } = animation as {
+    frametime?: unknown;
+    interpolate?: unknown;
+    frames?: unknown;
+  };
+  const defaultTime = toTicks(frametime, 1);
+  const entries = Array.isArray(frames) ? frames : Array.from({ length: frameCount }, (_, index) => index);
+
+  const parsed: AnimationFrame[] = [];
+  for (const entry of entries) {
+    const frame = (typeof entry === 'number' ? { index: entry } : entry) as { index?: unknown; time?: unknown } | null;
+    const index = frame?.index;
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= frameCount) continue;
+    parsed.push({ index, time: toTicks(frame?.time, defaultTime) });
+  }
+  if (parsed.length < 2) return null;
+
+  return {
+    frames: parsed,
+    interpolate: interpolate === true,
+    duration: parsed.reduce((sum, frame) => sum + frame.time, 0),
+  };
+}
+
+export function getAnimationState(animation: TextureAnimation, tick: number): AnimationState {
+  const { frames, duration } = animation;
+  let time = ((tick % duration) + duration) % duration;
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    if (time < frame.time) {
+      return {
+        index: frame.index,
+        next: frames[(i + 1) % frames.length].index,
+        progress: animation.interpolate ? time / frame.time : 0,
+      };
+    }
+    time -= frame.time;
+  }
+  return { index: frames[0].index, next: frames[0].index, progress: 0 };
+}
@@ -0,0 +1,92 @@
+import { crc32 } from '@/lib/zip';
+
+// Animated PNG assembled from PNG files of the same size, as produced by
+// canvas.toBlob(). Browsers that do not support APNG show the first frame.
+
+export interface ApngFrame {
+  png: Uint8Array;
+  // Milliseconds the frame stays on screen.
+  delay: number;
+}
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readChunks(png: Uint8Array): Chunk[] {
+  if (SIGNATURE.some((byte, i) => png[i] !== byte)) throw new Error('Not a PNG file');
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 8; offset + 8 <= png.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function writeChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return bytes;
+}
+
+// Loops forever. The first frame doubles as the still image.
+export function encodeApng(frames: ApngFrame[]): Blob {
+  if (frames.length === 0) throw new Error('No frames');
+  const parts: Uint8Array<ArrayBuffer>[] = [new Uint8Array(SIGNATURE)];
+  let sequence = 0;
+
+  frames.forEach(({ png, delay }, index) => {
+    const chunks = readChunks(png);
+    const header = chunks.find(chunk => chunk.type === 'IHDR');
+    if (!header) throw new Error('PNG without IHDR');
+    const size = new DataView(header.data.buffer, header.data.byteOffset, 8);
+    const width = size.getUint32(0);
+    const height = size.getUint32(4);
+
+    if (index === 0) {
+      parts.push(writeChunk('IHDR', header.data));
+      parts.push(writeChunk('acTL', uint32s(frames.length, 0)));
+    }
+
+    // Delays are stored as a fraction of a second: delay / 1000.
+    const control = new Uint8Array(26);
+    control.set(uint32s(sequence++, width, height, 0, 0));
+    const timing = new DataView(control.buffer);
+    timing.setUint16(20, Math.min(Math.round(delay), 0xffff));
+    timing.setUint16(22, 1000);
+    // dispose_op and blend_op stay 0: every frame replaces the whole image.
+    parts.push(writeChunk('fcTL', control));
+
+    for (const chunk of chunks) {
+      if (chunk.type !== 'IDAT') continue;
+      if (index === 0) {
+        parts.push(writeChunk('IDAT', chunk.data));
+      } else {
+        const data = new Uint8Array(4 + chunk.data.length);
+        data.set(uint32s(sequence++));
+        data.set(chunk.data, 4);
+        parts.push(writeChunk('fdAT', data));
+      }
+    }
+  });
+
+  parts.push(writeChunk('IEND', new Uint8Array(0)));
+  return new Blob(parts, { type: 'image/png' });
+}
@@ -0,0 +1,181 @@
+import { minecraftBlocks } from '@/data/minecraftBlocks';
+import { colorDistance, hexToRgb, type Rgb } from '@/lib/color';
+
+export interface BlockMapping {
+  blockId: string;
+  match: 'exact' | 'similar' | 'color' | 'unknown';
+}
+
+const knownIds = new Set(minecraftBlocks.map(block => block.id));
+
+const airIds = new Set(['air', 'cave_air', 'void_air', 'structure_void']);
+
+const dyeColors: Record<string, string> = {
+  white: '#F9FFFE',
+  orange: '#F9801D',
+  magenta: '#C74EBD',
+  light_blue: '#3AB3DA',
+  yellow: '#FED83D',
+  lime: '#80C71F',
+  pink: '#F38BAA',
+  gray: '#474F52',
+  light_gray: '#9D9D97',
+  cyan: '#169C9C',
+  purple: '#8932B8',
+  blue: '#3C44AA',
+  brown: '#835432',
+  green: '#5E7C16',
+  red: '#B02E26',
+  black: '#1D1D21',
+};
+
+// Approximate colors of common vanilla blocks that have no counterpart in the
+// palette, used to pick the closest looking palette block.
+const vanillaColors: Record<string, string> = {
+  water: '#3F76E4',
+  lava: '#D96415',
+  oak_leaves: '#4A7A2A',
+  spruce_leaves: '#3D5E3D',
+  birch_leaves: '#5D7F3A',
+  jungle_leaves: '#4C8A1E',
+  acacia_leaves: '#4E7D22',
+  dark_oak_leaves: '#3F6A1D',
+  mangrove_leaves: '#5B8F2A',
+  cherry_leaves: '#E6AFC6',
+  azalea_leaves: '#5B7530',
+  short_grass: '#5E8F3A',
+  tall_grass: '#5E8F3A',
+  fern: '#5A8737',
+  vine: '#3F6B1E',
+  smooth_stone: '#9E9E9E',
+  cobbled_deepslate: '#4D4D51',
+  polished_deepslate: '#484849',
+  deepslate_bricks: '#464646',
+  deepslate_tiles: '#363637',
+  blackstone: '#2A2328',
+  polished_blackstone: '#353038',
+  basalt: '#505055',
+  smooth_basalt: '#48484E',
+  nether_bricks: '#2C161A',
+  red_nether_bricks: '#450709',
+  nether_wart_block: '#730302',
+  warped_wart_block: '#167E86',
+  magma_block: '#8E3F1F',
+  sandstone: '#D8CB9B',
+  red_sandstone: '#BA6320',
+  smooth_sandstone: '#E0D6AA',
+  terracotta: '#985E43',
+  hay_block: '#A68B0C',
+  pumpkin: '#C6761D',
+  melon: '#6F9119',
+  coal_ore: '#6A6A6A',
+  iron_ore: '#887E76',
+  gold_ore: '#8F8B6E',
+  diamond_ore: '#7A8E8D',
+  redstone_ore: '#855E5E',
+  lapis_ore: '#646E83',
+  emerald_ore: '#75887B',
+  copper_ore: '#7C7D72',
+  raw_iron_block: '#A6876B',
+  raw_gold_block: '#DDA92F',
+  raw_copper_block: '#9A6A4F',
+  exposed_copper: '#A17E68',
+  weathered_copper: '#6C9F6A',
+  oxidized_copper: '#52A385',
+  torch: '#FFD25A',
+  lantern: '#6A5B4B',
+  chest: '#A2822E',
+  crafting_table: '#7D5C3A',
+  furnace: '#6E6E6E',
+  beacon: '#75DDD7',
+  shroomlight: '#F09246',
+  ochre_froglight: '#F5E9B4',
+  verdant_froglight: '#E5F4E4',
+  pearlescent_froglight: '#F6EAEC',
+  bone_block: '#E5E1CF',
+  dried_kelp_block: '#32362A',
+  target: '#E2AA9D',
+  iron_bars: '#8A8C8A',
+  chain: '#3D424F',
+  ladder: '#7C6238',
+  rail: '#7D6E57',
+  redstone_wire: '#A81E09',
+  cobweb: '#E4E9EA',
+};
+
+const shapeSuffixes = [
+  '_stairs', '_slab', '_wall', '_fence_gate', '_fence', '_door', '_trapdoor',
+  '_pressure_plate', '_button', '_wall_hanging_sign', '_hanging_sign', '_wall_sign', '_sign',
+];
+
+const paletteColors = minecraftBlocks
+  .filter(block => block.id !== 'air')
+  .map(block => ({ id: block.id, rgb: hexToRgb(block.color) }))
+  .filter((entry): entry is { id: string; rgb: Rgb } => entry.rgb !== null);
+
+export function findClosestBlockByColor(rgb: Rgb): string {
+  let best = paletteColors[0].id;
+  let bestDistance = Infinity;
+  for (const entry of paletteColors) {
+    const distance = colorDistance(rgb, entry.rgb);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = entry.id;
+    }
+  }
+  return best;
+}
+
+function stripNamespace(name: string): string {
+  return name.startsWith('minecraft:') ? name.slice('minecraft:'.length) : name;
+}
+
+// Turns variants such as stairs, slabs, stripped logs or carpets into the
+// full block they are made of.
+function findSimilarBlock(id: string): string | undefined {
+  const candidates: string[] = [];
+  const base = id.replace(/^waxed_/, '');
+  candidates.push(base);
+
+  const log = /^(?:stripped_)?(\w+?)_(?:log|wood|stem|hyphae)$/.exec(base);
+  if (log) candidates.push(`${log[1]}_log`);
+  if (base.endsWith('_carpet')) candidates.push(base.replace(/_carpet$/, '_wool'));
+  if (base.endsWith('_concrete_powder')) candidates.push(base.replace(/_powder$/, ''));
+  if (base.endsWith('_glazed_terracotta')) candidates.push(base.replace(/_glazed_terracotta$/, '_terracotta'));
+  if (base.endsWith('glass_pane') && !base.includes('stained')) candidates.push('glass');
+  if (/^cut_copper|_cut_copper/.test(base)) candidates.push('copper_block');
+  if (/^(?:chiseled_|cut_|smooth_|polished_)/.test(base)) candidates.push(base.replace(/^(?:chiseled_|cut_|smooth_|polished_)/, ''));
+
+  for (const suffix of shapeSuffixes) {
+    if (!base.endsWith(suffix)) continue;
+    const material = base.slice(0, -suffix.length);
+    candidates.push(material, `${material}s`, `${material}_planks`, `${material}_block`);
+  }
+
+  return candidates.find(candidate => knownIds.has(candidate));
+}
+
+function findColor(id: string): Rgb | null {
+  const vanilla = vanillaColors[id];
+  if (vanilla) return hexToRgb(vanilla);
+
+  const dye = Object.keys(dyeColors)
+    .sort((a, b) => b.length - a.length)
+    .find(color => id.startsWith(`${color}_`));
+  return dye ? hexToRgb(dyeColors[dye]) : null;
+}
+
+export function mapBlockName(name: string): BlockMapping {
+  const id = stripNamespace(name);
+  if (airIds.has(id)) return { blockId: 'air', match: 'exact' };
+  if (knownIds.has(id)) return { blockId: id, match: 'exact' };
+
+  const similar = findSimilarBlock(id);
+  if (similar) return { blockId: similar, match: 'similar' };
+
+  const color = findColor(id);
+  if (color) return { blockId: findClosestBlockByColor(color), match: 'color' };
+
+  // Kept as is so the block shows up as a visible placeholder.
+  return { blockId: name.includes(':') ? name : `minecraft:${name}`, match: 'unknown' };
+}
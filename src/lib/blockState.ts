@@ -0,0 +1,124 @@
+import { minecraftBlocks, type MinecraftBlock } from '@/data/minecraftBlocks';
+import type { Cell } from '@/lib/grid';
+
+export type BlockStates = Record<string, string>;
+
+const blocksById = new Map(minecraftBlocks.map(block => [block.id, block]));
+
+export function getBlock(blockId: string): MinecraftBlock | undefined {
+  return blocksById.get(blockId);
+}
+
+export function getDefaultState(blockId: string): BlockStates | undefined {
+  const definition = blocksById.get(blockId)?.states;
+  if (!definition) return undefined;
+  return Object.fromEntries(Object.entries(definition).map(([key, values]) => [key, values[0]]));
+}
+
+// Fills in defaults and drops properties and values the block does not
+// declare. Blocks the editor does not know keep their state as is, so it
+// survives a round trip through the editor.
+export function normalizeState(blockId: string, state?: BlockStates): BlockStates | undefined {
+  const block = blocksById.get(blockId);
+  if (!block) return state && Object.keys(state).length > 0 ? state : undefined;
+  if (!block.states) return undefined;
+  return Object.fromEntries(
+    Object.entries(block.states).map(([key, values]) => [
+      key,
+      state?.[key] !== undefined && values.includes(state[key]) ? state[key] : values[0],
+    ])
+  );
+}
+
+export function createCell(blockId: string, state?: BlockStates): Cell {
+  const normalized = normalizeState(blockId, state);
+  return normalized ? { blockId, state: normalized } : { blockId };
+}
+
+// The block state syntax used by commands and schematics:
+// `oak_stairs[facing=east,half=bottom,shape=straight]`.
+export function formatBlockState(blockId: string, state?: BlockStates): string {
+  const entries = Object.entries(state ?? {});
+  if (entries.length === 0) return blockId;
+  return `${blockId}[${entries.map(([key, value]) => `${key}=${value}`).join(',')}]`;
+}
+
+export function parseBlockState(text: string): Cell {
+  const match = text.match(/^([^[]+)\[(.*)\]$/);
+  if (!match) return { blockId: text };
+
+  const state: BlockStates = {};
+  for (const pair of match[2].split(',')) {
+    const [key, value] = pair.split('=');
+    if (key && value !== undefined) state[key.trim()] = value.trim();
+  }
+  return createCell(match[1], state);
+}
+
+// Canonical string for a cell: cells that differ only in how their state is
+// written (missing defaults, property order) get the same key.
+export function cellKey(cell: Cell): string {
+  return formatBlockState(cell.blockId, normalizeState(cell.blockId, cell.state));
+}
+
+export function isSameBlock(a: Cell, b: Cell): boolean {
+  if (a === b) return true;
+  if (a.blockId !== b.blockId) return false;
+  if (!a.state && !b.state) return true;
+  return cellKey(a) === cellKey(b);
+}
+
+const rotations: Record<string, Record<string, string>> = {
+  facing: { north: 'east', east: 'south', south: 'west', west: 'north' },
+  axis: { y: 'x', x: 'z', z: 'y' },
+};
+
+const flips: Record<string, Record<string, string>> = {
+  half: { bottom: 'top', top: 'bottom', lower: 'upper', upper: 'lower' },
+  type: { bottom: 'top', top: 'bottom' },
+};
+
+const mirrors: Record<string, Record<string, string>> = {
+  facing: { east: 'west', west: 'east' },
+  shape: { inner_left: 'inner_right', inner_right: 'inner_left', outer_left: 'outer_right', outer_right: 'outer_left' },
+};
+
+const quarterTurns: Record<string, Record<string, string>> = {
+  axis: { x: 'y', y: 'x' },
+};
+
+function transformState(
+  blockId: string,
+  state: BlockStates | undefined,
+  table: Record<string, Record<string, string>>
+): BlockStates | undefined {
+  const normalized = normalizeState(blockId, state);
+  if (!normalized) return undefined;
+  return Object.fromEntries(
+    Object.entries(normalized).map(([key, value]) => [key, table[key]?.[value] ?? value])
+  );
+}
+
+// Turns the block clockwise around the vertical axis; pillars cycle through
+// their axes.
+export function rotateState(blockId: string, state?: BlockStates): BlockStates | undefined {
+  return transformState(blockId, state, rotations);
+}
+
+// Turns the block upside down: stairs and slabs move to the top half, doors
+// switch between their lower and upper half.
+export function flipState(blockId: string, state?: BlockStates): BlockStates | undefined {
+  return transformState(blockId, state, flips);
+}
+
+// Mirrors the block left to right on the wall, which is seen from the south:
+// east and west swap, and so do the left and right corners of stairs.
+export function mirrorState(blockId: string, state?: BlockStates): BlockStates | undefined {
+  return transformState(blockId, state, mirrors);
+}
+
+// Turns the block a quarter turn within the wall. Only pillars can follow,
+// their axis swaps between x and y.
+export function turnState(blockId: string, state?: BlockStates): BlockStates | undefined {
+  return transformState(blockId, state, quarterTurns);
+}
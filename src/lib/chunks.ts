@@ -0,0 +1,143 @@
+import { getGridSize, type Cell, type Point } from '@/lib/grid';
+import type { Layer } from '@/lib/layers';
+import { drawCell } from '@/lib/render';
+import type { FrameTextures } from '@/lib/textures';
+
+// The editor canvas is drawn from bitmaps of CHUNK_SIZE×CHUNK_SIZE blocks,
+// which are only rendered again when their blocks change.
+export const CHUNK_SIZE = 32;
+
+// Pixels per block in chunk bitmaps: textures are 16×16, and zoomed out
+// chunks are kept smaller.
+const MAX_CHUNK_RESOLUTION = 16;
+
+// A range of indices, inclusive on both ends. getVisibleChunks gives chunk
+// indices; drawGridLines takes cell boundaries, so x1 and y1 are the lines
+// after the last cell and the cells covered end at x1 - 1 and y1 - 1.
+export interface GridRange {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface Viewport {
+  cellSize: number;
+  pan: Point;
+  width: number;
+  height: number;
+}
+
+export const chunkKey = (cx: number, cy: number) => `${cx},${cy}`;
+
+export function getChunkResolution(cellSize: number): number {
+  return Math.min(MAX_CHUNK_RESOLUTION, 2 ** Math.ceil(Math.log2(Math.max(1, cellSize))));
+}
+
+// Chunks that overlap the viewport; the range is empty (x1 < x0) when the
+// grid is scrolled out of view.
+export function getVisibleChunks(viewport: Viewport, gridWidth: number, gridHeight: number): GridRange {
+  const { cellSize, pan, width, height } = viewport;
+  const chunkPixels = CHUNK_SIZE * cellSize;
+  return {
+    x0: Math.max(0, Math.floor(-pan.x / chunkPixels)),
+    y0: Math.max(0, Math.floor(-pan.y / chunkPixels)),
+    x1: Math.min(Math.ceil(gridWidth / CHUNK_SIZE) - 1, Math.floor((width - pan.x) / chunkPixels)),
+    y1: Math.min(Math.ceil(gridHeight / CHUNK_SIZE) - 1, Math.floor((height - pan.y) / chunkPixels)),
+  };
+}
+
+// Chunks whose blocks differ between two versions of the layers, or null when
+// everything has to be redrawn. Edits share unchanged rows and cells, so
+// only rows that were replaced are compared. Fences connect to the blocks
+// beside them, so neighbouring chunks are included at chunk edges.
+export function findChangedChunks(before: Layer[], after: Layer[]): Set<string> | null {
+  if (before.length !== after.length) return null;
+  const changed = new Set<string>();
+
+  for (let i = 0; i < after.length; i++) {
+    const a = before[i];
+    const b = after[i];
+    if (a.id !== b.id || a.visible !== b.visible || a.opacity !== b.opacity) return null;
+    if (a.grid === b.grid || !b.visible) continue;
+
+    const { width, height } = getGridSize(b.grid);
+    const size = getGridSize(a.grid);
+    if (size.width !== width || size.height !== height) return null;
+
+    for (let y = 0; y < height; y++) {
+      const rowA = a.grid[y];
+      const rowB = b.grid[y];
+      if (rowA === rowB) continue;
+      const cy = Math.floor(y / CHUNK_SIZE);
+      for (let x = 0; x < width; x++) {
+        if (rowA[x] === rowB[x]) continue;
+        for (const nx of [x - 1, x, x + 1]) {
+          if (nx >= 0 && nx < width) changed.add(chunkKey(Math.floor(nx / CHUNK_SIZE), cy));
+        }
+      }
+    }
+  }
+  return changed;
+}
+
+// Draws the visible layers of one chunk at `resolution` pixels per block onto
+// `canvas`, which is resized to fit. Returns whether any of its blocks has an
+// animated texture.
+export function renderChunk(
+  canvas: HTMLCanvasElement,
+  layers: Layer[],
+  cx: number,
+  cy: number,
+  resolution: number,
+  textures: FrameTextures | null,
+  isAnimated: (cell: Cell) => boolean
+): boolean {
+  const { width, height } = getGridSize(layers[0].grid);
+  const x0 = cx * CHUNK_SIZE;
+  const y0 = cy * CHUNK_SIZE;
+  const columns = Math.min(CHUNK_SIZE, width - x0);
+  const rows = Math.min(CHUNK_SIZE, height - y0);
+
+  if (canvas.width !== columns * resolution || canvas.height !== rows * resolution) {
+    canvas.width = columns * resolution;
+    canvas.height = rows * resolution;
+  }
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return false;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.imageSmoothingEnabled = false;
+
+  let animated = false;
+  for (const layer of layers) {
+    if (!layer.visible) continue;
+    ctx.globalAlpha = layer.opacity;
+    for (let y = 0; y < rows; y++) {
+      const row = layer.grid[y0 + y];
+      for (let x = 0; x < columns; x++) {
+        const cell = row[x0 + x];
+        if (cell.blockId === 'air') continue;
+        drawCell(ctx, cell, x * resolution, y * resolution, resolution, textures, row, x0 + x);
+        animated ||= isAnimated(cell);
+      }
+    }
+  }
+  ctx.globalAlpha = 1;
+  return animated;
+}
+
+// Grid lines from cell boundary x0 to x1 and y0 to y1, stroked as one path.
+export function drawGridLines(ctx: CanvasRenderingContext2D, area: GridRange, cellSize: number) {
+  ctx.beginPath();
+  for (let x = area.x0; x <= area.x1; x++) {
+    ctx.moveTo(x * cellSize, area.y0 * cellSize);
+    ctx.lineTo(x * cellSize, area.y1 * cellSize);
+  }
+  for (let y = area.y0; y <= area.y1; y++) {
+    ctx.moveTo(area.x0 * cellSize, y * cellSize);
+    ctx.lineTo(area.x1 * cellSize, y * cellSize);
+  }
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.1)';
+  ctx.lineWidth = 1;
+  ctx.stroke();
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ciede2000, rgbToLab, type Lab } from '@/lib/color';
+
+describe('rgbToLab', () => {
+  it.each([
+    [[255, 255, 255], [100, 0, 0]],
+    [[0, 0, 0], [0, 0, 0]],
+    [[255, 0, 0], [53.24, 80.09, 67.2]],
+  ] as const)('converts %o', (rgb, lab) => {
+    const result = rgbToLab([...rgb]);
+    result.forEach((value, i) => expect(value).toBeCloseTo(lab[i], 1));
+  });
+});
+
+describe('ciede2000', () => {
+  // Pairs from the test data of Sharma, Wu and Dalal.
+  it.each([
+    [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+    [[50, 0, 0], [50, -1, 2], 2.3669],
+    [[50, 2.49, -0.001], [50, -2.49, 0.0009], 7.1792],
+    [[50, 2.5, 0], [50, 3.1736, 0.5854], 1],
+    [[50, 2.5, 0], [73, 25, -18], 27.1492],
+    [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+  ] as [Lab, Lab, number][])('%o and %o differ by %d', (a, b, expected) => {
+    expect(ciede2000(a, b)).toBeCloseTo(expected, 4);
+    expect(ciede2000(b, a)).toBeCloseTo(expected, 4);
+  });
+
+  it('is zero for the same color', () => {
+    expect(ciede2000([40, 10, -20], [40, 10, -20])).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+export type Rgb = [number, number, number];
+
+export function hexToRgb(hex: string): Rgb | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+// "Redmean" weighted Euclidean distance, a cheap approximation of how
+// different two colors look.
+export function colorDistance(a: Rgb, b: Rgb): number {
+  const meanRed = (a[0] + b[0]) / 2;
+  const dr = a[0] - b[0];
+  const dg = a[1] - b[1];
+  const db = a[2] - b[2];
+  return Math.sqrt((2 + meanRed / 256) * dr * dr + 4 * dg * dg + (2 + (255 - meanRed) / 256) * db * db);
+}
+
+// CIELAB under the D65 white point: L from 0 to 100, a and b roughly -128..127.
+export type Lab = [number, number, number];
+
+const WHITE_X = 0.95047;
+const WHITE_Y = 1;
+const WHITE_Z = 1.08883;
+
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function labCurve(t: number): number {
+  return t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+}
+
+export function rgbToLab([red, green, blue]: Rgb): Lab {
+  const r = toLinear(red);
+  const g = toLinear(green);
+  const b = toLinear(blue);
+  const fx = labCurve((0.4124564 * r + 0.3575761 * g + 0.1804375 * b) / WHITE_X);
+  const fy = labCurve((0.2126729 * r + 0.7151522 * g + 0.072175 * b) / WHITE_Y);
+  const fz = labCurve((0.0193339 * r + 0.119192 * g + 0.9503041 * b) / WHITE_Z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+const DEG = Math.PI / 180;
+
+function hueAngle(b: number, a: number): number {
+  if (a === 0 && b === 0) return 0;
+  const h = Math.atan2(b, a) / DEG;
+  return h < 0 ? h + 360 : h;
+}
+
+// The CIEDE2000 color difference; 1 is about the smallest difference the eye
+// notices. Follows Sharma, Wu and Dalal (2005).
+export function ciede2000([l1, a1, b1]: Lab, [l2, a2, b2]: Lab): number {
+  const meanC = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const meanC7 = meanC ** 7;
+  const g = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + 25 ** 7)));
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const h1p = hueAngle(b1, a1p);
+  const h2p = hueAngle(b2, a2p);
+
+  const dL = l2 - l1;
+  const dC = c2p - c1p;
+  let dh = 0;
+  if (c1p * c2p !== 0) {
+    dh = h2p - h1p;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(c1p * c2p) * Math.sin((dh / 2) * DEG);
+
+  const meanL = (l1 + l2) / 2;
+  const meanCp = (c1p + c2p) / 2;
+  let meanH = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) meanH /= 2;
+    else meanH = meanH < 360 ? (meanH + 360) / 2 : (meanH - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos((meanH - 30) * DEG)
+    + 0.24 * Math.cos(2 * meanH * DEG)
+    + 0.32 * Math.cos((3 * meanH + 6) * DEG)
+    - 0.2 * Math.cos((4 * meanH - 63) * DEG);
+  const dTheta = 30 * Math.exp(-(((meanH - 275) / 25) ** 2));
+  const meanCp7 = meanCp ** 7;
+  const rc = 2 * Math.sqrt(meanCp7 / (meanCp7 + 25 ** 7));
+  const meanL50 = (meanL - 50) ** 2;
+  const sl = 1 + (0.015 * meanL50) / Math.sqrt(20 + meanL50);
+  const sc = 1 + 0.045 * meanCp;
+  const sh = 1 + 0.015 * meanCp * t;
+  const rt = -Math.sin(2 * dTheta * DEG) * rc;
+
+  return Math.sqrt(
+    (dL / sl) ** 2 + (dC / sc) ** 2 + (dH / sh) ** 2 + rt * (dC / sc) * (dH / sh),
+  );
+}
@@ -0,0 +1,13 @@
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function toFileName(name: string): string {
+  const safe = name.trim().replace(/[\\/:*?"<>|]+/g, '_').replace(/\s+/g, '-');
+  return safe || 'minecraft-build';
+}
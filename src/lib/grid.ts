@@ -0,0 +1,107 @@
+import type { BlockStates } from '@/lib/blockState';
+
+// `state` holds the block state properties (facing, axis, half, ...) of
+// blocks that declare them.
+export interface Cell {
+  blockId: string;
+  state?: BlockStates;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export function createEmptyGrid(width: number, height: number): Cell[][] {
+  return Array(height).fill(null).map(() =>
+    Array(width).fill(null).map(() => ({ blockId: 'air' }))
+  );
+}
+
+export const MIN_CANVAS_SIZE = 1;
+export const MAX_CANVAS_SIZE = 1024;
+
+export type Anchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export const anchors: Anchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+const anchorFactors: Record<Anchor, [number, number]> = {
+  'top-left': [0, 0],
+  'top': [0.5, 0],
+  'top-right': [1, 0],
+  'left': [0, 0.5],
+  'center': [0.5, 0.5],
+  'right': [1, 0.5],
+  'bottom-left': [0, 1],
+  'bottom': [0.5, 1],
+  'bottom-right': [1, 1],
+};
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function getGridSize(grid: Cell[][]) {
+  return { width: grid[0]?.length ?? 0, height: grid.length };
+}
+
+export function clampCanvasSize(value: number): number {
+  if (!Number.isFinite(value)) return MIN_CANVAS_SIZE;
+  return Math.max(MIN_CANVAS_SIZE, Math.min(MAX_CANVAS_SIZE, Math.round(value)));
+}
+
+// Blocks keep their position relative to the anchor; anything that ends up
+// outside of the new size is dropped.
+export function resizeGrid(grid: Cell[][], width: number, height: number, anchor: Anchor): Cell[][] {
+  const size = getGridSize(grid);
+  const [fx, fy] = anchorFactors[anchor];
+  const offsetX = Math.round((width - size.width) * fx);
+  const offsetY = Math.round((height - size.height) * fy);
+
+  return Array(height).fill(null).map((_, y) =>
+    Array(width).fill(null).map((_, x) => {
+      const sourceY = y - offsetY;
+      const sourceX = x - offsetX;
+      if (sourceY < 0 || sourceY >= size.height || sourceX < 0 || sourceX >= size.width) {
+        return { blockId: 'air' };
+      }
+      return grid[sourceY][sourceX];
+    })
+  );
+}
+
+export function getContentBounds(grid: Cell[][]): Bounds | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -1;
+  let maxY = -1;
+
+  grid.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (cell.blockId === 'air') return;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    });
+  });
+
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+export function cropGrid(grid: Cell[][], bounds: Bounds): Cell[][] {
+  return grid
+    .slice(bounds.y, bounds.y + bounds.height)
+    .map(row => row.slice(bounds.x, bounds.x + bounds.width));
+}
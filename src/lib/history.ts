@@ -0,0 +1,138 @@
+import { cellKey, parseBlockState } from '@/lib/blockState';
+import { getGridSize, type Cell } from '@/lib/grid';
+import type { Layer } from '@/lib/layers';
+
+export const MAX_HISTORY_ENTRIES = 200;
+export const MAX_HISTORY_CELLS = 500_000;
+
+// `before` and `after` are cell keys: the block id with its state, if any.
+export interface CellChange {
+  x: number;
+  y: number;
+  before: string;
+  after: string;
+}
+
+// Edits of a single layer that keep the canvas size are stored as cell diffs.
+// Everything else (resizes, crops, adding or reordering layers, changing their
+// properties) keeps the layer lists from before and after; grids are never
+// mutated, so both lists share the grids that did not change.
+export type HistoryEntry =
+  | { kind: 'cells'; label: string; layerId: string; changes: CellChange[] }
+  | { kind: 'layers'; label: string; before: Layer[]; after: Layer[] };
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const emptyHistory: HistoryState = { past: [], future: [] };
+
+export function diffGrids(before: Cell[][], after: Cell[][]): CellChange[] {
+  const changes: CellChange[] = [];
+  for (let y = 0; y < after.length; y++) {
+    const prevRow = before[y];
+    const nextRow = after[y];
+    if (prevRow === nextRow) continue;
+    for (let x = 0; x < nextRow.length; x++) {
+      if (prevRow[x] === nextRow[x]) continue;
+      const prevKey = cellKey(prevRow[x]);
+      const nextKey = cellKey(nextRow[x]);
+      if (prevKey !== nextKey) {
+        changes.push({ x, y, before: prevKey, after: nextKey });
+      }
+    }
+  }
+  return changes;
+}
+
+function isSameSize(a: Cell[][], b: Cell[][]) {
+  const aSize = getGridSize(a);
+  const bSize = getGridSize(b);
+  return aSize.width === bSize.width && aSize.height === bSize.height;
+}
+
+// Returns the only layer whose grid (and nothing else) changed, if any.
+function findEditedLayer(before: Layer[], after: Layer[]): { before: Layer; after: Layer } | null {
+  if (before.length !== after.length) return null;
+  let edited: { before: Layer; after: Layer } | null = null;
+  for (let i = 0; i < after.length; i++) {
+    const prev = before[i];
+    const next = after[i];
+    if (prev === next) continue;
+    const onlyGridChanged =
+      prev.id === next.id &&
+      prev.name === next.name &&
+      prev.visible === next.visible &&
+      prev.locked === next.locked &&
+      prev.opacity === next.opacity &&
+      isSameSize(prev.grid, next.grid);
+    if (edited || !onlyGridChanged) return null;
+    edited = { before: prev, after: next };
+  }
+  return edited;
+}
+
+export function createEntry(label: string, before: Layer[], after: Layer[]): HistoryEntry | null {
+  if (before === after) return null;
+
+  const edited = findEditedLayer(before, after);
+  if (!edited) {
+    const isUnchanged = before.length === after.length && after.every((layer, i) => layer === before[i]);
+    return isUnchanged ? null : { kind: 'layers', label, before, after };
+  }
+
+  const changes = diffGrids(edited.before.grid, edited.after.grid);
+  if (changes.length === 0) return null;
+  return { kind: 'cells', label, layerId: edited.after.id, changes };
+}
+
+function applyChanges(grid: Cell[][], changes: CellChange[], direction: 'undo' | 'redo'): Cell[][] {
+  const newGrid = [...grid];
+  const copiedRows = new Set<number>();
+  for (const change of changes) {
+    if (!copiedRows.has(change.y)) {
+      newGrid[change.y] = [...newGrid[change.y]];
+      copiedRows.add(change.y);
+    }
+    newGrid[change.y][change.x] = parseBlockState(direction === 'undo' ? change.before : change.after);
+  }
+  return newGrid;
+}
+
+export function applyEntry(layers: Layer[], entry: HistoryEntry, direction: 'undo' | 'redo'): Layer[] {
+  if (entry.kind === 'layers') {
+    return direction === 'undo' ? entry.before : entry.after;
+  }
+  return layers.map(layer =>
+    layer.id === entry.layerId ? { ...layer, grid: applyChanges(layer.grid, entry.changes, direction) } : layer
+  );
+}
+
+// Only grids that exist on one side of a layers entry are kept alive by it.
+function entrySize(entry: HistoryEntry): number {
+  if (entry.kind === 'cells') return entry.changes.length;
+
+  const beforeGrids = new Set(entry.before.map(layer => layer.grid));
+  const afterGrids = new Set(entry.after.map(layer => layer.grid));
+  let size = 0;
+  const count = (grid: Cell[][], other: Set<Cell[][]>) => {
+    if (other.has(grid)) return;
+    const { width, height } = getGridSize(grid);
+    size += width * height;
+  };
+  beforeGrids.forEach(grid => count(grid, afterGrids));
+  afterGrids.forEach(grid => count(grid, beforeGrids));
+  return size;
+}
+
+// Drops the oldest entries until both the entry count and the total number of
+// stored cells fit into the limits.
+export function pushEntry(state: HistoryState, entry: HistoryEntry): HistoryState {
+  const past = [...state.past, entry];
+  let totalCells = past.reduce((sum, e) => sum + entrySize(e), 0);
+  while (past.length > 1 && (past.length > MAX_HISTORY_ENTRIES || totalCells > MAX_HISTORY_CELLS)) {
+    totalCells -= entrySize(past.shift()!);
+  }
+  return { past, future: [] };
+}
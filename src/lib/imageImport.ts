@@ -0,0 +1,102 @@
+import { minecraftBlocks, type MinecraftBlock } from '@/data/minecraftBlocks';
+import { createCell } from '@/lib/blockState';
+import { hexToRgb, type Rgb } from '@/lib/color';
+import type { BlockTextures } from '@/lib/textures';
+import type { BlockColor, PixelImage } from '@/core/imageToBlocks';
+
+// Textures less opaque than this on average (glass) would show what is
+// behind them, so they are not used for images.
+const MIN_TEXTURE_OPACITY = 0.9;
+
+// Only blocks that fill the whole cell; stairs, slabs, doors and fences would
+// leave holes in the picture.
+function isFullBlock(block: MinecraftBlock): boolean {
+  return block.id !== 'air' && (!block.shape || block.shape === 'cube' || block.shape === 'pillar');
+}
+
+const averageColors = new WeakMap<HTMLImageElement, { color: Rgb; opacity: number } | null>();
+
+// The mean color of a texture weighted by alpha, i.e. how it looks from afar.
+// Null when the texture failed the CORS check and its pixels cannot be read.
+function getAverageColor(image: HTMLImageElement): { color: Rgb; opacity: number } | null {
+  const cached = averageColors.get(image);
+  if (cached !== undefined) return cached;
+
+  let result: { color: Rgb; opacity: number } | null = null;
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  try {
+    if (ctx && canvas.width > 0 && canvas.height > 0) {
+      ctx.drawImage(image, 0, 0);
+      const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let alpha = 0;
+      for (let i = 0; i < data.length; i += 4) {
+        const a = data[i + 3];
+        r += data[i] * a;
+        g += data[i + 1] * a;
+        b += data[i + 2] * a;
+        alpha += a;
+      }
+      const pixels = data.length / 4;
+      result = alpha === 0
+        ? { color: [0, 0, 0], opacity: 0 }
+        : { color: [r / alpha, g / alpha, b / alpha], opacity: alpha / 255 / pixels };
+    }
+  } catch {
+    result = null;
+  }
+  averageColors.set(image, result);
+  return result;
+}
+
+// The blocks of the given categories with the colors of their textures, or
+// of the palette where there is no texture.
+export function getBlockColors(textures: BlockTextures, categories: ReadonlySet<string>): BlockColor[] {
+  const colors: BlockColor[] = [];
+  for (const block of minecraftBlocks) {
+    if (!categories.has(block.category) || !isFullBlock(block)) continue;
+    const texture = textures.get(block.id);
+    const average = texture ? getAverageColor(texture) : null;
+    if (average && average.opacity < MIN_TEXTURE_OPACITY) continue;
+    const color = average?.color ?? hexToRgb(block.color);
+    if (color) colors.push({ cell: createCell(block.id), color });
+  }
+  return colors;
+}
+
+export function loadImageFile(file: File): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Failed to load ${file.name}`));
+    };
+    img.src = url;
+  });
+}
+
+// Scales the image to one pixel per block. Enlarged images keep sharp pixels,
+// so small sprites stay pixel art.
+export function readImagePixels(image: HTMLImageElement, width: number, height: number): PixelImage {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+
+  const isEnlarged = width >= image.naturalWidth && height >= image.naturalHeight;
+  ctx.imageSmoothingEnabled = !isEnlarged;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
@@ -0,0 +1,184 @@
+import { deserializeGrid, serializeGrid, type StoredGrid } from '@/core/serialization';
+import { createEmptyGrid, getContentBounds, getGridSize, type Bounds, type Cell, type Point } from '@/lib/grid';
+
+export interface LayerProps {
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+}
+
+// Layers are ordered bottom to top; all of them have the same size.
+export interface Layer extends LayerProps {
+  id: string;
+  grid: Cell[][];
+}
+
+export interface StoredLayer extends LayerProps {
+  cells: string[];
+}
+
+export interface StoredLayers {
+  width: number;
+  height: number;
+  layers: StoredLayer[];
+}
+
+export const FIRST_LAYER_NAME = 'Слой 1';
+export const MAX_LAYERS = 32;
+
+export function createLayer(name: string, grid: Cell[][]): Layer {
+  return { id: crypto.randomUUID(), name, visible: true, locked: false, opacity: 1, grid };
+}
+
+export function createSingleLayer(grid: Cell[][]): Layer[] {
+  return [createLayer(FIRST_LAYER_NAME, grid)];
+}
+
+export function getNextLayerName(layers: Layer[]): string {
+  const names = new Set(layers.map(layer => layer.name));
+  let index = layers.length + 1;
+  while (names.has(`Слой ${index}`)) index++;
+  return `Слой ${index}`;
+}
+
+export function addLayer(layers: Layer[], aboveId: string): { layers: Layer[]; layer: Layer } {
+  const { width, height } = getGridSize(layers[0].grid);
+  const layer = createLayer(getNextLayerName(layers), createEmptyGrid(width, height));
+  const index = layers.findIndex(l => l.id === aboveId);
+  return { layers: [...layers.slice(0, index + 1), layer, ...layers.slice(index + 1)], layer };
+}
+
+export function duplicateLayer(layers: Layer[], id: string): { layers: Layer[]; layer: Layer } {
+  const index = layers.findIndex(l => l.id === id);
+  const source = layers[index];
+  const layer = { ...source, id: crypto.randomUUID(), name: `${source.name} (копия)` };
+  return { layers: [...layers.slice(0, index + 1), layer, ...layers.slice(index + 1)], layer };
+}
+
+// The last remaining layer cannot be deleted.
+export function deleteLayer(layers: Layer[], id: string): Layer[] {
+  if (layers.length <= 1) return layers;
+  return layers.filter(l => l.id !== id);
+}
+
+// Moves a layer one step up (towards the top) or down.
+export function moveLayer(layers: Layer[], id: string, direction: 'up' | 'down'): Layer[] {
+  const index = layers.findIndex(l => l.id === id);
+  const target = direction === 'up' ? index + 1 : index - 1;
+  if (index < 0 || target < 0 || target >= layers.length) return layers;
+  const newLayers = [...layers];
+  [newLayers[index], newLayers[target]] = [newLayers[target], newLayers[index]];
+  return newLayers;
+}
+
+export function updateLayer(layers: Layer[], id: string, changes: Partial<Layer>): Layer[] {
+  return layers.map(l => (l.id === id ? { ...l, ...changes } : l));
+}
+
+// Blocks of the upper layers cover the ones below; air lets lower blocks
+// show through.
+function stackGrids(grids: Cell[][][]): Cell[][] {
+  const { width, height } = getGridSize(grids[0]);
+  return Array(height).fill(null).map((_, y) =>
+    Array(width).fill(null).map((_, x) => {
+      for (let i = grids.length - 1; i >= 0; i--) {
+        const cell = grids[i][y][x];
+        if (cell.blockId !== 'air') return cell;
+      }
+      return grids[0][y][x];
+    })
+  );
+}
+
+// Merges a layer into the one below it, which keeps its own properties.
+export function mergeLayerDown(layers: Layer[], id: string): Layer[] {
+  const index = layers.findIndex(l => l.id === id);
+  if (index <= 0) return layers;
+  const lower = layers[index - 1];
+  const merged = { ...lower, grid: stackGrids([lower.grid, layers[index].grid]) };
+  return [...layers.slice(0, index - 1), merged, ...layers.slice(index + 1)];
+}
+
+// Hidden layers are left out. Opacity only affects the editor view: a block
+// is either placed or not, so exports use the topmost visible block.
+export function flattenLayers(layers: Layer[]): Cell[][] {
+  const visible = layers.filter(l => l.visible);
+  if (visible.length === 0) {
+    const { width, height } = getGridSize(layers[0].grid);
+    return createEmptyGrid(width, height);
+  }
+  if (visible.length === 1) return visible[0].grid;
+  return stackGrids(visible.map(l => l.grid));
+}
+
+// The block seen at a cell: the topmost one of the visible layers, or null
+// where they all have air.
+export function getVisibleCell(layers: Layer[], { x, y }: Point): Cell | null {
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const cell = layers[i].visible ? layers[i].grid[y][x] : null;
+    if (cell && cell.blockId !== 'air') return cell;
+  }
+  return null;
+}
+
+export function getLayersContentBounds(layers: Layer[]): Bounds | null {
+  let result: Bounds | null = null;
+  for (const layer of layers) {
+    const bounds = getContentBounds(layer.grid);
+    if (!bounds) continue;
+    if (!result) {
+      result = bounds;
+      continue;
+    }
+    const x = Math.min(result.x, bounds.x);
+    const y = Math.min(result.y, bounds.y);
+    result = {
+      x,
+      y,
+      width: Math.max(result.x + result.width, bounds.x + bounds.width) - x,
+      height: Math.max(result.y + result.height, bounds.y + bounds.height) - y,
+    };
+  }
+  return result;
+}
+
+export function mapLayerGrids(layers: Layer[], map: (grid: Cell[][]) => Cell[][]): Layer[] {
+  return layers.map(l => ({ ...l, grid: map(l.grid) }));
+}
+
+export function serializeLayers(layers: Layer[]): StoredLayers {
+  const { width, height } = getGridSize(layers[0].grid);
+  return {
+    width,
+    height,
+    layers: layers.map(({ name, visible, locked, opacity, grid }) => ({
+      name,
+      visible,
+      locked,
+      opacity,
+      cells: serializeGrid(grid).cells,
+    })),
+  };
+}
+
+export function deserializeLayers(stored: StoredLayers): Layer[] {
+  const { width, height } = stored;
+  return stored.layers.map(({ cells, ...props }) => ({
+    ...props,
+    id: crypto.randomUUID(),
+    grid: deserializeGrid({ width, height, cells }),
+  }));
+}
+
+// Records saved before layers existed hold a single grid.
+export function upgradeStoredGrid<T extends StoredGrid | StoredLayers>(
+  stored: T
+): Omit<T, 'cells'> & StoredLayers {
+  if ('layers' in stored) return stored as Omit<T, 'cells'> & StoredLayers;
+  const { cells, ...rest } = stored as T & StoredGrid;
+  return {
+    ...rest,
+    layers: [{ name: FIRST_LAYER_NAME, visible: true, locked: false, opacity: 1, cells }],
+  };
+}
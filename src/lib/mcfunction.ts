@@ -0,0 +1,116 @@
+import { getGridSize, type Cell } from '@/lib/grid';
+import { createZip } from '@/lib/zip';
+import { cellKey } from '@/lib/blockState';
+import { toBlockStateString } from '@/lib/structureExport';
+
+// Limit of a single /fill command in vanilla Minecraft.
+const MAX_FILL_VOLUME = 32768;
+
+// Data pack format of Minecraft 1.21.4, matching MINECRAFT_DATA_VERSION.
+export const DATAPACK_FORMAT = 61;
+export const DATAPACK_NAMESPACE = 'mc2d';
+
+export interface McfunctionOptions {
+  origin: 'relative' | 'absolute';
+  x: number;
+  y: number;
+  z: number;
+  includeAir: boolean;
+}
+
+export interface McfunctionResult {
+  text: string;
+  commandCount: number;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  cell: Cell;
+}
+
+// Greedily grows each unvisited cell into the widest run of the same block
+// and then extends that run downwards while the rows below match.
+function collectRects(grid: Cell[][], includeAir: boolean): Rect[] {
+  const { width, height } = getGridSize(grid);
+  const used = new Uint8Array(width * height);
+  const rects: Rect[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (used[y * width + x]) continue;
+      const cell = grid[y][x];
+      if (cell.blockId === 'air' && !includeAir) continue;
+      const key = cellKey(cell);
+
+      let w = 1;
+      while (x + w < width && !used[y * width + x + w] && cellKey(grid[y][x + w]) === key) w++;
+
+      let h = 1;
+      const maxHeight = Math.max(1, Math.floor(MAX_FILL_VOLUME / w));
+      while (y + h < height && h < maxHeight) {
+        let matches = true;
+        for (let i = 0; i < w; i++) {
+          if (used[(y + h) * width + x + i] || cellKey(grid[y + h][x + i]) !== key) {
+            matches = false;
+            break;
+          }
+        }
+        if (!matches) break;
+        h++;
+      }
+
+      for (let dy = 0; dy < h; dy++) {
+        used.fill(1, (y + dy) * width + x, (y + dy) * width + x + w);
+      }
+      rects.push({ x, y, width: w, height: h, cell });
+    }
+  }
+
+  return rects;
+}
+
+// Uses the same orientation as the structure exports: a wall in the XY plane
+// with the bottom row of the grid at the origin.
+export function generateMcfunction(grid: Cell[][], options: McfunctionOptions): McfunctionResult {
+  const { height } = getGridSize(grid);
+  const prefix = options.origin === 'relative' ? '~' : '';
+  const base = options.origin === 'relative' ? { x: 0, y: 0, z: 0 } : options;
+  const pos = (x: number, y: number) =>
+    `${prefix}${base.x + x} ${prefix}${base.y + height - 1 - y} ${prefix}${base.z}`;
+
+  const commands = collectRects(grid, options.includeAir).map(rect => {
+    const block = toBlockStateString(rect.cell);
+    if (rect.width === 1 && rect.height === 1) {
+      return `setblock ${pos(rect.x, rect.y)} ${block}`;
+    }
+    return `fill ${pos(rect.x, rect.y + rect.height - 1)} ${pos(rect.x + rect.width - 1, rect.y)} ${block}`;
+  });
+
+  const header = [
+    '# Minecraft 2D',
+    `# ${options.origin === 'relative' ? 'Relative to the executing position' : `Origin ${options.x} ${options.y} ${options.z}`}`,
+  ];
+  return { text: [...header, ...commands, ''].join('\n'), commandCount: commands.length };
+}
+
+export function toFunctionName(name: string): string {
+  const sanitized = name.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return sanitized || 'build';
+}
+
+export function createDatapack(functionName: string, mcfunction: string, description: string): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const packMeta = {
+    pack: {
+      pack_format: DATAPACK_FORMAT,
+      description,
+    },
+  };
+  return createZip([
+    { name: 'pack.mcmeta', data: encoder.encode(JSON.stringify(packMeta, null, 2)) },
+    { name: `data/${DATAPACK_NAMESPACE}/function/${functionName}.mcfunction`, data: encoder.encode(mcfunction) },
+  ]);
+}
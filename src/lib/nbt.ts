@@ -0,0 +1,343 @@
+// Minimal big-endian (Java Edition) NBT encoder and decoder.
+
+export enum TagType {
+  End = 0,
+  Byte = 1,
+  Short = 2,
+  Int = 3,
+  Long = 4,
+  Float = 5,
+  Double = 6,
+  ByteArray = 7,
+  String = 8,
+  List = 9,
+  Compound = 10,
+  IntArray = 11,
+  LongArray = 12,
+}
+
+export type NbtTag =
+  | { type: TagType.Byte; value: number }
+  | { type: TagType.Short; value: number }
+  | { type: TagType.Int; value: number }
+  | { type: TagType.Long; value: bigint }
+  | { type: TagType.Float; value: number }
+  | { type: TagType.Double; value: number }
+  | { type: TagType.ByteArray; value: Int8Array }
+  | { type: TagType.String; value: string }
+  | { type: TagType.List; itemType: TagType; value: NbtTag[] }
+  | { type: TagType.Compound; value: NbtCompound }
+  | { type: TagType.IntArray; value: Int32Array }
+  | { type: TagType.LongArray; value: BigInt64Array };
+
+export type NbtCompound = Record<string, NbtTag>;
+
+export const nbt = {
+  byte: (value: number): NbtTag => ({ type: TagType.Byte, value }),
+  short: (value: number): NbtTag => ({ type: TagType.Short, value }),
+  int: (value: number): NbtTag => ({ type: TagType.Int, value }),
+  long: (value: bigint): NbtTag => ({ type: TagType.Long, value }),
+  float: (value: number): NbtTag => ({ type: TagType.Float, value }),
+  double: (value: number): NbtTag => ({ type: TagType.Double, value }),
+  byteArray: (value: Int8Array): NbtTag => ({ type: TagType.ByteArray, value }),
+  string: (value: string): NbtTag => ({ type: TagType.String, value }),
+  list: (itemType: TagType, value: NbtTag[]): NbtTag => ({ type: TagType.List, itemType, value }),
+  compound: (value: NbtCompound): NbtTag => ({ type: TagType.Compound, value }),
+  intArray: (value: Int32Array): NbtTag => ({ type: TagType.IntArray, value }),
+  longArray: (value: BigInt64Array): NbtTag => ({ type: TagType.LongArray, value }),
+};
+
+class ByteWriter {
+  private buffer = new Uint8Array(1024);
+  private view = new DataView(this.buffer.buffer);
+  private offset = 0;
+
+  private ensure(size: number) {
+    if (this.offset + size <= this.buffer.length) return;
+    let length = this.buffer.length * 2;
+    while (length < this.offset + size) length *= 2;
+    const next = new Uint8Array(length);
+    next.set(this.buffer);
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  byte(value: number) {
+    this.ensure(1);
+    this.view.setInt8(this.offset, value);
+    this.offset += 1;
+  }
+
+  short(value: number) {
+    this.ensure(2);
+    this.view.setInt16(this.offset, value);
+    this.offset += 2;
+  }
+
+  ushort(value: number) {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  int(value: number) {
+    this.ensure(4);
+    this.view.setInt32(this.offset, value);
+    this.offset += 4;
+  }
+
+  long(value: bigint) {
+    this.ensure(8);
+    this.view.setBigInt64(this.offset, value);
+    this.offset += 8;
+  }
+
+  float(value: number) {
+    this.ensure(4);
+    this.view.setFloat32(this.offset, value);
+    this.offset += 4;
+  }
+
+  double(value: number) {
+    this.ensure(8);
+    this.view.setFloat64(this.offset, value);
+    this.offset += 8;
+  }
+
+  bytes(value: Uint8Array) {
+    this.ensure(value.length);
+    this.buffer.set(value, this.offset);
+    this.offset += value.length;
+  }
+
+  // Identifiers and names used here are plain ASCII, for which Java's
+  // modified UTF-8 and regular UTF-8 are identical.
+  string(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.ushort(encoded.length);
+    this.bytes(encoded);
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+function writePayload(writer: ByteWriter, tag: NbtTag) {
+  switch (tag.type) {
+    case TagType.Byte:
+      writer.byte(tag.value);
+      break;
+    case TagType.Short:
+      writer.short(tag.value);
+      break;
+    case TagType.Int:
+      writer.int(tag.value);
+      break;
+    case TagType.Long:
+      writer.long(tag.value);
+      break;
+    case TagType.Float:
+      writer.float(tag.value);
+      break;
+    case TagType.Double:
+      writer.double(tag.value);
+      break;
+    case TagType.ByteArray:
+      writer.int(tag.value.length);
+      writer.bytes(new Uint8Array(tag.value.buffer, tag.value.byteOffset, tag.value.length));
+      break;
+    case TagType.String:
+      writer.string(tag.value);
+      break;
+    case TagType.List:
+      writer.byte(tag.value.length === 0 ? TagType.End : tag.itemType);
+      writer.int(tag.value.length);
+      tag.value.forEach(item => writePayload(writer, item));
+      break;
+    case TagType.Compound:
+      writeCompound(writer, tag.value);
+      break;
+    case TagType.IntArray:
+      writer.int(tag.value.length);
+      tag.value.forEach(value => writer.int(value));
+      break;
+    case TagType.LongArray:
+      writer.int(tag.value.length);
+      tag.value.forEach(value => writer.long(value));
+      break;
+  }
+}
+
+function writeCompound(writer: ByteWriter, compound: NbtCompound) {
+  for (const [name, tag] of Object.entries(compound)) {
+    writer.byte(tag.type);
+    writer.string(name);
+    writePayload(writer, tag);
+  }
+  writer.byte(TagType.End);
+}
+
+export function writeNbt(rootName: string, root: NbtCompound): Uint8Array<ArrayBuffer> {
+  const writer = new ByteWriter();
+  writer.byte(TagType.Compound);
+  writer.string(rootName);
+  writeCompound(writer, root);
+  return writer.result();
+}
+
+export class NbtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NbtError';
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+  private decoder = new TextDecoder();
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  private take(size: number) {
+    if (this.offset + size > this.data.length) {
+      throw new NbtError('Неожиданный конец NBT-данных');
+    }
+    const offset = this.offset;
+    this.offset += size;
+    return offset;
+  }
+
+  byte() {
+    return this.view.getInt8(this.take(1));
+  }
+
+  short() {
+    return this.view.getInt16(this.take(2));
+  }
+
+  int() {
+    return this.view.getInt32(this.take(4));
+  }
+
+  long() {
+    return this.view.getBigInt64(this.take(8));
+  }
+
+  float() {
+    return this.view.getFloat32(this.take(4));
+  }
+
+  double() {
+    return this.view.getFloat64(this.take(8));
+  }
+
+  length() {
+    const length = this.int();
+    if (length < 0) throw new NbtError('Отрицательная длина в NBT-данных');
+    return length;
+  }
+
+  string() {
+    const length = this.view.getUint16(this.take(2));
+    const start = this.take(length);
+    return this.decoder.decode(this.data.subarray(start, start + length));
+  }
+}
+
+function readPayload(reader: ByteReader, type: TagType, depth: number): NbtTag {
+  if (depth > 512) throw new NbtError('Слишком глубокая вложенность NBT');
+
+  switch (type) {
+    case TagType.Byte:
+      return nbt.byte(reader.byte());
+    case TagType.Short:
+      return nbt.short(reader.short());
+    case TagType.Int:
+      return nbt.int(reader.int());
+    case TagType.Long:
+      return nbt.long(reader.long());
+    case TagType.Float:
+      return nbt.float(reader.float());
+    case TagType.Double:
+      return nbt.double(reader.double());
+    case TagType.ByteArray: {
+      const values = new Int8Array(reader.length());
+      for (let i = 0; i < values.length; i++) values[i] = reader.byte();
+      return nbt.byteArray(values);
+    }
+    case TagType.String:
+      return nbt.string(reader.string());
+    case TagType.List: {
+      const itemType = reader.byte() as TagType;
+      const length = reader.length();
+      const items: NbtTag[] = [];
+      for (let i = 0; i < length; i++) items.push(readPayload(reader, itemType, depth + 1));
+      return nbt.list(itemType, items);
+    }
+    case TagType.Compound:
+      return nbt.compound(readCompound(reader, depth + 1));
+    case TagType.IntArray: {
+      const values = new Int32Array(reader.length());
+      for (let i = 0; i < values.length; i++) values[i] = reader.int();
+      return nbt.intArray(values);
+    }
+    case TagType.LongArray: {
+      const values = new BigInt64Array(reader.length());
+      for (let i = 0; i < values.length; i++) values[i] = reader.long();
+      return nbt.longArray(values);
+    }
+    default:
+      throw new NbtError(`Неизвестный тип NBT-тега: ${type}`);
+  }
+}
+
+function readCompound(reader: ByteReader, depth: number): NbtCompound {
+  const compound: NbtCompound = {};
+  for (;;) {
+    const type = reader.byte() as TagType;
+    if (type === TagType.End) return compound;
+    const name = reader.string();
+    compound[name] = readPayload(reader, type, depth);
+  }
+}
+
+export function readNbt(data: Uint8Array): { name: string; root: NbtCompound } {
+  const reader = new ByteReader(data);
+  if (reader.byte() !== TagType.Compound) {
+    throw new NbtError('Файл не содержит NBT-данных');
+  }
+  const name = reader.string();
+  return { name, root: readCompound(reader, 0) };
+}
+
+// Typed accessors for walking decoded trees; they return undefined when the
+// tag is missing or has a different type.
+export function getTag<T extends TagType>(
+  compound: NbtCompound | undefined,
+  name: string,
+  type: T
+): Extract<NbtTag, { type: T }> | undefined {
+  const tag = compound?.[name];
+  return tag && tag.type === type ? (tag as Extract<NbtTag, { type: T }>) : undefined;
+}
+
+export function getNumber(compound: NbtCompound | undefined, name: string): number | undefined {
+  const tag = compound?.[name];
+  if (!tag) return undefined;
+  switch (tag.type) {
+    case TagType.Byte:
+    case TagType.Short:
+    case TagType.Int:
+    case TagType.Float:
+    case TagType.Double:
+      return tag.value;
+    case TagType.Long:
+      return Number(tag.value);
+    default:
+      return undefined;
+  }
+}
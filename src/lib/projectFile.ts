@@ -0,0 +1,175 @@
+import { z } from 'zod';
+import { minecraftBlocks } from '@/data/minecraftBlocks';
+import { cellKey, parseBlockState } from '@/lib/blockState';
+import { MAX_PALETTE_SIZE, toCellGrid } from '@/core/grid';
+import { decodeRuns, encodeRuns } from '@/core/serialization';
+import { MAX_CANVAS_SIZE, MIN_CANVAS_SIZE, getGridSize } from '@/lib/grid';
+import { createLayer, FIRST_LAYER_NAME, MAX_LAYERS, type Layer } from '@/lib/layers';
+
+export const PROJECT_FILE_FORMAT = 'mc2d';
+export const PROJECT_FILE_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = '.mc2d.json';
+
+const knownBlockIds = new Set(minecraftBlocks.map(block => block.id));
+
+const metadataSchema = z.object({
+  name: z.string(),
+  author: z.string().optional(),
+  createdAt: z.string().datetime(),
+  modifiedAt: z.string().datetime(),
+});
+
+const layerSchema = z.object({
+  name: z.string(),
+  visible: z.boolean(),
+  locked: z.boolean(),
+  opacity: z.number().min(0).max(1),
+  // Row-major run-length encoding: [run length, palette index] pairs.
+  cells: z.array(z.tuple([z.number().int().positive(), z.number().int().nonnegative()])),
+});
+
+const projectFileSchema = z.object({
+  format: z.literal(PROJECT_FILE_FORMAT),
+  version: z.literal(PROJECT_FILE_VERSION),
+  metadata: metadataSchema,
+  width: z.number().int().min(MIN_CANVAS_SIZE).max(MAX_CANVAS_SIZE),
+  height: z.number().int().min(MIN_CANVAS_SIZE).max(MAX_CANVAS_SIZE),
+  // Block ids with their state, e.g. `oak_log[axis=x]`.
+  palette: z.array(z.string().min(1)).min(1).max(MAX_PALETTE_SIZE),
+  // Bottom to top; the palette is shared by all layers.
+  layers: z.array(layerSchema).min(1).max(MAX_LAYERS),
+});
+
+export type ProjectMetadata = z.infer<typeof metadataSchema>;
+export type ProjectFile = z.infer<typeof projectFileSchema>;
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+// Each migration upgrades a file from the version it is keyed by to the next
+// one. Register a new entry here whenever PROJECT_FILE_VERSION is bumped.
+const migrations: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 had a single grid stored in `cells`.
+  1: ({ cells, ...data }) => ({
+    ...data,
+    version: 2,
+    layers: [{ name: FIRST_LAYER_NAME, visible: true, locked: false, opacity: 1, cells }],
+  }),
+  // v2 palettes held plain block ids, which are still valid entries.
+  2: data => ({ ...data, version: 3 }),
+};
+
+function migrate(data: Record<string, unknown>): Record<string, unknown> {
+  let version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    throw new ProjectFileError('В файле не указана версия формата');
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`Файл создан в более новой версии редактора (формат v${version})`);
+  }
+
+  let migrated = data;
+  while (version < PROJECT_FILE_VERSION) {
+    const migration = migrations[version];
+    if (!migration) {
+      throw new ProjectFileError(`Формат v${version} больше не поддерживается`);
+    }
+    migrated = migration(migrated);
+    version += 1;
+  }
+  return migrated;
+}
+
+export function createProjectFile(layers: Layer[], metadata: ProjectMetadata): ProjectFile {
+  const { width, height } = getGridSize(layers[0].grid);
+  const palette: string[] = [];
+  const paletteIndex = new Map<string, number>();
+
+  const fileLayers = layers.map(({ name, visible, locked, opacity, grid }) => {
+    const indices = grid.flatMap(row =>
+      row.map(cell => {
+        const key = cellKey(cell);
+        let index = paletteIndex.get(key);
+        if (index === undefined) {
+          index = palette.length;
+          palette.push(key);
+          paletteIndex.set(key, index);
+        }
+        return index;
+      })
+    );
+    return { name, visible, locked, opacity, cells: encodeRuns(indices) };
+  });
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    metadata,
+    width,
+    height,
+    palette,
+    layers: fileLayers,
+  };
+}
+
+export function serializeProjectFile(file: ProjectFile): string {
+  return JSON.stringify(file);
+}
+
+export interface ParsedProjectFile {
+  layers: Layer[];
+  metadata: ProjectMetadata;
+  unknownBlockIds: string[];
+}
+
+export function decodeProjectFile(data: unknown): ParsedProjectFile {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ProjectFileError('Файл не является проектом Minecraft 2D');
+  }
+  if ((data as Record<string, unknown>).format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError('Файл не является проектом Minecraft 2D');
+  }
+
+  const result = projectFileSchema.safeParse(migrate(data as Record<string, unknown>));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new ProjectFileError(`Повреждённый файл проекта: ${issue.path.join('.') || 'корень'} — ${issue.message}`);
+  }
+
+  const { width, height, metadata } = result.data;
+  const palette = result.data.palette.map(parseBlockState);
+  const layers = result.data.layers.map(({ cells, ...props }) => {
+    const total = cells.reduce((sum, [count]) => sum + count, 0);
+    if (total !== width * height) {
+      throw new ProjectFileError(
+        `Повреждённый файл проекта: в слое «${props.name}» ожидалось ${width * height} блоков, найдено ${total}`
+      );
+    }
+
+    const invalid = cells.find(([, index]) => index >= palette.length);
+    if (invalid) {
+      throw new ProjectFileError(`Повреждённый файл проекта: индекс палитры ${invalid[1]} вне диапазона`);
+    }
+
+    // The runs were checked to cover the grid and to point into the palette.
+    const grid = toCellGrid({ width, height, palette, cells: decodeRuns(cells, width * height)! });
+    return { ...createLayer(props.name, grid), ...props };
+  });
+  const unknownBlockIds = [...new Set(palette.map(cell => cell.blockId))].filter(id => !knownBlockIds.has(id));
+
+  return { layers, metadata, unknownBlockIds };
+}
+
+export function parseProjectFile(text: string): ParsedProjectFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('Файл не является корректным JSON');
+  }
+  return decodeProjectFile(data);
+}
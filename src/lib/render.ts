@@ -0,0 +1,386 @@
+import type { BlockShape } from '@/data/minecraftBlocks';
+import { getAnimationState, TICK_DURATION } from '@/lib/animation';
+import { encodeApng, type ApngFrame } from '@/lib/apng';
+import { getBlock, normalizeState, type BlockStates } from '@/lib/blockState';
+import { getGridSize, type Bounds, type Cell, type Point } from '@/lib/grid';
+import { getSelectionOutline, type Selection, type SelectionDraft } from '@/lib/selection';
+import { getFrameTextures, type FrameTextures, type TextureSet } from '@/lib/textures';
+import { getSymmetryGrips, SYMMETRY_GRIP_RADIUS, type Symmetry } from '@/core/symmetry';
+
+export const MISSING_BLOCK_COLOR = '#F800F8';
+
+// Browsers refuse to allocate canvases much larger than this per side.
+export const MAX_EXPORT_SIZE = 16384;
+
+// Animated exports cover at most 20 seconds and this many distinct frames.
+const MAX_ANIMATION_TICKS = 400;
+const MAX_ANIMATION_FRAMES = 200;
+
+const SYMMETRY_COLOR = '#22D3EE';
+
+// Blocks that are not in the palette are drawn with the magenta/black checker
+// Minecraft uses for missing textures, so they stay visible and editable.
+export function drawMissingBlock(ctx: CanvasRenderingContext2D, x: number, y: number, size: number) {
+  const half = size / 2;
+  ctx.fillStyle = MISSING_BLOCK_COLOR;
+  ctx.fillRect(x, y, size, size);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(x, y, half, half);
+  ctx.fillRect(x + half, y + half, size - half, size - half);
+}
+
+// Part of a block in texture pixels (a block is 16×16), y pointing down like
+// the canvas. Shaded parts are set back from the viewer.
+interface BlockPart {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  shaded?: boolean;
+}
+
+const FULL_BLOCK: BlockPart[] = [{ x: 0, y: 0, width: 16, height: 16 }];
+
+function flipParts(parts: BlockPart[]): BlockPart[] {
+  return parts.map(part => ({ ...part, y: 16 - part.y - part.height }));
+}
+
+// The visible outline of a block on the wall, seen from the south: east is
+// to the right. The corner shape of stairs only shows from above, so the
+// side view ignores it.
+function getBlockParts(shape: BlockShape | undefined, state: BlockStates, row?: Cell[], column = -1): BlockPart[] {
+  switch (shape) {
+    case 'slab':
+      if (state.type === 'top') return [{ x: 0, y: 0, width: 16, height: 8 }];
+      if (state.type === 'bottom') return [{ x: 0, y: 8, width: 16, height: 8 }];
+      return FULL_BLOCK;
+    case 'stairs': {
+      const step: BlockPart =
+        state.facing === 'east' ? { x: 8, y: 0, width: 8, height: 8 }
+        : state.facing === 'west' ? { x: 0, y: 0, width: 8, height: 8 }
+        : { x: 0, y: 0, width: 16, height: 8, shaded: state.facing === 'north' };
+      const parts = [{ x: 0, y: 8, width: 16, height: 8 }, step];
+      return state.half === 'top' ? flipParts(parts) : parts;
+    }
+    case 'door':
+      if (state.facing === 'east') return [{ x: 0, y: 0, width: 3, height: 16 }];
+      if (state.facing === 'west') return [{ x: 13, y: 0, width: 3, height: 16 }];
+      return FULL_BLOCK;
+    case 'fence': {
+      const parts: BlockPart[] = [{ x: 6, y: 0, width: 4, height: 16 }];
+      const connects = (cell?: Cell) => cell !== undefined && cell.blockId !== 'air';
+      if (row && connects(row[column - 1])) {
+        parts.push({ x: 0, y: 1, width: 6, height: 3 }, { x: 0, y: 7, width: 6, height: 3 });
+      }
+      if (row && connects(row[column + 1])) {
+        parts.push({ x: 10, y: 1, width: 6, height: 3 }, { x: 10, y: 7, width: 6, height: 3 });
+      }
+      return parts;
+    }
+    default:
+      return FULL_BLOCK;
+  }
+}
+
+// Pillars lying along Z and the upper half of doors use the `<id>_top`
+// texture when there is one.
+function getTexture(cell: Cell, state: BlockStates, textures: FrameTextures | null) {
+  const useTop = state.axis === 'z' || state.half === 'upper';
+  const texture = (useTop && textures?.get(`${cell.blockId}_top`)) || textures?.get(cell.blockId);
+  return texture && !(texture instanceof HTMLImageElement && !texture.complete) ? texture : null;
+}
+
+// Draws one block at the given position; air is left empty. `row` and
+// `column` locate the cell in its grid so that fences can connect to their
+// neighbours.
+export function drawCell(
+  ctx: CanvasRenderingContext2D,
+  cell: Cell,
+  x: number,
+  y: number,
+  size: number,
+  textures: FrameTextures | null,
+  row?: Cell[],
+  column?: number
+) {
+  const block = getBlock(cell.blockId);
+  if (!block) {
+    drawMissingBlock(ctx, x, y, size);
+    return;
+  }
+  if (block.color === 'transparent') return;
+
+  const state = normalizeState(cell.blockId, cell.state) ?? {};
+  const texture = getTexture(cell, state, textures);
+
+  if (block.shape === 'pillar' && state.axis === 'x') {
+    ctx.save();
+    ctx.translate(x + size / 2, y + size / 2);
+    ctx.rotate(Math.PI / 2);
+    if (texture) {
+      ctx.drawImage(texture, -size / 2, -size / 2, size, size);
+    } else {
+      ctx.fillStyle = block.color;
+      ctx.fillRect(-size / 2, -size / 2, size, size);
+    }
+    ctx.restore();
+    return;
+  }
+
+  const pixel = texture ? texture.width / 16 : 0;
+  const at = (offset: number) => Math.round((offset * size) / 16);
+  for (const part of getBlockParts(block.shape, state, row, column)) {
+    const left = x + at(part.x);
+    const top = y + at(part.y);
+    const width = at(part.x + part.width) - at(part.x);
+    const height = at(part.y + part.height) - at(part.y);
+    if (texture) {
+      ctx.drawImage(texture, part.x * pixel, part.y * pixel, part.width * pixel, part.height * pixel, left, top, width, height);
+    } else {
+      ctx.fillStyle = block.color;
+      ctx.fillRect(left, top, width, height);
+    }
+    if (part.shaded) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+      ctx.fillRect(left, top, width, height);
+    }
+  }
+}
+
+export interface RenderOptions {
+  scale: number;
+  bounds?: Bounds;
+  background?: string;
+  showGrid?: boolean;
+  textures: FrameTextures | null;
+}
+
+// Renders the grid (or a part of it) onto a fresh offscreen canvas, with no
+// dependency on the editor viewport.
+export function renderGrid(grid: Cell[][], options: RenderOptions): HTMLCanvasElement {
+  const { scale, textures } = options;
+  const bounds = options.bounds ?? { x: 0, y: 0, ...getGridSize(grid) };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = bounds.width * scale;
+  canvas.height = bounds.height * scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  ctx.imageSmoothingEnabled = false;
+
+  if (options.background) {
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  for (let y = 0; y < bounds.height; y++) {
+    const row = grid[bounds.y + y];
+    for (let x = 0; x < bounds.width; x++) {
+      drawCell(ctx, row[bounds.x + x], x * scale, y * scale, scale, textures, row, bounds.x + x);
+    }
+  }
+
+  if (options.showGrid) {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+    for (let x = 0; x <= bounds.width; x++) {
+      ctx.fillRect(Math.min(x * scale, canvas.width - 1), 0, 1, canvas.height);
+    }
+    for (let y = 0; y <= bounds.height; y++) {
+      ctx.fillRect(0, Math.min(y * scale, canvas.height - 1), canvas.width, 1);
+    }
+  }
+
+  return canvas;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas is empty'))), 'image/png');
+  });
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+// Renders one loop of every animated texture in the grid as an APNG. Ticks
+// that look the same as the one before are merged into a longer frame.
+export async function renderAnimation(
+  grid: Cell[][],
+  options: Omit<RenderOptions, 'textures'>,
+  textureSet: TextureSet
+): Promise<Blob> {
+  const used = new Set(grid.flat().map(cell => cell.blockId));
+  const animations = [...textureSet.animations]
+    .filter(([key]) => used.has(key) || used.has(key.replace(/_top$/, '')))
+    .map(([, texture]) => texture.animation);
+  const loop = Math.min(
+    animations.reduce((ticks, { duration }) => (ticks * duration) / gcd(ticks, duration), 1),
+    MAX_ANIMATION_TICKS
+  );
+
+  const schedule: { tick: number; delay: number }[] = [];
+  let previous = '';
+  for (let tick = 0; tick < loop; tick++) {
+    const frame = animations
+      .map(animation => Object.values(getAnimationState(animation, tick)).join(':'))
+      .join(',');
+    if (frame === previous) {
+      schedule[schedule.length - 1].delay += TICK_DURATION;
+      continue;
+    }
+    if (schedule.length === MAX_ANIMATION_FRAMES) break;
+    schedule.push({ tick, delay: TICK_DURATION });
+    previous = frame;
+  }
+
+  const frames: ApngFrame[] = [];
+  for (const { tick, delay } of schedule) {
+    const blob = await canvasToBlob(renderGrid(grid, { ...options, textures: getFrameTextures(textureSet, tick) }));
+    frames.push({ png: new Uint8Array(await blob.arrayBuffer()), delay });
+  }
+  return encodeApng(frames);
+}
+
+export interface ShapePreview {
+  points: Point[];
+  cell: Cell;
+}
+
+export interface EditorOverlay {
+  cellSize: number;
+  pan: Point;
+  selection: Selection | null;
+  draft: SelectionDraft | null;
+  moveOffset: Point | null;
+  floating: HTMLCanvasElement | null;
+  preview: ShapePreview | null;
+  textures: FrameTextures | null;
+  // The symmetry axes are drawn across the grid of this size.
+  symmetry: { symmetry: Symmetry; width: number; height: number } | null;
+}
+
+// The mirror axes, or the spokes of radial symmetry, with the grips that
+// move the center.
+function drawSymmetryAxes(
+  ctx: CanvasRenderingContext2D,
+  symmetry: Symmetry,
+  width: number,
+  height: number,
+  cellSize: number
+) {
+  const { mode, center, folds } = symmetry;
+  const cx = center.x * cellSize;
+  const cy = center.y * cellSize;
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, width * cellSize, height * cellSize);
+  ctx.clip();
+
+  ctx.beginPath();
+  if (mode === 'horizontal' || mode === 'quad') {
+    ctx.moveTo(cx, 0);
+    ctx.lineTo(cx, height * cellSize);
+  }
+  if (mode === 'vertical' || mode === 'quad') {
+    ctx.moveTo(0, cy);
+    ctx.lineTo(width * cellSize, cy);
+  }
+  if (mode === 'radial') {
+    const length = Math.hypot(width, height) * cellSize;
+    for (let i = 0; i < folds; i++) {
+      // The first spoke points up.
+      const angle = (2 * Math.PI * i) / folds - Math.PI / 2;
+      ctx.moveTo(cx, cy);
+      ctx.lineTo(cx + Math.cos(angle) * length, cy + Math.sin(angle) * length);
+    }
+  }
+  ctx.lineWidth = 2;
+  ctx.setLineDash([6, 4]);
+  ctx.strokeStyle = SYMMETRY_COLOR;
+  ctx.stroke();
+  ctx.restore();
+
+  ctx.beginPath();
+  for (const { point } of getSymmetryGrips(symmetry, width, height, cellSize)) {
+    ctx.moveTo(point.x + SYMMETRY_GRIP_RADIUS, point.y);
+    ctx.arc(point.x, point.y, SYMMETRY_GRIP_RADIUS, 0, 2 * Math.PI);
+  }
+  ctx.fillStyle = SYMMETRY_COLOR;
+  ctx.fill();
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = '#000000';
+  ctx.stroke();
+}
+
+// Draws everything that is not committed to the grid yet: the shape being
+// drawn, the selection being moved and the selection outline as "marching
+// ants"; antsOffset animates the dash pattern. The symmetry axes go on top.
+export function drawEditorOverlay(ctx: CanvasRenderingContext2D, overlay: EditorOverlay, antsOffset: number) {
+  const { cellSize, pan, selection, draft, moveOffset, floating, preview } = overlay;
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.save();
+  ctx.translate(pan.x, pan.y);
+  ctx.imageSmoothingEnabled = false;
+
+  if (preview) {
+    ctx.globalAlpha = 0.7;
+    preview.points.forEach(({ x, y }) => {
+      drawCell(ctx, preview.cell, x * cellSize, y * cellSize, cellSize, overlay.textures);
+    });
+    ctx.globalAlpha = 1;
+  }
+
+  const dx = moveOffset?.x ?? 0;
+  const dy = moveOffset?.y ?? 0;
+
+  if (selection && floating && moveOffset) {
+    const { bounds } = selection;
+    ctx.globalAlpha = 0.85;
+    ctx.drawImage(
+      floating,
+      (bounds.x + dx) * cellSize,
+      (bounds.y + dy) * cellSize,
+      bounds.width * cellSize,
+      bounds.height * cellSize
+    );
+    ctx.globalAlpha = 1;
+  }
+
+  ctx.beginPath();
+  if (selection) {
+    for (const [x1, y1, x2, y2] of getSelectionOutline(selection)) {
+      ctx.moveTo((x1 + dx) * cellSize, (y1 + dy) * cellSize);
+      ctx.lineTo((x2 + dx) * cellSize, (y2 + dy) * cellSize);
+    }
+  }
+  if (draft?.mode === 'rect') {
+    const x = Math.min(draft.start.x, draft.end.x);
+    const y = Math.min(draft.start.y, draft.end.y);
+    const width = Math.abs(draft.end.x - draft.start.x) + 1;
+    const height = Math.abs(draft.end.y - draft.start.y) + 1;
+    ctx.rect(x * cellSize, y * cellSize, width * cellSize, height * cellSize);
+  } else if (draft?.mode === 'lasso') {
+    draft.points.forEach((point, i) => {
+      const px = (point.x + 0.5) * cellSize;
+      const py = (point.y + 0.5) * cellSize;
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    });
+  }
+
+  ctx.lineWidth = 1;
+  ctx.setLineDash([]);
+  ctx.strokeStyle = '#FFFFFF';
+  ctx.stroke();
+  ctx.setLineDash([4, 4]);
+  ctx.lineDashOffset = -antsOffset;
+  ctx.strokeStyle = '#000000';
+  ctx.stroke();
+
+  if (overlay.symmetry) {
+    const { symmetry, width, height } = overlay.symmetry;
+    ctx.setLineDash([]);
+    drawSymmetryAxes(ctx, symmetry, width, height, cellSize);
+  }
+
+  ctx.restore();
+}
@@ -0,0 +1,111 @@
+import { readZip, ZipError } from '@/lib/zip';
+
+const BLOCK_TEXTURES_PATH = 'assets/minecraft/textures/block/';
+
+// Resource packs this large are most likely not resource packs.
+export const MAX_RESOURCE_PACK_SIZE = 256 * 1024 * 1024;
+
+export interface ResourcePack {
+  id: string;
+  name: string;
+  description: string;
+  icon: Blob | null;
+  // Block textures by file name, e.g. `oak_log.png`.
+  textures: Record<string, Blob>;
+  // Contents of the `<file>.mcmeta` of animated textures, by texture file
+  // name. Missing in packs imported before animations were supported.
+  animations?: Record<string, string>;
+  createdAt: number;
+}
+
+export class ResourcePackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourcePackError';
+  }
+}
+
+// Descriptions are text components: a string, an object with `text` or
+// `extra`, or an array of those. Formatting codes (§a) are dropped.
+function toPlainText(component: unknown): string {
+  if (typeof component === 'string') return component;
+  if (Array.isArray(component)) return component.map(toPlainText).join('');
+  if (typeof component === 'object' && component !== null) {
+    const { text, extra } = component as { text?: unknown; extra?: unknown };
+    return toPlainText(text ?? '') + toPlainText(extra ?? '');
+  }
+  return '';
+}
+
+function readDescription(data: Uint8Array): string {
+  try {
+    const mcmeta = JSON.parse(new TextDecoder().decode(data));
+    return toPlainText(mcmeta?.pack?.description).replace(/§./g, '').trim();
+  } catch {
+    return '';
+  }
+}
+
+// Packs zipped together with their folder have everything under a single
+// top-level directory; pack.mcmeta marks the root either way.
+function findPackRoot(names: string[]): string | null {
+  const roots = names
+    .filter(name => name === 'pack.mcmeta' || name.endsWith('/pack.mcmeta'))
+    .map(name => name.slice(0, -'pack.mcmeta'.length))
+    .sort((a, b) => a.length - b.length);
+  return roots[0] ?? null;
+}
+
+export async function parseResourcePack(file: File): Promise<ResourcePack> {
+  if (file.size > MAX_RESOURCE_PACK_SIZE) {
+    throw new ResourcePackError('Ресурспак слишком большой');
+  }
+
+  let entries;
+  try {
+    entries = await readZip(
+      new Uint8Array(await file.arrayBuffer()),
+      name => name.endsWith('pack.mcmeta') || name.endsWith('pack.png') || name.includes(BLOCK_TEXTURES_PATH)
+    );
+  } catch (error) {
+    throw new ResourcePackError(error instanceof ZipError ? error.message : 'Не удалось прочитать архив');
+  }
+
+  const root = findPackRoot(entries.map(entry => entry.name));
+  if (root === null) {
+    throw new ResourcePackError('В архиве нет pack.mcmeta — это не ресурспак');
+  }
+
+  const texturesPath = root + BLOCK_TEXTURES_PATH;
+  const textures: Record<string, Blob> = {};
+  const animations: Record<string, string> = {};
+  let description = '';
+  let icon: Blob | null = null;
+  for (const { name, data } of entries) {
+    if (name === `${root}pack.mcmeta`) {
+      description = readDescription(data);
+    } else if (name === `${root}pack.png`) {
+      icon = new Blob([data], { type: 'image/png' });
+    } else if (name.startsWith(texturesPath) && name.endsWith('.png')) {
+      const fileName = name.slice(texturesPath.length);
+      if (!fileName.includes('/')) textures[fileName] = new Blob([data], { type: 'image/png' });
+    } else if (name.startsWith(texturesPath) && name.endsWith('.png.mcmeta')) {
+      const fileName = name.slice(texturesPath.length, -'.mcmeta'.length);
+      if (!fileName.includes('/')) animations[fileName] = new TextDecoder().decode(data);
+    }
+  }
+
+  if (Object.keys(textures).length === 0) {
+    throw new ResourcePackError('В ресурспаке нет текстур блоков');
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: file.name.replace(/\.zip$/i, ''),
+    description,
+    icon,
+    textures,
+    animations,
+    createdAt: Date.now(),
+  };
+}
@@ -0,0 +1,196 @@
+import { isSameBlock } from '@/lib/blockState';
+import { getGridSize, type Bounds, type Cell, type Point } from '@/lib/grid';
+
+export type SelectionMode = 'rect' | 'lasso' | 'wand';
+
+export type SelectionDraft =
+  | { mode: 'rect'; start: Point; end: Point }
+  | { mode: 'lasso'; points: Point[] };
+
+// A selection is a mask over the whole grid plus the bounding box of the
+// selected cells.
+export interface Selection {
+  width: number;
+  height: number;
+  mask: Uint8Array;
+  bounds: Bounds;
+}
+
+function fromMask(width: number, height: number, mask: Uint8Array): Selection | null {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) return null;
+  return { width, height, mask, bounds: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } };
+}
+
+export function isSelected(selection: Selection, x: number, y: number): boolean {
+  if (x < 0 || x >= selection.width || y < 0 || y >= selection.height) return false;
+  return selection.mask[y * selection.width + x] === 1;
+}
+
+export function createRectSelection(width: number, height: number, a: Point, b: Point): Selection | null {
+  const mask = new Uint8Array(width * height);
+  const x0 = Math.max(0, Math.min(a.x, b.x));
+  const x1 = Math.min(width - 1, Math.max(a.x, b.x));
+  const y0 = Math.max(0, Math.min(a.y, b.y));
+  const y1 = Math.min(height - 1, Math.max(a.y, b.y));
+  for (let y = y0; y <= y1; y++) {
+    mask.fill(1, y * width + x0, y * width + x1 + 1);
+  }
+  return fromMask(width, height, mask);
+}
+
+export function selectAll(width: number, height: number): Selection | null {
+  return createRectSelection(width, height, { x: 0, y: 0 }, { x: width - 1, y: height - 1 });
+}
+
+// Cells whose centers fall inside the polygon (even-odd rule) are selected,
+// as well as the cells the lasso passed through.
+export function createLassoSelection(width: number, height: number, points: Point[]): Selection | null {
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const cy = y + 0.5;
+    for (let x = 0; x < width; x++) {
+      const cx = x + 0.5;
+      let inside = false;
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const pi = { x: points[i].x + 0.5, y: points[i].y + 0.5 };
+        const pj = { x: points[j].x + 0.5, y: points[j].y + 0.5 };
+        if (pi.y > cy !== pj.y > cy && cx < ((pj.x - pi.x) * (cy - pi.y)) / (pj.y - pi.y) + pi.x) {
+          inside = !inside;
+        }
+      }
+      if (inside) mask[y * width + x] = 1;
+    }
+  }
+  points.forEach(p => {
+    if (p.x >= 0 && p.x < width && p.y >= 0 && p.y < height) mask[p.y * width + p.x] = 1;
+  });
+  return fromMask(width, height, mask);
+}
+
+// Selects the contiguous area of the same block as the clicked cell.
+export function createWandSelection(grid: Cell[][], startX: number, startY: number): Selection | null {
+  const { width, height } = getGridSize(grid);
+  const mask = new Uint8Array(width * height);
+  const target = grid[startY][startX];
+  const stack: [number, number][] = [[startX, startY]];
+
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!;
+    if (x < 0 || x >= width || y < 0 || y >= height) continue;
+    if (mask[y * width + x] || !isSameBlock(grid[y][x], target)) continue;
+    mask[y * width + x] = 1;
+    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+  }
+
+  return fromMask(width, height, mask);
+}
+
+// Bounding-box sized copy of the selected cells; unselected cells become air.
+export function extractSelection(grid: Cell[][], selection: Selection): Cell[][] {
+  const { x: bx, y: by, width, height } = selection.bounds;
+  return Array(height).fill(null).map((_, y) =>
+    Array(width).fill(null).map((_, x) =>
+      isSelected(selection, bx + x, by + y) ? grid[by + y][bx + x] : { blockId: 'air' }
+    )
+  );
+}
+
+export function clearSelection(grid: Cell[][], selection: Selection): Cell[][] {
+  const { y: by, height } = selection.bounds;
+  const newGrid = [...grid];
+  for (let y = by; y < by + height; y++) {
+    newGrid[y] = grid[y].map((cell, x) => (isSelected(selection, x, y) ? { blockId: 'air' } : cell));
+  }
+  return newGrid;
+}
+
+// Air in the pasted cells is treated as transparent.
+export function pasteCells(grid: Cell[][], cells: Cell[][], left: number, top: number): Cell[][] {
+  const { width, height } = getGridSize(grid);
+  const newGrid = [...grid];
+  cells.forEach((row, dy) => {
+    const y = top + dy;
+    if (y < 0 || y >= height) return;
+    let newRow: Cell[] | null = null;
+    row.forEach((cell, dx) => {
+      const x = left + dx;
+      if (x < 0 || x >= width || cell.blockId === 'air') return;
+      newRow ??= [...grid[y]];
+      newRow[x] = cell;
+    });
+    if (newRow) newGrid[y] = newRow;
+  });
+  return newGrid;
+}
+
+export function selectionFromCells(
+  width: number,
+  height: number,
+  cells: Cell[][],
+  left: number,
+  top: number
+): Selection | null {
+  const mask = new Uint8Array(width * height);
+  cells.forEach((row, dy) => {
+    row.forEach((cell, dx) => {
+      const x = left + dx;
+      const y = top + dy;
+      if (cell.blockId !== 'air' && x >= 0 && x < width && y >= 0 && y < height) {
+        mask[y * width + x] = 1;
+      }
+    });
+  });
+  return fromMask(width, height, mask);
+}
+
+export function translateSelection(selection: Selection, dx: number, dy: number): Selection | null {
+  const { width, height } = selection;
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (selection.mask[y * width + x] && isInside(width, height, x + dx, y + dy)) {
+        mask[(y + dy) * width + x + dx] = 1;
+      }
+    }
+  }
+  return fromMask(width, height, mask);
+}
+
+function isInside(width: number, height: number, x: number, y: number) {
+  return x >= 0 && x < width && y >= 0 && y < height;
+}
+
+export function moveSelection(grid: Cell[][], selection: Selection, dx: number, dy: number): Cell[][] {
+  const cells = extractSelection(grid, selection);
+  return pasteCells(clearSelection(grid, selection), cells, selection.bounds.x + dx, selection.bounds.y + dy);
+}
+
+// Unit-length cell edges between selected and unselected cells, as
+// [x1, y1, x2, y2] in cell coordinates.
+export function getSelectionOutline(selection: Selection): [number, number, number, number][] {
+  const segments: [number, number, number, number][] = [];
+  const { x: bx, y: by, width, height } = selection.bounds;
+  for (let y = by; y < by + height; y++) {
+    for (let x = bx; x < bx + width; x++) {
+      if (!isSelected(selection, x, y)) continue;
+      if (!isSelected(selection, x, y - 1)) segments.push([x, y, x + 1, y]);
+      if (!isSelected(selection, x, y + 1)) segments.push([x, y + 1, x + 1, y + 1]);
+      if (!isSelected(selection, x - 1, y)) segments.push([x, y, x, y + 1]);
+      if (!isSelected(selection, x + 1, y)) segments.push([x + 1, y, x + 1, y + 1]);
+    }
+  }
+  return segments;
+}
@@ -0,0 +1,209 @@
+import { isSameBlock } from '@/lib/blockState';
+import { getGridSize, type Cell, type Point } from '@/lib/grid';
+
+export type ShapeKind = 'line' | 'rect' | 'ellipse' | 'polygon';
+
+export interface ShapeOptions {
+  filled: boolean;
+  thickness: number;
+}
+
+export const MAX_SHAPE_THICKNESS = 8;
+
+// Bresenham's line algorithm; both ends are included.
+export function getLinePoints(a: Point, b: Point): Point[] {
+  const points: Point[] = [];
+  const dx = Math.abs(b.x - a.x);
+  const dy = -Math.abs(b.y - a.y);
+  const sx = a.x < b.x ? 1 : -1;
+  const sy = a.y < b.y ? 1 : -1;
+  let err = dx + dy;
+  let { x, y } = a;
+
+  for (;;) {
+    points.push({ x, y });
+    if (x === b.x && y === b.y) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) {
+      err += dy;
+      x += sx;
+    }
+    if (e2 <= dx) {
+      err += dx;
+      y += sy;
+    }
+  }
+  return points;
+}
+
+// Snaps lines to multiples of 45° and rectangles and ellipses to squares and
+// circles.
+export function constrainShapeEnd(kind: ShapeKind, start: Point, end: Point): Point {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+
+  if (kind === 'line' || kind === 'polygon') {
+    if (Math.abs(dx) > 2 * Math.abs(dy)) return { x: end.x, y: start.y };
+    if (Math.abs(dy) > 2 * Math.abs(dx)) return { x: start.x, y: end.y };
+  }
+  const size = Math.max(Math.abs(dx), Math.abs(dy));
+  return { x: start.x + Math.sign(dx || 1) * size, y: start.y + Math.sign(dy || 1) * size };
+}
+
+// Square stamp of the given thickness, centered on each point.
+function stamp(points: Point[], thickness: number): Point[] {
+  if (thickness <= 1) return points;
+  const offset = Math.floor((thickness - 1) / 2);
+  const seen = new Set<string>();
+  const result: Point[] = [];
+  points.forEach(p => {
+    for (let y = p.y - offset; y < p.y - offset + thickness; y++) {
+      for (let x = p.x - offset; x < p.x - offset + thickness; x++) {
+        const key = `${x},${y}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        result.push({ x, y });
+      }
+    }
+  });
+  return result;
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function toBox(a: Point, b: Point): Box {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, width: Math.abs(b.x - a.x) + 1, height: Math.abs(b.y - a.y) + 1 };
+}
+
+// Turns a filled mask into points. An outline keeps the cells that are at
+// most `thickness` steps from the outside of the shape, so thick outlines
+// grow inwards and the shape keeps the size that was dragged out.
+function maskToPoints(box: Box, mask: Uint8Array, options: ShapeOptions): Point[] {
+  const { width, height } = box;
+  let inner = mask;
+  if (!options.filled) {
+    for (let i = 0; i < options.thickness; i++) {
+      const eroded = new Uint8Array(inner.length);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const at = (nx: number, ny: number) =>
+            nx >= 0 && nx < width && ny >= 0 && ny < height && inner[ny * width + nx] === 1;
+          if (at(x, y) && at(x - 1, y) && at(x + 1, y) && at(x, y - 1) && at(x, y + 1)) {
+            eroded[y * width + x] = 1;
+          }
+        }
+      }
+      inner = eroded;
+    }
+  }
+
+  const points: Point[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (mask[i] && (options.filled || !inner[i])) points.push({ x: box.x + x, y: box.y + y });
+    }
+  }
+  return points;
+}
+
+function getRectPoints(a: Point, b: Point, options: ShapeOptions): Point[] {
+  const box = toBox(a, b);
+  return maskToPoints(box, new Uint8Array(box.width * box.height).fill(1), options);
+}
+
+// Cells whose centers lie inside the ellipse inscribed in the dragged box.
+function getEllipsePoints(a: Point, b: Point, options: ShapeOptions): Point[] {
+  const box = toBox(a, b);
+  const mask = new Uint8Array(box.width * box.height);
+  const rx = box.width / 2;
+  const ry = box.height / 2;
+  for (let y = 0; y < box.height; y++) {
+    for (let x = 0; x < box.width; x++) {
+      const nx = (x + 0.5 - rx) / rx;
+      const ny = (y + 0.5 - ry) / ry;
+      if (nx * nx + ny * ny <= 1) mask[y * box.width + x] = 1;
+    }
+  }
+  return maskToPoints(box, mask, options);
+}
+
+function getPolygonPoints(vertices: Point[], options: ShapeOptions): Point[] {
+  const edges = vertices.flatMap((v, i) => getLinePoints(v, vertices[(i + 1) % vertices.length]));
+  if (!options.filled) return stamp(edges, options.thickness);
+
+  const xs = vertices.map(v => v.x);
+  const ys = vertices.map(v => v.y);
+  const box = toBox(
+    { x: Math.min(...xs), y: Math.min(...ys) },
+    { x: Math.max(...xs), y: Math.max(...ys) }
+  );
+  const mask = new Uint8Array(box.width * box.height);
+  for (let y = 0; y < box.height; y++) {
+    const cy = box.y + y;
+    for (let x = 0; x < box.width; x++) {
+      const cx = box.x + x;
+      let inside = false;
+      for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+        const vi = vertices[i];
+        const vj = vertices[j];
+        if (vi.y > cy !== vj.y > cy && cx < ((vj.x - vi.x) * (cy - vi.y)) / (vj.y - vi.y) + vi.x) {
+          inside = !inside;
+        }
+      }
+      if (inside) mask[y * box.width + x] = 1;
+    }
+  }
+  edges.forEach(p => {
+    mask[(p.y - box.y) * box.width + p.x - box.x] = 1;
+  });
+  return maskToPoints(box, mask, options);
+}
+
+// Cells covered by a shape. Lines take their two ends, rectangles and ellipses
+// the corners of their bounding box, polygons their vertices.
+export function getShapePoints(kind: ShapeKind, points: Point[], options: ShapeOptions): Point[] {
+  if (points.length === 0) return [];
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  switch (kind) {
+    case 'line':
+      return stamp(getLinePoints(first, last), options.thickness);
+    case 'rect':
+      return getRectPoints(first, last, options);
+    case 'ellipse':
+      return getEllipsePoints(first, last, options);
+    case 'polygon':
+      return points.length < 3
+        ? stamp(getLinePoints(first, last), options.thickness)
+        : getPolygonPoints(points, options);
+  }
+}
+
+// Points outside the grid are skipped.
+export function paintPoints(grid: Cell[][], points: Point[], cell: Cell): Cell[][] {
+  const { width, height } = getGridSize(grid);
+  const newGrid = [...grid];
+  const copied = new Set<number>();
+  let changed = false;
+
+  points.forEach(({ x, y }) => {
+    if (x < 0 || x >= width || y < 0 || y >= height || isSameBlock(newGrid[y][x], cell)) return;
+    if (!copied.has(y)) {
+      newGrid[y] = [...grid[y]];
+      copied.add(y);
+    }
+    newGrid[y][x] = cell;
+    changed = true;
+  });
+
+  return changed ? newGrid : grid;
+}
@@ -0,0 +1,108 @@
+import type { StoredGrid } from '@/core/serialization';
+import { upgradeStoredGrid, type StoredLayers } from '@/lib/layers';
+import type { ResourcePack } from '@/lib/resourcePack';
+
+const DB_NAME = 'minecraft-2d';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const AUTOSAVE_STORE = 'autosave';
+const RESOURCE_PACKS_STORE = 'resourcePacks';
+const AUTOSAVE_KEY = 'current';
+
+export interface Project extends StoredLayers {
+  id: string;
+  name: string;
+  thumbnail: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Autosave extends StoredLayers {
+  projectId: string | null;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) {
+          db.createObjectStore(AUTOSAVE_STORE);
+        }
+        if (!db.objectStoreNames.contains(RESOURCE_PACKS_STORE)) {
+          db.createObjectStore(RESOURCE_PACKS_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Projects and autosaves written before layers existed are upgraded on read.
+type LegacyRecord<T extends StoredLayers> = T | (Omit<T, 'layers'> & StoredGrid);
+
+export async function listProjects(): Promise<Project[]> {
+  const projects = await withStore<LegacyRecord<Project>[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return projects.map(upgradeStoredGrid).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function putProject(project: Project): Promise<void> {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.put(project));
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+}
+
+export async function loadAutosave(): Promise<Autosave | undefined> {
+  const autosave = await withStore<LegacyRecord<Autosave> | undefined>(
+    AUTOSAVE_STORE,
+    'readonly',
+    store => store.get(AUTOSAVE_KEY)
+  );
+  return autosave && upgradeStoredGrid(autosave);
+}
+
+export async function saveAutosave(autosave: Autosave): Promise<void> {
+  await withStore(AUTOSAVE_STORE, 'readwrite', store => store.put(autosave, AUTOSAVE_KEY));
+}
+
+export async function listResourcePacks(): Promise<ResourcePack[]> {
+  const packs = await withStore<ResourcePack[]>(RESOURCE_PACKS_STORE, 'readonly', store => store.getAll());
+  return packs.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function putResourcePack(pack: ResourcePack): Promise<void> {
+  await withStore(RESOURCE_PACKS_STORE, 'readwrite', store => store.put(pack));
+}
+
+export async function deleteResourcePack(id: string): Promise<void> {
+  await withStore(RESOURCE_PACKS_STORE, 'readwrite', store => store.delete(id));
+}
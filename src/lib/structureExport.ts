@@ -0,0 +1,119 @@
+import { formatBlockState, normalizeState, type BlockStates } from '@/lib/blockState';
+import { getGridSize, type Cell } from '@/lib/grid';
+import { gzip } from '@/lib/compression';
+import { nbt, TagType, writeNbt, type NbtTag } from '@/lib/nbt';
+
+// Data version of Minecraft 1.21.4, the release the bundled textures come from.
+export const MINECRAFT_DATA_VERSION = 4189;
+
+export function toNamespacedId(blockId: string): string {
+  return blockId.includes(':') ? blockId : `minecraft:${blockId}`;
+}
+
+function getCellState(cell: Cell): BlockStates {
+  return normalizeState(cell.blockId, cell.state) ?? {};
+}
+
+// Namespaced id with the block state, e.g. `minecraft:oak_log[axis=x]`.
+export function toBlockStateString(cell: Cell): string {
+  return formatBlockState(toNamespacedId(cell.blockId), getCellState(cell));
+}
+
+function isAir(blockId: string) {
+  return blockId === 'air' || blockId === 'minecraft:air';
+}
+
+// The grid is exported as a vertical wall in the XY plane, one block deep:
+// grid columns map to +X and grid rows map to +Y counted from the bottom row.
+function toWorldY(y: number, height: number) {
+  return height - 1 - y;
+}
+
+function toPaletteEntry(cell: Cell): NbtTag {
+  const properties = Object.entries(getCellState(cell));
+  const name = nbt.string(toNamespacedId(cell.blockId));
+  if (properties.length === 0) return nbt.compound({ Name: name });
+  return nbt.compound({
+    Name: name,
+    Properties: nbt.compound(Object.fromEntries(properties.map(([key, value]) => [key, nbt.string(value)]))),
+  });
+}
+
+// Vanilla structure block format. Air cells are left out so that loading the
+// structure does not clear blocks around the wall.
+export async function exportStructureNbt(grid: Cell[][]): Promise<Uint8Array<ArrayBuffer>> {
+  const { width, height } = getGridSize(grid);
+  const palette: Cell[] = [];
+  const paletteIndex = new Map<string, number>();
+  const blocks: NbtTag[] = [];
+
+  grid.forEach((row, y) => {
+    row.forEach((cell, x) => {
+      if (isAir(cell.blockId)) return;
+      const key = toBlockStateString(cell);
+      let state = paletteIndex.get(key);
+      if (state === undefined) {
+        state = palette.length;
+        palette.push(cell);
+        paletteIndex.set(key, state);
+      }
+      blocks.push(nbt.compound({
+        pos: nbt.list(TagType.Int, [nbt.int(x), nbt.int(toWorldY(y, height)), nbt.int(0)]),
+        state: nbt.int(state),
+      }));
+    });
+  });
+
+  const data = writeNbt('', {
+    DataVersion: nbt.int(MINECRAFT_DATA_VERSION),
+    size: nbt.list(TagType.Int, [nbt.int(width), nbt.int(height), nbt.int(1)]),
+    palette: nbt.list(TagType.Compound, palette.map(toPaletteEntry)),
+    blocks: nbt.list(TagType.Compound, blocks),
+    entities: nbt.list(TagType.Compound, []),
+  });
+  return gzip(data);
+}
+
+function writeVarInt(bytes: number[], value: number) {
+  while ((value & ~0x7f) !== 0) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+}
+
+// Sponge schematic version 2, as read by WorldEdit and FAWE.
+export async function exportSpongeSchematic(grid: Cell[][]): Promise<Uint8Array<ArrayBuffer>> {
+  const { width, height } = getGridSize(grid);
+  const length = 1;
+  const palette = new Map<string, number>([['minecraft:air', 0]]);
+  const blockData: number[] = [];
+
+  // Blocks are indexed as x + z * Width + y * Width * Length.
+  for (let worldY = 0; worldY < height; worldY++) {
+    const row = grid[toWorldY(worldY, height)];
+    for (let x = 0; x < width; x++) {
+      const name = toBlockStateString(row[x]);
+      let index = palette.get(name);
+      if (index === undefined) {
+        index = palette.size;
+        palette.set(name, index);
+      }
+      writeVarInt(blockData, index);
+    }
+  }
+
+  const data = writeNbt('Schematic', {
+    Version: nbt.int(2),
+    DataVersion: nbt.int(MINECRAFT_DATA_VERSION),
+    Width: nbt.short(width),
+    Height: nbt.short(height),
+    Length: nbt.short(length),
+    Offset: nbt.intArray(new Int32Array([0, 0, 0])),
+    PaletteMax: nbt.int(palette.size),
+    Palette: nbt.compound(Object.fromEntries([...palette].map(([name, index]) => [name, nbt.int(index)]))),
+    BlockData: nbt.byteArray(Int8Array.from(blockData)),
+    BlockEntities: nbt.list(TagType.Compound, []),
+  });
+  return gzip(data);
+}
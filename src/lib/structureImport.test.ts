@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { nbt, TagType, writeNbt } from '@/lib/nbt';
+import { parseStructureFile, StructureImportError } from '@/lib/structureImport';
+
+// An uncompressed structure block file, 2×1×1, with one block at 0,0,0.
+function createStructure(state: number) {
+  return writeNbt('', {
+    size: nbt.list(TagType.Int, [nbt.int(2), nbt.int(1), nbt.int(1)]),
+    palette: nbt.list(TagType.Compound, [nbt.compound({ Name: nbt.string('minecraft:stone') })]),
+    blocks: nbt.list(TagType.Compound, [
+      nbt.compound({
+        pos: nbt.list(TagType.Int, [nbt.int(0), nbt.int(0), nbt.int(0)]),
+        state: nbt.int(state),
+      }),
+    ]),
+  }).buffer;
+}
+
+describe('parseStructureFile', () => {
+  it('reads the blocks of a structure file', async () => {
+    const volume = await parseStructureFile(createStructure(0));
+    expect(volume.format).toBe('structure');
+    expect(volume.palette[volume.blocks[0]].name).toBe('minecraft:stone');
+    expect(volume.palette[volume.blocks[1]].name).toBe('minecraft:air');
+  });
+
+  it('rejects a block that points past the end of the palette', async () => {
+    await expect(parseStructureFile(createStructure(1))).rejects.toBeInstanceOf(StructureImportError);
+    await expect(parseStructureFile(createStructure(-1))).rejects.toBeInstanceOf(StructureImportError);
+  });
+});
@@ -0,0 +1,386 @@
+import { gunzip, isGzip } from '@/lib/compression';
+import { createCell, type BlockStates } from '@/lib/blockState';
+import { MAX_CANVAS_SIZE, type Cell } from '@/lib/grid';
+import { getNumber, getTag, NbtError, readNbt, TagType, type NbtCompound } from '@/lib/nbt';
+import { mapBlockName, type BlockMapping } from '@/lib/blockMapping';
+
+export type StructureFormat = 'sponge' | 'structure' | 'litematic';
+export type SliceAxis = 'XY' | 'ZY' | 'XZ';
+
+const MAX_VOLUME = 64 * 1024 * 1024;
+
+export interface BlockState {
+  name: string;
+  properties: Record<string, string>;
+}
+
+// Voxels are stored as palette indices at x + z * width + y * width * length.
+export interface BlockVolume {
+  format: StructureFormat;
+  width: number;
+  height: number;
+  length: number;
+  palette: BlockState[];
+  blocks: Uint32Array;
+}
+
+export class StructureImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StructureImportError';
+  }
+}
+
+function createVolume(format: StructureFormat, width: number, height: number, length: number): BlockVolume {
+  if (width <= 0 || height <= 0 || length <= 0) {
+    throw new StructureImportError('Структура не содержит блоков');
+  }
+  if (width * height * length > MAX_VOLUME) {
+    throw new StructureImportError(`Структура ${width}×${height}×${length} слишком велика для импорта`);
+  }
+  return {
+    format,
+    width,
+    height,
+    length,
+    palette: [{ name: 'minecraft:air', properties: {} }],
+    blocks: new Uint32Array(width * height * length),
+  };
+}
+
+function parseStateString(value: string): BlockState {
+  const match = /^([^[]+)(?:\[(.*)\])?$/.exec(value);
+  const properties: Record<string, string> = {};
+  match?.[2]?.split(',').forEach(pair => {
+    const [key, propertyValue] = pair.split('=');
+    if (key && propertyValue !== undefined) properties[key.trim()] = propertyValue.trim();
+  });
+  return { name: match ? match[1] : value, properties };
+}
+
+function readStateCompound(compound: NbtCompound): BlockState {
+  const properties: Record<string, string> = {};
+  const props = getTag(compound, 'Properties', TagType.Compound)?.value;
+  Object.entries(props ?? {}).forEach(([key, tag]) => {
+    if (tag.type === TagType.String) properties[key] = tag.value;
+  });
+  return { name: getTag(compound, 'Name', TagType.String)?.value ?? 'minecraft:air', properties };
+}
+
+function stateKey(state: BlockState): string {
+  const props = Object.entries(state.properties).sort(([a], [b]) => a.localeCompare(b));
+  return props.length === 0 ? state.name : `${state.name}[${props.map(([k, v]) => `${k}=${v}`).join(',')}]`;
+}
+
+function parseSponge(root: NbtCompound): BlockVolume {
+  const schematic = getTag(root, 'Schematic', TagType.Compound)?.value ?? root;
+  const version = getNumber(schematic, 'Version') ?? 1;
+  const container = version >= 3 ? getTag(schematic, 'Blocks', TagType.Compound)?.value : schematic;
+  const palette = getTag(container, 'Palette', TagType.Compound)?.value;
+  const data = getTag(container, version >= 3 ? 'Data' : 'BlockData', TagType.ByteArray)?.value;
+  if (!palette || !data) {
+    throw new StructureImportError('В схематике нет блоков');
+  }
+
+  // Dimensions are stored as unsigned shorts.
+  const width = (getNumber(schematic, 'Width') ?? 0) & 0xffff;
+  const height = (getNumber(schematic, 'Height') ?? 0) & 0xffff;
+  const length = (getNumber(schematic, 'Length') ?? 0) & 0xffff;
+  const volume = createVolume('sponge', width, height, length);
+
+  const indexMap = new Map<number, number>();
+  Object.entries(palette).forEach(([name, tag]) => {
+    if (tag.type !== TagType.Int) return;
+    indexMap.set(tag.value, volume.palette.length);
+    volume.palette.push(parseStateString(name));
+  });
+
+  let offset = 0;
+  for (let i = 0; i < volume.blocks.length; i++) {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (offset >= data.length) {
+        throw new StructureImportError('Данные схематики обрываются');
+      }
+      byte = data[offset++] & 0xff;
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    volume.blocks[i] = indexMap.get(value) ?? 0;
+  }
+
+  return volume;
+}
+
+function parseStructure(root: NbtCompound): BlockVolume {
+  const size = getTag(root, 'size', TagType.List)?.value;
+  const [width, height, length] = (size ?? []).map(tag => (tag.type === TagType.Int ? tag.value : 0));
+  const volume = createVolume('structure', width ?? 0, height ?? 0, length ?? 0);
+
+  // Structures with random variants store several palettes; the first one is
+  // what the structure block places by default.
+  let paletteTags = getTag(root, 'palette', TagType.List)?.value;
+  const palettes = getTag(root, 'palettes', TagType.List)?.value;
+  if (!paletteTags && palettes?.[0]?.type === TagType.List) {
+    paletteTags = palettes[0].value;
+  }
+  const offset = volume.palette.length;
+  (paletteTags ?? []).forEach(tag => {
+    if (tag.type === TagType.Compound) volume.palette.push(readStateCompound(tag.value));
+  });
+  const paletteSize = volume.palette.length - offset;
+
+  getTag(root, 'blocks', TagType.List)?.value.forEach(tag => {
+    if (tag.type !== TagType.Compound) return;
+    const pos = getTag(tag.value, 'pos', TagType.List)?.value;
+    const state = getNumber(tag.value, 'state');
+    if (!pos || pos.length !== 3 || state === undefined) return;
+    const [x, y, z] = pos.map(p => (p.type === TagType.Int ? p.value : -1));
+    if (x < 0 || x >= volume.width || y < 0 || y >= volume.height || z < 0 || z >= volume.length) return;
+    if (!Number.isInteger(state) || state < 0 || state >= paletteSize) {
+      throw new StructureImportError(`Блок ссылается на запись палитры ${state}, которой нет в файле`);
+    }
+    volume.blocks[x + z * volume.width + y * volume.width * volume.length] = offset + state;
+  });
+
+  return volume;
+}
+
+interface LitematicRegion {
+  x: number;
+  y: number;
+  z: number;
+  sizeX: number;
+  sizeY: number;
+  sizeZ: number;
+  palette: BlockState[];
+  states: BigInt64Array;
+}
+
+function readVector(compound: NbtCompound | undefined) {
+  return {
+    x: getNumber(compound, 'x') ?? 0,
+    y: getNumber(compound, 'y') ?? 0,
+    z: getNumber(compound, 'z') ?? 0,
+  };
+}
+
+function parseLitematic(root: NbtCompound): BlockVolume {
+  const regions: LitematicRegion[] = [];
+  Object.values(getTag(root, 'Regions', TagType.Compound)?.value ?? {}).forEach(tag => {
+    if (tag.type !== TagType.Compound) return;
+    const position = readVector(getTag(tag.value, 'Position', TagType.Compound)?.value);
+    const size = readVector(getTag(tag.value, 'Size', TagType.Compound)?.value);
+    const states = getTag(tag.value, 'BlockStates', TagType.LongArray)?.value;
+    const palette = getTag(tag.value, 'BlockStatePalette', TagType.List)?.value ?? [];
+    if (!states) return;
+
+    // Negative sizes mean the region extends backwards from its position.
+    regions.push({
+      x: position.x + (size.x < 0 ? size.x + 1 : 0),
+      y: position.y + (size.y < 0 ? size.y + 1 : 0),
+      z: position.z + (size.z < 0 ? size.z + 1 : 0),
+      sizeX: Math.abs(size.x),
+      sizeY: Math.abs(size.y),
+      sizeZ: Math.abs(size.z),
+      palette: palette.flatMap(p => (p.type === TagType.Compound ? [readStateCompound(p.value)] : [])),
+      states,
+    });
+  });
+  if (regions.length === 0) {
+    throw new StructureImportError('В файле Litematica нет регионов');
+  }
+
+  const minX = Math.min(...regions.map(r => r.x));
+  const minY = Math.min(...regions.map(r => r.y));
+  const minZ = Math.min(...regions.map(r => r.z));
+  const volume = createVolume(
+    'litematic',
+    Math.max(...regions.map(r => r.x + r.sizeX)) - minX,
+    Math.max(...regions.map(r => r.y + r.sizeY)) - minY,
+    Math.max(...regions.map(r => r.z + r.sizeZ)) - minZ,
+  );
+
+  const paletteIndex = new Map<string, number>([[stateKey(volume.palette[0]), 0]]);
+  for (const region of regions) {
+    const localToGlobal = region.palette.map(state => {
+      const key = stateKey(state);
+      let index = paletteIndex.get(key);
+      if (index === undefined) {
+        index = volume.palette.length;
+        volume.palette.push(state);
+        paletteIndex.set(key, index);
+      }
+      return index;
+    });
+
+    // Entries are packed tightly and may span two longs; reading the longs as
+    // little-endian 32-bit words keeps the bit math in plain numbers.
+    const bits = Math.max(2, 32 - Math.clz32(Math.max(region.palette.length - 1, 1)));
+    const mask = bits >= 32 ? 0xffffffff : (1 << bits) - 1;
+    const words = new Uint32Array(region.states.length * 2);
+    region.states.forEach((value, i) => {
+      const unsigned = BigInt.asUintN(64, value);
+      words[i * 2] = Number(unsigned & 0xffffffffn);
+      words[i * 2 + 1] = Number(unsigned >> 32n);
+    });
+
+    const layer = region.sizeX * region.sizeZ;
+    const total = layer * region.sizeY;
+    if (total * bits > words.length * 32) {
+      throw new StructureImportError('Данные региона Litematica обрываются');
+    }
+    for (let i = 0; i < total; i++) {
+      const start = i * bits;
+      const word = start >>> 5;
+      const shift = start & 31;
+      let value = words[word] >>> shift;
+      if (shift + bits > 32) value |= words[word + 1] << (32 - shift);
+      const local = (value & mask) >>> 0;
+
+      const y = Math.floor(i / layer);
+      const z = Math.floor((i % layer) / region.sizeX);
+      const x = i % region.sizeX;
+      const gx = region.x - minX + x;
+      const gy = region.y - minY + y;
+      const gz = region.z - minZ + z;
+      volume.blocks[gx + gz * volume.width + gy * volume.width * volume.length] = localToGlobal[local] ?? 0;
+    }
+  }
+
+  return volume;
+}
+
+export async function parseStructureFile(buffer: ArrayBuffer): Promise<BlockVolume> {
+  let data: Uint8Array<ArrayBuffer> = new Uint8Array(buffer);
+  try {
+    if (isGzip(data)) data = await gunzip(data);
+  } catch {
+    throw new StructureImportError('Не удалось распаковать файл');
+  }
+
+  let root: NbtCompound;
+  try {
+    root = readNbt(data).root;
+  } catch (error) {
+    throw new StructureImportError(error instanceof NbtError ? error.message : 'Файл повреждён');
+  }
+
+  if (getTag(root, 'Regions', TagType.Compound)) return parseLitematic(root);
+  if (getTag(root, 'Schematic', TagType.Compound) || getTag(root, 'BlockData', TagType.ByteArray) || getTag(root, 'Palette', TagType.Compound)) {
+    return parseSponge(root);
+  }
+  if (getTag(root, 'size', TagType.List)) return parseStructure(root);
+  if (getTag(root, 'Blocks', TagType.ByteArray)) {
+    throw new StructureImportError('Старый формат MCEdit .schematic не поддерживается — пересохраните его в .schem');
+  }
+  throw new StructureImportError('Неизвестный формат структуры');
+}
+
+export function getSliceCount(volume: BlockVolume, axis: SliceAxis): number {
+  switch (axis) {
+    case 'XY':
+      return volume.length;
+    case 'ZY':
+      return volume.width;
+    case 'XZ':
+      return volume.height;
+  }
+}
+
+function getSliceSize(volume: BlockVolume, axis: SliceAxis) {
+  switch (axis) {
+    case 'XY':
+      return { width: volume.width, height: volume.height };
+    case 'ZY':
+      return { width: volume.length, height: volume.height };
+    case 'XZ':
+      return { width: volume.width, height: volume.length };
+  }
+}
+
+// Maps a cell of the 2D slice back to the voxel index. Vertical slices are
+// flipped so that the top of the build ends up at the top of the canvas; the
+// horizontal slice is a top-down view with north at the top.
+function voxelIndex(volume: BlockVolume, axis: SliceAxis, slice: number, gx: number, gy: number): number {
+  const { width, height, length } = volume;
+  switch (axis) {
+    case 'XY':
+      return gx + slice * width + (height - 1 - gy) * width * length;
+    case 'ZY':
+      return slice + gx * width + (height - 1 - gy) * width * length;
+    case 'XZ':
+      return gx + gy * width + slice * width * length;
+  }
+}
+
+export function mapVolumePalette(volume: BlockVolume): BlockMapping[] {
+  return volume.palette.map(state => mapBlockName(state.name));
+}
+
+export function findDensestSlice(volume: BlockVolume, axis: SliceAxis, mapping: BlockMapping[]): number {
+  const count = getSliceCount(volume, axis);
+  const { width, height } = getSliceSize(volume, axis);
+  let best = 0;
+  let bestBlocks = -1;
+  for (let slice = 0; slice < count; slice++) {
+    let blocks = 0;
+    for (let gy = 0; gy < height; gy++) {
+      for (let gx = 0; gx < width; gx++) {
+        if (mapping[volume.blocks[voxelIndex(volume, axis, slice, gx, gy)]].blockId !== 'air') blocks++;
+      }
+    }
+    if (blocks > bestBlocks) {
+      best = slice;
+      bestBlocks = blocks;
+    }
+  }
+  return best;
+}
+
+// The editor shows a wall seen from the south: east is to the right and
+// south faces the viewer. A ZY slice is seen from the west instead, so its
+// directions and horizontal axes are turned to match; a top-down XZ slice
+// swaps the vertical axis with the depth.
+const sliceFacing: Partial<Record<SliceAxis, Record<string, string>>> = {
+  ZY: { south: 'east', north: 'west', west: 'south', east: 'north' },
+};
+
+const sliceAxes: Partial<Record<SliceAxis, Record<string, string>>> = {
+  ZY: { x: 'z', z: 'x' },
+  XZ: { y: 'z', z: 'y' },
+};
+
+function toSliceState(properties: Record<string, string>, axis: SliceAxis): BlockStates {
+  const state = { ...properties };
+  if (state.facing) state.facing = sliceFacing[axis]?.[state.facing] ?? state.facing;
+  if (state.axis) state.axis = sliceAxes[axis]?.[state.axis] ?? state.axis;
+  return state;
+}
+
+// Slices larger than the maximum canvas size are cropped from the top-left.
+// Block states carry over; properties the mapped block does not declare are
+// dropped.
+export function sliceVolume(
+  volume: BlockVolume,
+  axis: SliceAxis,
+  slice: number,
+  mapping: BlockMapping[]
+): Cell[][] {
+  const size = getSliceSize(volume, axis);
+  const width = Math.min(size.width, MAX_CANVAS_SIZE);
+  const height = Math.min(size.height, MAX_CANVAS_SIZE);
+  const cells = volume.palette.map((state, i) =>
+    createCell(mapping[i].blockId, toSliceState(state.properties, axis))
+  );
+  return Array(height).fill(null).map((_, gy) =>
+    Array(width).fill(null).map((_, gx) => cells[volume.blocks[voxelIndex(volume, axis, slice, gx, gy)]])
+  );
+}
+
+export function isSliceCropped(volume: BlockVolume, axis: SliceAxis): boolean {
+  const { width, height } = getSliceSize(volume, axis);
+  return width > MAX_CANVAS_SIZE || height > MAX_CANVAS_SIZE;
+}
@@ -0,0 +1,259 @@
+import { blockTextureFiles, blockTextureTints } from '@/data/minecraftBlockTextures';
+import { getAnimationState, parseAnimation, type TextureAnimation } from '@/lib/animation';
+import type { ResourcePack } from '@/lib/resourcePack';
+
+// Texture frames in the atlas that is packed at build time, with the .mcmeta
+// of animated ones; see plugins/textureAtlas.ts.
+export interface TextureAtlas {
+  url: string;
+  tileSize: number;
+  textures: Record<string, { frames: [number, number][]; mcmeta?: unknown }>;
+}
+
+// Every texture is a square image of its own, keyed by block id (and
+// `<id>_top` for the extra textures of some block states). Animated textures
+// are represented by their first frame.
+export type BlockTextures = Map<string, HTMLImageElement>;
+
+export type TextureImage = HTMLImageElement | HTMLCanvasElement;
+
+// What the canvas draws at a given moment: animated textures are replaced by
+// their current frame.
+export type FrameTextures = ReadonlyMap<string, TextureImage>;
+
+export interface AnimatedTexture {
+  frames: HTMLImageElement[];
+  animation: TextureAnimation;
+}
+
+export interface TextureSet {
+  textures: BlockTextures;
+  animations: Map<string, AnimatedTexture>;
+}
+
+interface LoadedTexture {
+  image: HTMLImageElement;
+  animated?: AnimatedTexture;
+}
+
+export const emptyTextureSet: TextureSet = { textures: new Map(), animations: new Map() };
+
+// Overrides the bundled atlas with loose textures from another server, e.g.
+// `https://example.com/assets/minecraft/textures/block`. Nothing is fetched
+// from other sites unless it is set.
+const TEXTURE_BASE_URL: string | undefined = import.meta.env.VITE_TEXTURE_BASE_URL;
+
+function loadImage(url: string, crossOrigin = false): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    if (crossOrigin) img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load ${url}`));
+    img.src = url;
+  });
+}
+
+// A data URL rather than an object URL: textures are tiny, and nothing has
+// to be revoked when a texture set is replaced.
+function canvasToImage(canvas: HTMLCanvasElement): Promise<HTMLImageElement> {
+  return loadImage(canvas.toDataURL('image/png'));
+}
+
+// Decodes an image file through a short-lived object URL. The image is copied
+// to a data URL, so the <img> elements that show it keep working after the
+// object URL is revoked.
+async function loadBlobImage(blob: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    canvas.getContext('2d')?.drawImage(img, 0, 0);
+    return await canvasToImage(canvas);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function cropImage(source: CanvasImageSource, x: number, y: number, size: number): Promise<HTMLImageElement> {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  canvas.getContext('2d')?.drawImage(source, x, y, size, size, 0, 0, size, size);
+  return canvasToImage(canvas);
+}
+
+// Multiplies the colors by the tint and keeps the alpha of the texture.
+function tintImage(img: HTMLImageElement, color: string): Promise<HTMLImageElement> {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.drawImage(img, 0, 0);
+    ctx.globalCompositeOperation = 'multiply';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(img, 0, 0);
+  }
+  return canvasToImage(canvas);
+}
+
+async function createTexture(frames: HTMLImageElement[], mcmeta: unknown, tint?: string): Promise<LoadedTexture> {
+  const animation = parseAnimation(mcmeta, frames.length);
+  const used = animation ? frames : frames.slice(0, 1);
+  const images = tint ? await Promise.all(used.map(frame => tintImage(frame, tint))) : used;
+  return {
+    image: images[0],
+    animated: animation ? { frames: images, animation } : undefined,
+  };
+}
+
+// Animated textures are strips of square frames.
+function splitFrames(img: HTMLImageElement): Promise<HTMLImageElement[]> {
+  const size = img.naturalWidth;
+  if (img.naturalHeight <= size) return Promise.resolve([img]);
+  const count = Math.floor(img.naturalHeight / size);
+  return Promise.all(Array.from({ length: count }, (_, i) => cropImage(img, 0, i * size, size)));
+}
+
+// Loads every texture key through `load`, sharing the work between keys that
+// use the same file and tint. Keys that load to null are left out.
+async function loadTextureSet(
+  keys: [string, string][],
+  load: (file: string, tint?: string) => Promise<LoadedTexture | null>
+): Promise<Map<string, LoadedTexture>> {
+  const byFile = new Map<string, Promise<LoadedTexture | null>>();
+  const entries = await Promise.all(
+    keys.map(async ([key, file]) => {
+      const tint = blockTextureTints[key];
+      const id = `${file}|${tint ?? ''}`;
+      let texture = byFile.get(id);
+      if (!texture) {
+        texture = load(file, tint).catch(() => null);
+        byFile.set(id, texture);
+      }
+      return [key, await texture] as const;
+    })
+  );
+  const loaded = new Map<string, LoadedTexture>();
+  for (const [key, texture] of entries) {
+    if (texture) loaded.set(key, texture);
+  }
+  return loaded;
+}
+
+function toTextureSet(loaded: Map<string, LoadedTexture>, base: TextureSet = emptyTextureSet): TextureSet {
+  const textures = new Map(base.textures);
+  const animations = new Map(base.animations);
+  for (const [key, { image, animated }] of loaded) {
+    textures.set(key, image);
+    if (animated) animations.set(key, animated);
+    else animations.delete(key);
+  }
+  return { textures, animations };
+}
+
+// Cuts the atlas into one image per tile, so textures can be drawn and shown
+// in <img> elements like separate files.
+async function loadAtlas(atlas: TextureAtlas): Promise<TextureSet> {
+  const sheet = await loadImage(atlas.url);
+  const keys = Object.keys(atlas.textures).map(key => [key, key] as [string, string]);
+  const frameImages = new Map<string, Promise<HTMLImageElement>>();
+  const loadFrame = ([x, y]: [number, number]) => {
+    const position = `${x},${y}`;
+    let image = frameImages.get(position);
+    if (!image) {
+      image = cropImage(sheet, x, y, atlas.tileSize);
+      frameImages.set(position, image);
+    }
+    return image;
+  };
+
+  // Keys are loaded by themselves here, so tiles are shared by position.
+  const loaded = await loadTextureSet(keys, async (key, tint) => {
+    const { frames, mcmeta } = atlas.textures[key];
+    return createTexture(await Promise.all(frames.map(loadFrame)), mcmeta, tint);
+  });
+  return toTextureSet(loaded);
+}
+
+async function fetchMcmeta(url: string): Promise<unknown> {
+  const response = await fetch(url);
+  return response.ok ? response.json() : null;
+}
+
+// Textures that fail to load are left out; those blocks are drawn with their
+// flat color.
+async function loadRemote(baseUrl: string): Promise<TextureSet> {
+  const root = baseUrl.replace(/\/$/, '');
+  const loaded = await loadTextureSet(Object.entries(blockTextureFiles), async (file, tint) => {
+    const img = await loadImage(`${root}/${file}`, true);
+    const frames = await splitFrames(img);
+    const mcmeta = frames.length > 1 ? await fetchMcmeta(`${root}/${file}.mcmeta`).catch(() => null) : null;
+    return createTexture(frames, mcmeta, tint);
+  });
+  return toTextureSet(loaded);
+}
+
+export async function loadBlockTextures(): Promise<TextureSet> {
+  if (TEXTURE_BASE_URL) return loadRemote(TEXTURE_BASE_URL);
+  const { default: atlas } = await import('virtual:block-atlas');
+  // Without textures to pack every block is drawn with its flat color.
+  return atlas ? loadAtlas(atlas) : emptyTextureSet;
+}
+
+function parseJson(text: string | undefined): unknown {
+  try {
+    return text === undefined ? null : JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+// Textures of the pack replace the ones it has; everything else keeps the
+// base texture. Files that fail to decode are skipped.
+export async function applyResourcePack(base: TextureSet, pack: ResourcePack): Promise<TextureSet> {
+  const keys = Object.entries(blockTextureFiles).filter(([, file]) => pack.textures[file]);
+  const loaded = await loadTextureSet(keys, async (file, tint) => {
+    const img = await loadBlobImage(pack.textures[file]);
+    return createTexture(await splitFrames(img), parseJson(pack.animations?.[file]), tint);
+  });
+  return toTextureSet(loaded, base);
+}
+
+// Blends two frames for interpolated animations.
+function blendFrames(from: HTMLImageElement, to: HTMLImageElement, progress: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = from.naturalWidth;
+  canvas.height = from.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.drawImage(from, 0, 0);
+    ctx.globalAlpha = progress;
+    ctx.drawImage(to, 0, 0);
+  }
+  return canvas;
+}
+
+// Textures as they look at `tick` of the shared animation clock.
+export function getFrameTextures({ textures, animations }: TextureSet, tick: number): FrameTextures {
+  if (animations.size === 0) return textures;
+  const frameTextures = new Map<string, TextureImage>(textures);
+  for (const [key, { frames, animation }] of animations) {
+    const { index, next, progress } = getAnimationState(animation, tick);
+    frameTextures.set(key, progress > 0 ? blendFrames(frames[index], frames[next], progress) : frames[index]);
+  }
+  return frameTextures;
+}
+
+// Whether any of the blocks changes over time.
+export function hasAnimatedTextures(animations: TextureSet['animations'], blockIds: Iterable<string>): boolean {
+  if (animations.size === 0) return false;
+  for (const blockId of blockIds) {
+    if (animations.has(blockId) || animations.has(`${blockId}_top`)) return true;
+  }
+  return false;
+}
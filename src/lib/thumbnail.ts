@@ -0,0 +1,19 @@
+import { getGridSize, type Cell } from '@/lib/grid';
+import { renderGrid } from '@/lib/render';
+import type { BlockTextures } from '@/lib/textures';
+
+// Textures that failed the CORS check taint the canvas and make toDataURL
+// throw, so fall back to flat block colors in that case.
+export function renderThumbnail(
+  grid: Cell[][],
+  textures: BlockTextures,
+  maxSize = 160
+): string {
+  const { width, height } = getGridSize(grid);
+  const scale = Math.max(1, Math.floor(maxSize / Math.max(width, height, 1)));
+  try {
+    return renderGrid(grid, { scale, textures }).toDataURL('image/png');
+  } catch {
+    return renderGrid(grid, { scale, textures: null }).toDataURL('image/png');
+  }
+}
@@ -0,0 +1,30 @@
+import type { Tool } from '@/core/pointer';
+
+export const toolLabels: Record<Tool, string> = {
+  brush: 'Кисть',
+  eraser: 'Ластик',
+  fill: 'Заливка',
+  eyedropper: 'Пипетка',
+  replace: 'Замена',
+  select: 'Выделение',
+  pan: 'Рука',
+  line: 'Линия',
+  rect: 'Прямоугольник',
+  ellipse: 'Эллипс',
+  polygon: 'Многоугольник',
+};
+
+// Icons of the tools, and their English names for the command palette.
+export const toolCommands: Record<Tool, { icon: string; keywords: string[] }> = {
+  brush: { icon: 'Brush', keywords: ['brush', 'pencil'] },
+  eraser: { icon: 'Eraser', keywords: ['eraser'] },
+  fill: { icon: 'PaintBucket', keywords: ['fill', 'bucket'] },
+  eyedropper: { icon: 'Pipette', keywords: ['eyedropper', 'pick block'] },
+  replace: { icon: 'Replace', keywords: ['replace'] },
+  select: { icon: 'SquareDashed', keywords: ['select', 'selection'] },
+  pan: { icon: 'Hand', keywords: ['hand', 'pan'] },
+  line: { icon: 'Slash', keywords: ['line'] },
+  rect: { icon: 'Square', keywords: ['rectangle'] },
+  ellipse: { icon: 'Circle', keywords: ['ellipse', 'circle'] },
+  polygon: { icon: 'Pentagon', keywords: ['polygon'] },
+};
@@ -0,0 +1,167 @@
+import { inflateRaw } from '@/lib/compression';
+
+// Minimal ZIP archive support. Written entries are stored uncompressed, which
+// every zip reader, including Minecraft's, accepts.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const { time, day } = dosDateTime(new Date());
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true);
+    lv.setUint16(8, 0, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, day, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, entry.data.length, true);
+    lv.setUint32(22, entry.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, day, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, entry.data.length, true);
+    cv.setUint32(24, entry.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localParts.push(local, entry.data);
+    centralParts.push(central);
+    offset += local.length + entry.data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const result = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of [...localParts, ...centralParts, end]) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+export interface ReadZipEntry extends ZipEntry {
+  data: Uint8Array<ArrayBuffer>;
+}
+
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - END_OF_CENTRAL_DIRECTORY_SIZE;
+  const first = Math.max(0, last - MAX_COMMENT_LENGTH);
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) return offset;
+  }
+  throw new ZipError('Файл не является zip-архивом');
+}
+
+// Reads the entries whose names pass the filter; directories are skipped.
+// Stored and deflated entries are supported, which covers what resource pack
+// tools and the Minecraft launcher produce. ZIP64 archives are not.
+export async function readZip(
+  data: Uint8Array<ArrayBuffer>,
+  filter: (name: string) => boolean = () => true
+): Promise<ReadZipEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const end = findEndOfCentralDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff) throw new ZipError('Архивы ZIP64 не поддерживаются');
+
+  const decoder = new TextDecoder();
+  const entries: ReadZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== 0x02014b50) {
+      throw new ZipError('Повреждённый каталог архива');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !filter(name)) continue;
+    if (localOffset + 30 > data.length || view.getUint32(localOffset, true) !== 0x04034b50) {
+      throw new ZipError(`Повреждённый файл ${name} в архиве`);
+    }
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = data.slice(start, start + compressedSize);
+    if (method === 0) {
+      entries.push({ name, data: raw });
+    } else if (method === 8) {
+      entries.push({ name, data: await inflateRaw(raw) });
+    } else {
+      throw new ZipError(`Неподдерживаемый метод сжатия ${method} у файла ${name}`);
+    }
+  }
+  return entries;
+}
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_TEXTURE_BASE_URL?: string;
+}
+
+declare module 'virtual:block-atlas' {
+  const atlas: import('@/lib/textures').TextureAtlas | null;
+  export default atlas;
+}
@@ -2,11 +2,17 @@ import {defineConfig} from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import {componentTagger} from "pp-tagger";
+import {textureAtlas} from "./plugins/textureAtlas";
+import {blockTextureFiles} from "./src/data/minecraftBlockTextures";
 
 // https://vitejs.dev/config/
 export default defineConfig(({mode}) => ({
     plugins: [
         react(),
+        textureAtlas({
+            textures: blockTextureFiles,
+            sourceDir: process.env.TEXTURES_DIR ?? path.resolve(__dirname, "textures/block"),
+        }),
         mode === 'development' &&
         componentTagger(),
     ].filter(Boolean),
@@ -0,0 +1,16 @@
+import {defineConfig} from "vitest/config";
+import path from "path";
+
+// Tests cover the framework-free code in src/core and src/lib, so they run in
+// Node without the app's Vite plugins.
+export default defineConfig({
+    resolve: {
+        alias: {
+            "@": path.resolve(__dirname, "./src"),
+        },
+    },
+    test: {
+        include: ["src/**/*.test.ts"],
+        environment: "node",
+    },
+});